@@ -1,5 +1,5 @@
 /* eslint-disable */
-// Generated by Wrangler by running `wrangler types env.d.ts --include-runtime false` (hash: bd048fe4903b9908bde77ea8b881dea1)
+// Generated by Wrangler by running `wrangler types env.d.ts --include-runtime false` (hash: 9440be8a712f50b0e52b07ccd64e75b1)
 declare namespace Cloudflare {
 	interface GlobalProps {
 		mainModule: typeof import("./src/server");
@@ -7,7 +7,11 @@ declare namespace Cloudflare {
 	}
 	interface Env {
 		PlantCare: DurableObjectNamespace<import("./src/server").PlantCare>;
+		PLANT_PHOTOS: R2Bucket;
 		AI: Ai;
+		CARE_PLAN_WORKFLOW: Workflow<import("./src/workflows/care-plan").CarePlanParams>;
+		AUTH_SECRET: string;
+		AUTH_MODE: string;
 	}
 }
 interface Env extends Cloudflare.Env {}
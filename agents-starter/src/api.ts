@@ -0,0 +1,612 @@
+/**
+ * REST/JSON API for the plant collection
+ * Lets scripts and dashboards manage plants without going through the chat agent.
+ * Routes are scoped to a PlantCare instance: /api/agents/:id/...
+ * Requests come from a signed-in user, who is credited with what they record.
+ */
+import { getAgentByName } from "agents";
+import { generateId } from "ai";
+import type { z } from "zod/v3";
+import { authorizeHousehold, getHomeHousehold, type AuthUser } from "./auth";
+import type { PlantCare } from "./server";
+import { MAX_PHOTO_BYTES } from "./shared";
+import { getSpeciesById, resolveSpecies } from "./species/lookup";
+import {
+  bulkCareEventSchema,
+  bulkWateringSchema,
+  careEventKindSchema,
+  careEventSchema,
+  careFrequencySchema,
+  careProfileSchema,
+  healthIssueSchema,
+  invitationSchema,
+  joinHouseholdSchema,
+  locationDetailsSchema,
+  locationUpdateSchema,
+  newPlantSchema,
+  plantUpdateSchema,
+  wateringSchema
+} from "./schemas";
+
+const API_PREFIX = /^\/api\/agents\/([^/]+)(\/.*)?$/;
+
+const wateringBodySchema = wateringSchema.omit({ plantId: true });
+const healthIssueBodySchema = healthIssueSchema.omit({ plantId: true });
+const careEventBodySchema = careEventSchema.omit({ plantId: true });
+const careFrequencyBodySchema = careFrequencySchema.omit({ plantId: true });
+
+function parseCareKind(url: URL) {
+  const kind = url.searchParams.get("kind");
+  if (kind === null) return undefined;
+  const result = careEventKindSchema.safeParse(kind);
+  if (!result.success) {
+    throw new ApiError(400, "Validation failed", result.error.issues);
+  }
+  return result.data;
+}
+
+/**
+ * The location a `?location=` filter names, by ID or name; undefined without one
+ */
+async function parseLocation(agent: DurableObjectStub<PlantCare>, url: URL) {
+  const reference = url.searchParams.get("location");
+  if (reference === null) return undefined;
+  const location = await agent.resolveLocation(reference);
+  if (!location) {
+    throw new ApiError(404, `Location ${reference} not found`);
+  }
+  return location.id;
+}
+
+/**
+ * Who a request comes from: the signed-in user, and the household member
+ * they are in the instance it is for, if they have joined it
+ */
+type Caller = { user: AuthUser; memberId: string | null };
+
+/**
+ * Only owners manage who is in the household
+ */
+async function requireOwner(
+  agent: DurableObjectStub<PlantCare>,
+  caller: Caller,
+  action: string
+) {
+  if (!(await agent.isOwner(caller.memberId))) {
+    throw new ApiError(403, `Only the household owner can ${action}`);
+  }
+}
+
+/**
+ * Thrown by route handlers to produce a JSON error response
+ */
+class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly details?: unknown
+  ) {
+    super(message);
+  }
+}
+
+function json(data: unknown, status = 200) {
+  return Response.json(data, { status });
+}
+
+async function parseBody<T extends z.ZodTypeAny>(
+  request: Request,
+  schema: T
+): Promise<z.infer<T>> {
+  let body: unknown;
+  try {
+    const text = await request.text();
+    body = text ? JSON.parse(text) : {};
+  } catch {
+    throw new ApiError(400, "Request body must be valid JSON");
+  }
+
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    throw new ApiError(400, "Validation failed", result.error.issues);
+  }
+  return result.data;
+}
+
+async function requireLocation(
+  agent: DurableObjectStub<PlantCare>,
+  locationId: string
+) {
+  const location = await agent.getLocation(locationId);
+  if (!location) {
+    throw new ApiError(404, `Location ${locationId} not found`);
+  }
+  return location;
+}
+
+async function requirePlant(
+  agent: DurableObjectStub<PlantCare>,
+  plantId: string
+) {
+  const plant = await agent.getPlant(plantId);
+  if (!plant) {
+    throw new ApiError(404, `Plant ${plantId} not found`);
+  }
+  return plant;
+}
+
+/**
+ * Read a photo uploaded as the raw image body
+ */
+async function parsePhotoUpload(request: Request) {
+  const contentType = request.headers.get("Content-Type") ?? "";
+  if (!contentType.startsWith("image/")) {
+    throw new ApiError(415, "Upload the photo as the raw image body");
+  }
+  const bytes = await request.arrayBuffer();
+  if (bytes.byteLength > MAX_PHOTO_BYTES) {
+    throw new ApiError(413, "Photo is too large");
+  }
+  return { bytes, contentType };
+}
+
+/**
+ * Stream a stored photo from R2
+ */
+async function servePhoto(
+  agent: DurableObjectStub<PlantCare>,
+  env: Env,
+  photoId: string
+) {
+  const photo = await agent.getPhoto(photoId);
+  const object = photo && (await env.PLANT_PHOTOS.get(photo.storageKey));
+  if (!photo || !object) {
+    throw new ApiError(404, `Photo ${photoId} not found`);
+  }
+  return new Response(object.body, {
+    headers: {
+      "Content-Type": photo.contentType,
+      "Cache-Control": "private, max-age=31536000, immutable"
+    }
+  });
+}
+
+/**
+ * Dispatch a request below /api/agents/:id to the matching PlantCare method
+ */
+async function route(
+  request: Request,
+  env: Env,
+  agent: DurableObjectStub<PlantCare>,
+  segments: string[],
+  caller: Caller
+): Promise<Response> {
+  const method = request.method;
+  const url = new URL(request.url);
+  const [collection, plantId, action, ...rest] = segments;
+
+  if (collection === "watering-needs" && segments.length === 1) {
+    if (method === "GET") {
+      return json(
+        await agent.getPlantsNeedingWater(await parseLocation(agent, url))
+      );
+    }
+    throw new ApiError(405, "Method not allowed");
+  }
+
+  if (collection === "care-needs" && segments.length === 1) {
+    if (method === "GET") {
+      return json(
+        await agent.getPlantsNeedingCare(
+          parseCareKind(url),
+          await parseLocation(agent, url)
+        )
+      );
+    }
+    throw new ApiError(405, "Method not allowed");
+  }
+
+  if (collection === "profile" && segments.length === 1) {
+    if (method === "GET") return json(await agent.getCareProfile());
+    if (method === "PUT") {
+      const update = await parseBody(request, careProfileSchema);
+      return json(await agent.updateCareProfile(update));
+    }
+    throw new ApiError(405, "Method not allowed");
+  }
+
+  // /locations and /locations/:locationId
+  if (collection === "locations" && segments.length <= 2) {
+    const locationId = plantId;
+    if (!locationId) {
+      if (method === "GET") return json(await agent.getLocations());
+      if (method === "POST") {
+        const details = await parseBody(request, locationDetailsSchema);
+        const added = await agent.addLocation(details);
+        if (!added) {
+          throw new ApiError(409, `Location ${details.name} already exists`);
+        }
+        return json(added, 201);
+      }
+      throw new ApiError(405, "Method not allowed");
+    }
+
+    if (method === "GET") return json(await requireLocation(agent, locationId));
+    if (method === "PATCH") {
+      const update = await parseBody(request, locationUpdateSchema);
+      if (
+        update.name !== undefined &&
+        (await agent.isLocationNameTaken(update.name, locationId))
+      ) {
+        throw new ApiError(409, `Location ${update.name} already exists`);
+      }
+      const updated = await agent.updateLocation(locationId, update);
+      if (!updated) throw new ApiError(404, `Location ${locationId} not found`);
+      return json(updated);
+    }
+    if (method === "DELETE") {
+      if (!(await agent.removeLocation(locationId))) {
+        throw new ApiError(404, `Location ${locationId} not found`);
+      }
+      return new Response(null, { status: 204 });
+    }
+    throw new ApiError(405, "Method not allowed");
+  }
+
+  // /members and /members/:memberId
+  if (collection === "members" && segments.length <= 2) {
+    const memberId = plantId;
+    if (!memberId) {
+      if (method === "GET") return json(await agent.getMembers());
+      // Join the household
+      if (method === "POST") {
+        const input = await parseBody(request, joinHouseholdSchema);
+        const member = await agent.joinHousehold(input, caller.user.id);
+        if (!member) {
+          throw new ApiError(
+            403,
+            "Joining this household needs a valid invitation"
+          );
+        }
+        return json(member, 201);
+      }
+      throw new ApiError(405, "Method not allowed");
+    }
+
+    // The member the signed-in user joined as
+    if (memberId === "me") {
+      if (method !== "GET") throw new ApiError(405, "Method not allowed");
+      const member = await agent.getMemberForUser(caller.user.id);
+      if (!member) {
+        throw new ApiError(404, "You have not joined this household");
+      }
+      return json(member);
+    }
+
+    if (method === "DELETE") {
+      // Members may leave on their own
+      if (memberId !== caller.memberId) {
+        await requireOwner(agent, caller, "remove other members");
+      }
+      if (!(await agent.removeMember(memberId))) {
+        throw new ApiError(404, `Member ${memberId} not found`);
+      }
+      return new Response(null, { status: 204 });
+    }
+    throw new ApiError(405, "Method not allowed");
+  }
+
+  // /invitations and /invitations/:code
+  if (collection === "invitations" && segments.length <= 2) {
+    const code = plantId;
+    if (!code) {
+      if (method === "GET") return json(await agent.getInvitations());
+      if (method === "POST") {
+        await requireOwner(agent, caller, "invite people");
+        const input = await parseBody(request, invitationSchema);
+        return json(await agent.inviteMember(input, caller.memberId), 201);
+      }
+      throw new ApiError(405, "Method not allowed");
+    }
+
+    if (method === "DELETE") {
+      await requireOwner(agent, caller, "withdraw invitations");
+      if (!(await agent.revokeInvitation(code))) {
+        throw new ApiError(404, `No open invitation ${code}`);
+      }
+      return new Response(null, { status: 204 });
+    }
+    throw new ApiError(405, "Method not allowed");
+  }
+
+  // /bulk/water and /bulk/care-events act on every plant a selector covers
+  if (collection === "bulk" && segments.length === 2) {
+    if (method !== "POST") throw new ApiError(405, "Method not allowed");
+    if (plantId === "water") {
+      const input = await parseBody(request, bulkWateringSchema);
+      return json(await agent.waterPlantsAs(caller.memberId, input));
+    }
+    if (plantId === "care-events") {
+      const input = await parseBody(request, bulkCareEventSchema);
+      return json(await agent.logCareEventsAs(caller.memberId, input));
+    }
+    throw new ApiError(404, "Not found");
+  }
+
+  // Photos uploaded before they are filed under a plant, e.g. from the chat composer
+  if (collection === "photos" && segments.length === 1) {
+    if (method !== "POST") throw new ApiError(405, "Method not allowed");
+    const { bytes, contentType } = await parsePhotoUpload(request);
+    const photo = await agent.savePhoto(bytes, contentType, {
+      caption: url.searchParams.get("caption")
+    });
+    return json(photo, 201);
+  }
+
+  if (collection === "photos" && plantId && !action) {
+    if (method === "GET") return servePhoto(agent, env, plantId);
+    // Only photos that were never filed under a plant, e.g. dropped from the composer
+    if (method === "DELETE") {
+      const deleted = await agent.deleteUnattachedPhoto(plantId);
+      if (!deleted) {
+        throw new ApiError(404, `Unattached photo ${plantId} not found`);
+      }
+      return new Response(null, { status: 204 });
+    }
+    throw new ApiError(405, "Method not allowed");
+  }
+
+  if (collection !== "plants" || rest.length > 0) {
+    throw new ApiError(404, "Not found");
+  }
+
+  // /plants
+  if (!plantId) {
+    if (method === "GET") {
+      const archived = url.searchParams.get("archived") === "true";
+      return json(
+        archived ? await agent.getArchivedPlants() : await agent.getPlants()
+      );
+    }
+    if (method === "POST") {
+      const details = await parseBody(request, newPlantSchema);
+      if (details.speciesId === undefined) {
+        const resolution = resolveSpecies(details.type);
+        if (resolution.status === "ambiguous") {
+          throw new ApiError(
+            409,
+            `"${details.type}" matches several species; resend with a speciesId (or null)`,
+            resolution.candidates.map(({ species }) => ({
+              speciesId: species.id,
+              scientificName: species.scientificName,
+              commonNames: species.commonNames
+            }))
+          );
+        }
+      } else if (details.speciesId && !getSpeciesById(details.speciesId)) {
+        throw new ApiError(400, `Unknown species ${details.speciesId}`);
+      }
+      return json(await agent.addPlant({ id: generateId(), ...details }), 201);
+    }
+    throw new ApiError(405, "Method not allowed");
+  }
+
+  // /plants/:plantId
+  if (!action) {
+    if (method === "GET") return json(await requirePlant(agent, plantId));
+    if (method === "PATCH") {
+      const update = await parseBody(request, plantUpdateSchema);
+      if (update.caretakerId && !(await agent.getMember(update.caretakerId))) {
+        throw new ApiError(400, `Unknown member ${update.caretakerId}`);
+      }
+      const updated = await agent.updatePlant(plantId, update);
+      if (!updated) throw new ApiError(404, `Plant ${plantId} not found`);
+      return json(updated);
+    }
+    if (method === "DELETE") {
+      const removed = await agent.removePlant(plantId);
+      if (!removed) throw new ApiError(404, `Plant ${plantId} not found`);
+      return json(removed);
+    }
+    throw new ApiError(405, "Method not allowed");
+  }
+
+  if (action === "restore") {
+    if (method !== "POST") throw new ApiError(405, "Method not allowed");
+    const restored = await agent.restorePlant(plantId);
+    if (!restored)
+      throw new ApiError(404, `No removed plant ${plantId} to restore`);
+    return json(restored);
+  }
+
+  if (action === "photos") {
+    if (method === "GET") {
+      await requirePlant(agent, plantId);
+      return json(await agent.getPlantPhotos(plantId));
+    }
+    if (method === "POST") {
+      await requirePlant(agent, plantId);
+      const { bytes, contentType } = await parsePhotoUpload(request);
+      const issueId = url.searchParams.get("issueId");
+      if (issueId) {
+        const issues = await agent.getHealthIssues(plantId, true);
+        if (!issues.some((issue) => issue.id === issueId)) {
+          throw new ApiError(404, `Health issue ${issueId} not found`);
+        }
+      }
+      const photo = await agent.savePhoto(bytes, contentType, {
+        plantId,
+        issueId,
+        caption: url.searchParams.get("caption")
+      });
+      return json(photo, 201);
+    }
+    throw new ApiError(405, "Method not allowed");
+  }
+
+  if (action === "changes") {
+    if (method !== "GET") throw new ApiError(405, "Method not allowed");
+    await requirePlant(agent, plantId);
+    return json(await agent.getPlantChanges(plantId));
+  }
+
+  if (action === "water") {
+    if (method === "GET") {
+      await requirePlant(agent, plantId);
+      const limit = Number(url.searchParams.get("limit")) || 10;
+      return json(await agent.getWateringHistory(plantId, limit));
+    }
+    if (method === "POST") {
+      const { notes } = await parseBody(request, wateringBodySchema);
+      await requirePlant(agent, plantId);
+      return json(
+        await agent.waterPlantAs(caller.memberId, plantId, notes),
+        201
+      );
+    }
+    throw new ApiError(405, "Method not allowed");
+  }
+
+  if (action === "watering-pattern") {
+    if (method === "GET") {
+      await requirePlant(agent, plantId);
+      return json(await agent.analyzeWateringPattern(plantId));
+    }
+    // Apply the suggested frequency
+    if (method === "POST") {
+      await requirePlant(agent, plantId);
+      const applied = await agent.applyWateringSuggestion(plantId);
+      if (!applied) {
+        throw new ApiError(
+          409,
+          "The watering history does not suggest a new frequency",
+          await agent.analyzeWateringPattern(plantId)
+        );
+      }
+      return json(applied);
+    }
+    throw new ApiError(405, "Method not allowed");
+  }
+
+  if (action === "health-issues") {
+    if (method === "GET") {
+      await requirePlant(agent, plantId);
+      const includeResolved =
+        url.searchParams.get("includeResolved") === "true";
+      return json(
+        await agent.getHealthIssueLifecycle(plantId, includeResolved)
+      );
+    }
+    if (method === "POST") {
+      const { issueDescription, diagnosis } = await parseBody(
+        request,
+        healthIssueBodySchema
+      );
+      await requirePlant(agent, plantId);
+      return json(
+        await agent.recordHealthIssue(plantId, issueDescription, diagnosis),
+        201
+      );
+    }
+    throw new ApiError(405, "Method not allowed");
+  }
+
+  if (action === "care-events") {
+    if (method === "GET") {
+      await requirePlant(agent, plantId);
+      const kind = parseCareKind(url);
+      const limit = Number(url.searchParams.get("limit")) || 10;
+      return json(await agent.getCareHistory(plantId, kind, limit));
+    }
+    if (method === "POST") {
+      const { kind, notes } = await parseBody(request, careEventBodySchema);
+      await requirePlant(agent, plantId);
+      return json(
+        await agent.logCareEvent({ plantId, kind, notes }, caller.memberId),
+        201
+      );
+    }
+    throw new ApiError(405, "Method not allowed");
+  }
+
+  if (action === "care-frequencies") {
+    if (method === "GET") {
+      await requirePlant(agent, plantId);
+      return json(await agent.getCareFrequencies(plantId));
+    }
+    if (method === "PUT") {
+      const { kind, frequencyDays } = await parseBody(
+        request,
+        careFrequencyBodySchema
+      );
+      await requirePlant(agent, plantId);
+      return json(
+        await agent.setCareFrequency({ plantId, kind, frequencyDays })
+      );
+    }
+    throw new ApiError(405, "Method not allowed");
+  }
+
+  throw new ApiError(404, "Not found");
+}
+
+/**
+ * Decode one segment of the URL path
+ */
+function decodePathSegment(segment: string) {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new ApiError(400, "Malformed URL path");
+  }
+}
+
+/**
+ * Handle a signed-in user's REST API request, or return null if the URL is
+ * not an API route
+ */
+export async function handleApiRequest(
+  request: Request,
+  env: Env,
+  user: AuthUser
+): Promise<Response | null> {
+  const { pathname } = new URL(request.url);
+  // Who is signed in, and the household that is theirs
+  if (pathname === "/api/me") {
+    if (request.method !== "GET") {
+      return json({ error: "Method not allowed" }, 405);
+    }
+    return json({ ...user, household: getHomeHousehold(user) });
+  }
+
+  const match = pathname.match(API_PREFIX);
+  if (!match) {
+    return null;
+  }
+
+  const [, agentId, path = ""] = match;
+
+  try {
+    const segments = path.split("/").filter(Boolean).map(decodePathSegment);
+    const household = decodePathSegment(agentId);
+    const joining =
+      request.method === "POST" &&
+      segments.length === 1 &&
+      segments[0] === "members";
+    const access = await authorizeHousehold(env, user, household, joining);
+    if (!access) {
+      throw new ApiError(403, "You are not a member of this household");
+    }
+    const agent = await getAgentByName(env.PlantCare, household);
+    return await route(request, env, agent, segments, { user, ...access });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return json(
+        { error: error.message, details: error.details },
+        error.status
+      );
+    }
+    console.error("Error handling API request:", error);
+    return json({ error: "Internal server error" }, 500);
+  }
+}
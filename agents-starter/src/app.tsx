@@ -1,10 +1,17 @@
 /** biome-ignore-all lint/correctness/useUniqueElementIds: it's alright */
 import { useEffect, useState, useRef, useCallback } from "react";
 import { useAgent } from "agents/react";
-import { isToolUIPart } from "ai";
+import { isToolUIPart, type FileUIPart } from "ai";
 import { useAgentChat } from "agents/ai-react";
 import type { UIMessage } from "@ai-sdk/react";
 import type { tools } from "./tools";
+import {
+  getPhotoUrl,
+  MAX_PHOTO_BYTES,
+  type PlantCollectionState,
+  type PlantPhoto
+} from "./shared";
+import { getSpeciesById } from "./species/lookup";
 
 // Component imports
 import { Button } from "@/components/button/Button";
@@ -14,31 +21,88 @@ import { Toggle } from "@/components/toggle/Toggle";
 import { Textarea } from "@/components/textarea/Textarea";
 import { MemoizedMarkdown } from "@/components/memoized-markdown";
 import { ToolInvocationCard } from "@/components/tool-invocation-card/ToolInvocationCard";
+import { PlantDashboard } from "@/components/plant-dashboard/PlantDashboard";
+import { JoinHousehold } from "@/components/household/JoinHousehold";
+import { SignInRequired } from "@/components/household/SignInRequired";
+import useHousehold from "@/hooks/useHousehold";
 
 // Icon imports
 import {
   Bug,
   Moon,
+  Plant,
   Robot,
   Sun,
   Trash,
   PaperPlaneTilt,
-  Stop
+  Paperclip,
+  Stop,
+  X
 } from "@phosphor-icons/react";
 
 // List of tools that require human confirmation
 // NOTE: this should match the tools that don't have execute functions in tools.ts
 const toolsRequiringConfirmation: (keyof typeof tools)[] = [
-  // No tools require confirmation in plant care app
+  "confirmPlantRemoval",
+  "confirmSpecies"
 ];
 
-export default function Chat() {
+/**
+ * Buttons for confirmSpecies: one per candidate species, plus adding the plant
+ * without one
+ */
+function getSpeciesChoices(input: unknown) {
+  const { candidates = [] } = (input ?? {}) as { candidates?: string[] };
+  return [
+    ...candidates.flatMap((id) => {
+      const species = getSpeciesById(id);
+      return species
+        ? [
+            {
+              value: id,
+              label: `${species.commonNames[0]} (${species.scientificName})`
+            }
+          ]
+        : [];
+    }),
+    { value: "", label: "None of these" }
+  ];
+}
+
+export default function App() {
+  const { householdId, inviteCode, memberId, setMemberId, signedOut } =
+    useHousehold();
+
+  if (signedOut) {
+    return <SignInRequired />;
+  }
+  // Still finding out whose household this is and whether they joined it
+  if (!householdId || memberId === undefined) {
+    return null;
+  }
+  if (!memberId) {
+    return (
+      <JoinHousehold
+        householdId={householdId}
+        inviteCode={inviteCode}
+        onJoined={setMemberId}
+      />
+    );
+  }
+  return <Chat householdId={householdId} />;
+}
+
+function Chat({ householdId }: { householdId: string }) {
   const [theme, setTheme] = useState<"dark" | "light">(() => {
     // Check localStorage first, default to dark if not found
     const savedTheme = localStorage.getItem("theme");
     return (savedTheme as "dark" | "light") || "dark";
   });
   const [showDebug, setShowDebug] = useState(false);
+  const [showDashboard, setShowDashboard] = useState(true);
+  const [collection, setCollection] = useState<PlantCollectionState | null>(
+    null
+  );
   const [textareaHeight, setTextareaHeight] = useState("auto");
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
@@ -70,8 +134,14 @@ export default function Chat() {
     setTheme(newTheme);
   };
 
-  const agent = useAgent({
-    agent: "PlantCare"
+  // Each household has its own PlantCare instance; the worker tells it which
+  // signed-in user this browser is, so what they record is attributed to them
+  const agent = useAgent<PlantCollectionState>({
+    agent: "PlantCare",
+    name: householdId,
+    // The agent publishes the collection whenever a plant changes, in any tab
+    // or task
+    onStateUpdate: (state) => setCollection(state)
   });
 
   const [agentInput, setAgentInput] = useState("");
@@ -81,21 +151,100 @@ export default function Chat() {
     setAgentInput(e.target.value);
   };
 
+  // Photos waiting to be sent with the next message. They are uploaded as soon
+  // as they are picked, so the message only carries links to them
+  const [attachments, setAttachments] = useState<FileUIPart[]>([]);
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleAttachPhotos = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = "";
+
+    const tooLarge = files.filter((file) => file.size > MAX_PHOTO_BYTES);
+    const failed: string[] = [];
+    const photos = await Promise.all(
+      files
+        .filter(
+          (file) =>
+            file.type.startsWith("image/") && file.size <= MAX_PHOTO_BYTES
+        )
+        .map(async (file): Promise<FileUIPart | null> => {
+          try {
+            const response = await fetch(
+              `/api/agents/${encodeURIComponent(householdId)}/photos?caption=${encodeURIComponent(file.name)}`,
+              {
+                method: "POST",
+                headers: { "Content-Type": file.type },
+                body: file
+              }
+            );
+            if (!response.ok) {
+              throw new Error(`${response.status} ${response.statusText}`);
+            }
+            const photo = (await response.json()) as PlantPhoto;
+            return {
+              type: "file",
+              mediaType: file.type,
+              filename: file.name,
+              url: getPhotoUrl(householdId, photo.id)
+            };
+          } catch (error) {
+            console.error(`Error uploading ${file.name}:`, error);
+            failed.push(file.name);
+            return null;
+          }
+        })
+    );
+
+    setAttachmentError(
+      [
+        tooLarge.length > 0
+          ? `${tooLarge.map((file) => file.name).join(", ")} is over ${MAX_PHOTO_BYTES / 1024 / 1024} MB`
+          : null,
+        failed.length > 0 ? `${failed.join(", ")} could not be uploaded` : null
+      ]
+        .filter(Boolean)
+        .join(". ") || null
+    );
+    setAttachments((current) => [
+      ...current,
+      ...photos.filter((photo): photo is FileUIPart => photo !== null)
+    ]);
+  };
+
+  // Drop a photo from the next message and delete its upload, which nothing
+  // else refers to yet
+  const handleRemoveAttachment = async (photo: FileUIPart) => {
+    setAttachments((current) => current.filter((other) => other !== photo));
+    try {
+      await fetch(photo.url, { method: "DELETE" });
+    } catch (error) {
+      console.error(`Error deleting ${photo.filename}:`, error);
+    }
+  };
+
   const handleAgentSubmit = async (
     e: React.FormEvent,
     extraData: Record<string, unknown> = {}
   ) => {
     e.preventDefault();
-    if (!agentInput.trim()) return;
+    if (!agentInput.trim() && attachments.length === 0) return;
 
     const message = agentInput;
+    const photos = attachments;
     setAgentInput("");
+    setAttachments([]);
+    setAttachmentError(null);
 
     // Send message to agent
     await sendMessage(
       {
         role: "user",
-        parts: [{ type: "text", text: message }]
+        parts: [
+          ...photos,
+          ...(message.trim() ? [{ type: "text" as const, text: message }] : [])
+        ]
       },
       {
         body: extraData
@@ -110,7 +259,7 @@ export default function Chat() {
     status,
     sendMessage,
     stop
-  } = useAgentChat<unknown, UIMessage<{ createdAt: string }>>({
+  } = useAgentChat<PlantCollectionState, UIMessage<{ createdAt: string }>>({
     agent
   });
 
@@ -119,6 +268,11 @@ export default function Chat() {
     agentMessages.length > 0 && scrollToBottom();
   }, [agentMessages, scrollToBottom]);
 
+  // Log a watering directly on the agent, without a chat turn
+  const handleWaterPlant = async (plantId: string) => {
+    await agent.call("waterPlant", [plantId]);
+  };
+
   const pendingToolCallConfirmation = agentMessages.some((m: UIMessage) =>
     m.parts?.some(
       (part) =>
@@ -138,7 +292,15 @@ export default function Chat() {
   return (
     <div className="h-[100vh] w-full p-4 flex justify-center items-center bg-fixed overflow-hidden">
       <HasOpenAIKey />
-      <div className="h-[calc(100vh-2rem)] w-full mx-auto max-w-lg flex flex-col shadow-xl rounded-md overflow-hidden relative border border-neutral-300 dark:border-neutral-800">
+      {showDashboard && (
+        <aside className="hidden md:flex h-[calc(100vh-2rem)] w-80 mr-4 flex-shrink-0 flex-col shadow-xl rounded-md overflow-hidden border border-neutral-300 dark:border-neutral-800">
+          <PlantDashboard
+            plants={collection?.plants ?? []}
+            onWater={handleWaterPlant}
+          />
+        </aside>
+      )}
+      <div className="h-[calc(100vh-2rem)] w-full max-w-lg flex flex-col shadow-xl rounded-md overflow-hidden relative border border-neutral-300 dark:border-neutral-800">
         <div className="px-4 py-3 border-b border-neutral-300 dark:border-neutral-800 flex items-center gap-3 sticky top-0 z-10">
           <div className="flex items-center justify-center h-8 w-8">
             <svg
@@ -171,6 +333,17 @@ export default function Chat() {
             />
           </div>
 
+          <Button
+            variant="ghost"
+            size="md"
+            shape="square"
+            className="rounded-full h-9 w-9 hidden md:flex"
+            aria-label="Toggle plant dashboard"
+            onClick={() => setShowDashboard((prev) => !prev)}
+          >
+            <Plant size={20} />
+          </Button>
+
           <Button
             variant="ghost"
             size="md"
@@ -201,7 +374,9 @@ export default function Chat() {
                   <div className="bg-[#F48120]/10 text-[#F48120] rounded-full p-3 inline-flex">
                     <Robot size={24} />
                   </div>
-                  <h3 className="font-semibold text-lg">Welcome to Plant Care Assistant</h3>
+                  <h3 className="font-semibold text-lg">
+                    Welcome to Plant Care Assistant
+                  </h3>
                   <p className="text-muted-foreground text-sm">
                     Your personal houseplant companion! I can help you with:
                   </p>
@@ -302,6 +477,23 @@ export default function Chat() {
                             );
                           }
 
+                          if (
+                            part.type === "file" &&
+                            part.mediaType.startsWith("image/")
+                          ) {
+                            return (
+                              <img
+                                // biome-ignore lint/suspicious/noArrayIndexKey: immutable index
+                                key={i}
+                                src={part.url}
+                                alt={part.filename ?? "Attached photo"}
+                                className={`max-h-64 rounded-md mb-2 border border-neutral-200 dark:border-neutral-800 ${
+                                  isUser ? "ml-auto" : ""
+                                }`}
+                              />
+                            );
+                          }
+
                           if (isToolUIPart(part)) {
                             const toolCallId = part.toolCallId;
                             const toolName = part.type.replace("tool-", "");
@@ -320,6 +512,11 @@ export default function Chat() {
                                 toolUIPart={part}
                                 toolCallId={toolCallId}
                                 needsConfirmation={needsConfirmation}
+                                choices={
+                                  toolName === "confirmSpecies"
+                                    ? getSpeciesChoices(part.input)
+                                    : undefined
+                                }
                                 onSubmit={({ toolCallId, result }) => {
                                   addToolResult({
                                     tool: part.type.replace("tool-", ""),
@@ -362,7 +559,55 @@ export default function Chat() {
           }}
           className="p-3 bg-neutral-50 absolute bottom-0 left-0 right-0 z-10 border-t border-neutral-300 dark:border-neutral-800 dark:bg-neutral-900"
         >
+          {(attachments.length > 0 || attachmentError) && (
+            <div className="flex flex-wrap items-center gap-2 mb-2">
+              {attachments.map((photo, i) => (
+                <div
+                  // biome-ignore lint/suspicious/noArrayIndexKey: attachments are only appended or removed
+                  key={i}
+                  className="relative"
+                >
+                  <img
+                    src={photo.url}
+                    alt={photo.filename ?? "Photo to send"}
+                    className="h-16 w-16 object-cover rounded-md border border-neutral-200 dark:border-neutral-700"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => handleRemoveAttachment(photo)}
+                    className="absolute -top-2 -right-2 rounded-full p-0.5 bg-neutral-200 dark:bg-neutral-700 cursor-pointer"
+                    aria-label={`Remove ${photo.filename ?? "photo"}`}
+                  >
+                    <X size={12} />
+                  </button>
+                </div>
+              ))}
+              {attachmentError && (
+                <p className="text-xs text-red-500">{attachmentError}</p>
+              )}
+            </div>
+          )}
           <div className="flex items-center gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              multiple
+              className="hidden"
+              onChange={handleAttachPhotos}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="md"
+              shape="square"
+              className="rounded-full h-9 w-9"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={pendingToolCallConfirmation}
+              aria-label="Attach photos"
+            >
+              <Paperclip size={20} />
+            </Button>
             <div className="flex-1 relative">
               <Textarea
                 disabled={pendingToolCallConfirmation}
@@ -408,7 +653,10 @@ export default function Chat() {
                   <button
                     type="submit"
                     className="inline-flex items-center cursor-pointer justify-center gap-2 whitespace-nowrap text-sm font-medium ring-offset-background transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:pointer-events-none disabled:opacity-50 [&_svg]:pointer-events-none [&_svg]:size-4 [&_svg]:shrink-0 bg-primary text-primary-foreground hover:bg-primary/90 rounded-full p-1.5 h-fit border border-neutral-200 dark:border-neutral-800"
-                    disabled={pendingToolCallConfirmation || !agentInput.trim()}
+                    disabled={
+                      pendingToolCallConfirmation ||
+                      (!agentInput.trim() && attachments.length === 0)
+                    }
                     aria-label="Send message"
                   >
                     <PaperPlaneTilt size={16} />
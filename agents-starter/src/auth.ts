@@ -0,0 +1,334 @@
+/**
+ * Authentication for the worker entry point
+ * Every API and agent request has to come from a signed-in user. Who that is
+ * comes from a signed session token, sent as a cookie by the browser or as a
+ * bearer token by scripts, or from a stub when `AUTH_MODE` is "dev". Each user
+ * has a PlantCare instance named after them and can open other households
+ * only once they are one of its members. The /auth routes issue tokens and
+ * turn them into the session cookie.
+ */
+import { getAgentByName } from "agents";
+
+export interface AuthUser {
+  id: string;
+  name: string | null;
+}
+
+/**
+ * Works out who sent a request; null when nobody is signed in
+ */
+export type Authenticator = (
+  request: Request,
+  env: Env
+) => Promise<AuthUser | null>;
+
+export const SESSION_COOKIE = "plant_session";
+// Set by the worker on every request it forwards to a PlantCare instance
+export const USER_ID_HEADER = "X-Plant-User";
+// The PlantCare instance everyone shared before sign-in
+export const LEGACY_HOUSEHOLD = "default";
+
+// User IDs double as instance names, so they have to be safe in a URL path
+const USER_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const DEFAULT_SESSION_TTL_SECONDS = 30 * 24 * 60 * 60;
+const DEV_USER: AuthUser = { id: "dev", name: "Developer" };
+
+/**
+ * Whether a user ID can name the user's own instance: safe in a URL path and
+ * not the instance from before sign-in
+ */
+function isValidUserId(userId: string) {
+  return USER_ID_PATTERN.test(userId) && userId !== LEGACY_HOUSEHOLD;
+}
+
+type SessionClaims = { sub: string; name: string | null; exp: number };
+
+function encodeBase64Url(bytes: Uint8Array) {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function decodeBase64Url(text: string) {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+function importSigningKey(secret: string) {
+  return crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+}
+
+/**
+ * Issue a session token for a user, signed with `AUTH_SECRET`. Whatever signs
+ * people in hands it to the browser as the session cookie, or to a script to
+ * send as a bearer token.
+ */
+export async function createSessionToken(
+  user: Pick<AuthUser, "id"> & Partial<AuthUser>,
+  secret: string,
+  ttlSeconds = DEFAULT_SESSION_TTL_SECONDS
+) {
+  if (!isValidUserId(user.id)) {
+    throw new Error(`User ID ${user.id} cannot name a household`);
+  }
+  const claims: SessionClaims = {
+    sub: user.id,
+    name: user.name ?? null,
+    exp: Math.floor(Date.now() / 1000) + ttlSeconds
+  };
+  const payload = encodeBase64Url(
+    new TextEncoder().encode(JSON.stringify(claims))
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await importSigningKey(secret),
+    new TextEncoder().encode(payload)
+  );
+  return `${payload}.${encodeBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * The user a session token was issued to, or null if it is forged, malformed
+ * or expired
+ */
+export async function verifySessionToken(
+  token: string,
+  secret: string
+): Promise<AuthUser | null> {
+  const [payload, signature, ...rest] = token.split(".");
+  if (!payload || !signature || rest.length > 0) {
+    return null;
+  }
+  try {
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      await importSigningKey(secret),
+      decodeBase64Url(signature),
+      new TextEncoder().encode(payload)
+    );
+    if (!valid) {
+      return null;
+    }
+    const claims = JSON.parse(
+      new TextDecoder().decode(decodeBase64Url(payload))
+    ) as SessionClaims;
+    if (
+      typeof claims.sub !== "string" ||
+      !isValidUserId(claims.sub) ||
+      !(claims.exp > Date.now() / 1000)
+    ) {
+      return null;
+    }
+    return { id: claims.sub, name: claims.name ?? null };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The credential a request carries: a bearer token, otherwise the session cookie
+ */
+function getCredential(request: Request) {
+  const authorization = request.headers.get("Authorization");
+  if (authorization?.startsWith("Bearer ")) {
+    return authorization.slice("Bearer ".length).trim();
+  }
+  for (const cookie of request.headers.get("Cookie")?.split(";") ?? []) {
+    const [name, ...value] = cookie.trim().split("=");
+    if (name === SESSION_COOKIE) {
+      return decodeURIComponent(value.join("="));
+    }
+  }
+  return null;
+}
+
+/**
+ * Signed session tokens; nobody can sign in until `AUTH_SECRET` is set
+ */
+export const sessionAuthenticator: Authenticator = async (request, env) => {
+  const token = getCredential(request);
+  if (!token || !env.AUTH_SECRET) {
+    return null;
+  }
+  return verifySessionToken(token, env.AUTH_SECRET);
+};
+
+/**
+ * Local development stub: everyone is signed in, as the developer unless the
+ * token or cookie names another user ID, so households can be tried out with
+ * several people on one machine
+ */
+export const devAuthenticator: Authenticator = async (request) => {
+  const userId = getCredential(request);
+  return userId && isValidUserId(userId)
+    ? { id: userId, name: null }
+    : DEV_USER;
+};
+
+const authenticators: Record<string, Authenticator> = {
+  session: sessionAuthenticator,
+  dev: devAuthenticator
+};
+
+/**
+ * The authenticator `AUTH_MODE` picks, signed session tokens by default
+ */
+export function getAuthenticator(env: Env): Authenticator {
+  const mode = env.AUTH_MODE || "session";
+  const authenticator = authenticators[mode];
+  if (!authenticator) {
+    throw new Error(`Unknown AUTH_MODE ${mode}`);
+  }
+  return authenticator;
+}
+
+function sessionCookie(token: string, maxAgeSeconds: number) {
+  return `${SESSION_COOKIE}=${encodeURIComponent(token)}; Path=/; HttpOnly; Secure; SameSite=Lax; Max-Age=${maxAgeSeconds}`;
+}
+
+/**
+ * Whether a request carries `AUTH_SECRET` as its bearer token, compared in
+ * constant time
+ */
+function hasAuthSecret(request: Request, env: Env) {
+  const authorization = request.headers.get("Authorization") ?? "";
+  const expected = `Bearer ${env.AUTH_SECRET}`;
+  if (!env.AUTH_SECRET || authorization.length !== expected.length) {
+    return false;
+  }
+  let difference = 0;
+  for (let i = 0; i < expected.length; i++) {
+    difference |= authorization.charCodeAt(i) ^ expected.charCodeAt(i);
+  }
+  return difference === 0;
+}
+
+/**
+ * Sign-in routes, served to people who are not signed in yet:
+ * - `POST /auth/tokens` issues a session token and sign-in link for a user
+ *   (`userId`, optional `name`) to whoever holds `AUTH_SECRET`, e.g. an admin
+ *   or a sign-in service
+ * - `GET /auth/sign-in?token=` turns a token into the session cookie
+ * - `POST /auth/sign-out` clears it
+ * Returns null for any other URL.
+ */
+export async function handleAuthRequest(
+  request: Request,
+  env: Env
+): Promise<Response | null> {
+  const url = new URL(request.url);
+
+  if (url.pathname === "/auth/tokens" && request.method === "POST") {
+    if (!hasAuthSecret(request, env)) {
+      return Response.json({ error: "Not allowed" }, { status: 403 });
+    }
+    const { userId, name } = (await request.json().catch(() => ({}))) as {
+      userId?: unknown;
+      name?: unknown;
+    };
+    if (typeof userId !== "string" || !isValidUserId(userId)) {
+      return Response.json(
+        {
+          error: `userId may only use letters, digits, - and _, and cannot be "${LEGACY_HOUSEHOLD}"`
+        },
+        { status: 400 }
+      );
+    }
+    const token = await createSessionToken(
+      { id: userId, name: typeof name === "string" ? name : null },
+      env.AUTH_SECRET
+    );
+    const signInUrl = new URL("/auth/sign-in", url);
+    signInUrl.searchParams.set("token", token);
+    return Response.json({ token, signInUrl: signInUrl.href }, { status: 201 });
+  }
+
+  if (url.pathname === "/auth/sign-in" && request.method === "GET") {
+    const token = url.searchParams.get("token");
+    const user =
+      token && env.AUTH_SECRET
+        ? await verifySessionToken(token, env.AUTH_SECRET)
+        : null;
+    if (!token || !user) {
+      return new Response("This sign-in link is invalid or has expired", {
+        status: 401
+      });
+    }
+    return new Response(null, {
+      status: 302,
+      headers: {
+        Location: "/",
+        "Set-Cookie": sessionCookie(token, DEFAULT_SESSION_TTL_SECONDS)
+      }
+    });
+  }
+
+  if (url.pathname === "/auth/sign-out" && request.method === "POST") {
+    return new Response(null, {
+      status: 204,
+      headers: { "Set-Cookie": sessionCookie("", 0) }
+    });
+  }
+
+  return null;
+}
+
+/**
+ * The name of the PlantCare instance that belongs to a user
+ */
+export function getHomeHousehold(user: AuthUser) {
+  return user.id;
+}
+
+/**
+ * Whether a user may open a household, and the member they are in it.
+ * Their own household is always open to them and any other once they have
+ * joined it; `joining` lets the request that joins through to a household
+ * someone has already set up, which needs an invitation, or to the one from
+ * before sign-in, which the first user to join claims. Null when they may
+ * not open it.
+ */
+export async function authorizeHousehold(
+  env: Env,
+  user: AuthUser,
+  household: string,
+  joining = false
+): Promise<{ memberId: string | null } | null> {
+  const agent = await getAgentByName(env.PlantCare, household);
+  const member = await agent.getMemberForUser(user.id);
+  if (member || household === getHomeHousehold(user)) {
+    return { memberId: member?.id ?? null };
+  }
+  if (
+    joining &&
+    ((await agent.getMembers()).length > 0 || (await agent.isUnclaimed()))
+  ) {
+    return { memberId: null };
+  }
+  return null;
+}
+
+/**
+ * Let a user's websocket or HTTP request through to a household's agent,
+ * telling the agent who they are, or turn it away
+ */
+export async function admitToHousehold(
+  request: Request,
+  env: Env,
+  user: AuthUser,
+  household: string
+): Promise<Request | Response> {
+  if (!(await authorizeHousehold(env, user, household))) {
+    return new Response("Forbidden", { status: 403 });
+  }
+  const admitted = new Request(request);
+  admitted.headers.set(USER_ID_HEADER, user.id);
+  return admitted;
+}
@@ -0,0 +1,87 @@
+import { useState } from "react";
+import { UsersThree } from "@phosphor-icons/react";
+import { Button } from "@/components/button/Button";
+import { Card } from "@/components/card/Card";
+import { Input } from "@/components/input/Input";
+import type { HouseholdMember } from "@/shared";
+
+interface JoinHouseholdProps {
+  householdId: string;
+  inviteCode: string | null;
+  onJoined: (memberId: string) => void;
+}
+
+/**
+ * Asks for a name before this browser uses the household, so everything it
+ * records is attributed to someone
+ */
+export function JoinHousehold({
+  householdId,
+  inviteCode,
+  onJoined
+}: JoinHouseholdProps) {
+  const [name, setName] = useState("");
+  const [joining, setJoining] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setJoining(true);
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/agents/${encodeURIComponent(householdId)}/members`,
+        {
+          method: "POST",
+          body: JSON.stringify({ name, inviteCode: inviteCode ?? undefined })
+        }
+      );
+      if (!response.ok) {
+        const { error } = (await response.json()) as { error: string };
+        setError(error);
+        return;
+      }
+      const member = (await response.json()) as HouseholdMember;
+      onJoined(member.id);
+    } catch (error) {
+      setError(`Could not join: ${error}`);
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  return (
+    <div className="h-[100vh] w-full p-4 flex justify-center items-center">
+      <Card className="p-6 max-w-sm w-full bg-neutral-100 dark:bg-neutral-900">
+        <form className="space-y-4" onSubmit={handleSubmit}>
+          <div className="flex items-center gap-2">
+            <UsersThree size={24} className="text-[#F48120]" />
+            <h2 className="font-semibold text-base">
+              {inviteCode ? "Join the household" : "Set up your household"}
+            </h2>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {inviteCode
+              ? "You were invited to share this plant collection. What should everyone call you?"
+              : "Plants, waterings and reminders are shared with everyone you invite. What should they call you?"}
+          </p>
+          <Input
+            aria-label="Your name"
+            placeholder="Your name"
+            onValueChange={(value) => setName(value)}
+          />
+          {error && <p className="text-sm text-red-500">{error}</p>}
+          <Button
+            type="submit"
+            variant="primary"
+            className="w-full"
+            loading={joining}
+            disabled={joining || !name.trim()}
+          >
+            Continue
+          </Button>
+        </form>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import { LockKey } from "@phosphor-icons/react";
+import { Card } from "@/components/card/Card";
+
+/**
+ * Shown when nobody is signed in, instead of the chat
+ */
+export function SignInRequired() {
+  return (
+    <div className="h-[100vh] w-full p-4 flex justify-center items-center">
+      <Card className="p-6 max-w-sm w-full bg-neutral-100 dark:bg-neutral-900">
+        <div className="space-y-4">
+          <div className="flex items-center gap-2">
+            <LockKey size={24} className="text-[#F48120]" />
+            <h2 className="font-semibold text-base">Sign in required</h2>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Your plant collection is private. Open the sign-in link you were
+            given to continue; if it has expired, ask for a new one.
+          </p>
+        </div>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import { useEffect, useState } from "react";
+import { Drop, FirstAid, Plant, Sun, MapPin } from "@phosphor-icons/react";
+import { Button } from "@/components/button/Button";
+import { Card } from "@/components/card/Card";
+import { getDaysUntilWatering, type PlantOverview } from "@/shared";
+import { describeWateringInterval } from "@/watering";
+
+interface PlantDashboardProps {
+  plants: PlantOverview[];
+  onWater: (plantId: string) => Promise<void>;
+}
+
+// How often the watering countdowns are recounted while the page stays open
+const CLOCK_TICK_MS = 60 * 1000;
+
+/**
+ * The current time, updated every CLOCK_TICK_MS
+ */
+function useNow() {
+  const [now, setNow] = useState(() => new Date());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), CLOCK_TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+  return now;
+}
+
+function formatDue(daysUntilWatering: number) {
+  if (daysUntilWatering > 1) return `Water in ${daysUntilWatering} days`;
+  if (daysUntilWatering === 1) return "Water tomorrow";
+  if (daysUntilWatering === 0) return "Water today";
+  const overdue = -daysUntilWatering;
+  return `Overdue by ${overdue} ${overdue === 1 ? "day" : "days"}`;
+}
+
+function formatLastWatered(lastWatered: string | null) {
+  if (!lastWatered) return "Never watered";
+  return `Last watered ${new Date(lastWatered).toLocaleDateString()}`;
+}
+
+function PlantRow({
+  plant,
+  daysUntilWatering,
+  onWater
+}: {
+  plant: PlantOverview;
+  daysUntilWatering: number;
+  onWater: (plantId: string) => Promise<void>;
+}) {
+  const [watering, setWatering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const isDue = daysUntilWatering <= 0;
+  const intervalAdjustment = describeWateringInterval(plant);
+
+  const handleWater = async () => {
+    setWatering(true);
+    setError(null);
+    try {
+      await onWater(plant.id);
+    } catch (error) {
+      setError(`Could not record watering: ${error}`);
+    } finally {
+      setWatering(false);
+    }
+  };
+
+  return (
+    <Card className="p-3 bg-neutral-100 dark:bg-neutral-900 space-y-2">
+      <div className="flex items-start gap-2">
+        <div className="flex-1 min-w-0">
+          <h4 className="font-medium truncate">{plant.name}</h4>
+          <p className="text-xs text-muted-foreground truncate">{plant.type}</p>
+        </div>
+        <Button
+          variant={isDue ? "primary" : "secondary"}
+          size="sm"
+          loading={watering}
+          disabled={watering}
+          onClick={handleWater}
+          aria-label={`Mark ${plant.name} as watered`}
+        >
+          <Drop size={14} />
+          Watered
+        </Button>
+      </div>
+      {error && <p className="text-xs text-red-500">{error}</p>}
+
+      <div className="text-xs text-muted-foreground space-y-1">
+        {plant.location && (
+          <p className="flex items-center gap-1">
+            <MapPin size={12} />
+            {plant.location}
+          </p>
+        )}
+        {plant.lightRequirement && (
+          <p className="flex items-center gap-1">
+            <Sun size={12} />
+            {plant.lightRequirement}
+          </p>
+        )}
+        <p className="flex items-center gap-1">
+          <Drop size={12} />
+          {formatLastWatered(plant.lastWatered)}
+        </p>
+      </div>
+
+      <p
+        className={`text-xs font-medium ${isDue ? "text-[#F48120]" : "text-muted-foreground"}`}
+      >
+        {formatDue(daysUntilWatering)}
+      </p>
+      {intervalAdjustment && (
+        <p className="text-xs text-muted-foreground">
+          {intervalAdjustment.charAt(0).toUpperCase()}
+          {intervalAdjustment.slice(1)}
+        </p>
+      )}
+
+      {plant.openHealthIssues.length > 0 && (
+        <ul className="text-xs space-y-1 border-t border-neutral-300 dark:border-neutral-800 pt-2">
+          {plant.openHealthIssues.map((issue) => (
+            <li key={issue.id} className="flex items-start gap-1">
+              <FirstAid size={12} className="text-red-500 mt-0.5 shrink-0" />
+              <span>{issue.issueDescription}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  );
+}
+
+/**
+ * Sidebar listing the plant collection with one-click watering. Countdowns are
+ * worked out here from when each plant was last watered, so they stay current
+ * between collection updates.
+ */
+export function PlantDashboard({ plants, onWater }: PlantDashboardProps) {
+  const now = useNow();
+  const daysUntilWatering = new Map(
+    plants.map((plant) => [plant.id, getDaysUntilWatering(plant, now)])
+  );
+  const dueCount = plants.filter(
+    (plant) => daysUntilWatering.get(plant.id)! <= 0
+  ).length;
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="px-4 py-3 border-b border-neutral-300 dark:border-neutral-800 flex items-center gap-2">
+        <Plant size={20} className="text-[#F48120]" />
+        <h2 className="font-semibold text-base flex-1">My Plants</h2>
+        {dueCount > 0 && (
+          <span className="text-xs text-[#F48120]">{dueCount} due</span>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-3">
+        {plants.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center mt-6">
+            No plants yet. Ask the assistant to add your first plant!
+          </p>
+        ) : (
+          plants.map((plant) => (
+            <PlantRow
+              key={plant.id}
+              plant={plant}
+              daysUntilWatering={daysUntilWatering.get(plant.id)!}
+              onWater={onWater}
+            />
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,7 +3,7 @@ import type { ToolUIPart } from "ai";
 import { Robot, CaretDown } from "@phosphor-icons/react";
 import { Button } from "@/components/button/Button";
 import { Card } from "@/components/card/Card";
-import { APPROVAL } from "@/shared";
+import { APPROVAL, type ConfirmationChoice } from "@/shared";
 
 interface ToolResultWithContent {
   content: Array<{ type: string; text: string }>;
@@ -24,12 +24,14 @@ interface ToolInvocationCardProps {
   toolUIPart: ToolUIPart;
   toolCallId: string;
   needsConfirmation: boolean;
+  // Options to pick from instead of a plain approve
+  choices?: { value: string; label: string }[];
   onSubmit: ({
     toolCallId,
     result
   }: {
     toolCallId: string;
-    result: string;
+    result: string | ConfirmationChoice;
   }) => void;
   addToolResult: (toolCallId: string, result: string) => void;
 }
@@ -38,6 +40,7 @@ export function ToolInvocationCard({
   toolUIPart,
   toolCallId,
   needsConfirmation,
+  choices,
   onSubmit
   // addToolResult
 }: ToolInvocationCardProps) {
@@ -84,7 +87,7 @@ export function ToolInvocationCard({
           </div>
 
           {needsConfirmation && toolUIPart.state === "input-available" && (
-            <div className="flex gap-2 justify-end">
+            <div className="flex flex-wrap gap-2 justify-end">
               <Button
                 variant="primary"
                 size="sm"
@@ -92,13 +95,28 @@ export function ToolInvocationCard({
               >
                 Reject
               </Button>
-              <Button
-                variant="primary"
-                size="sm"
-                onClick={() => onSubmit({ toolCallId, result: APPROVAL.YES })}
-              >
-                Approve
-              </Button>
+              {choices ? (
+                choices.map(({ value, label }) => (
+                  <Button
+                    key={value}
+                    variant="primary"
+                    size="sm"
+                    onClick={() =>
+                      onSubmit({ toolCallId, result: { choice: value } })
+                    }
+                  >
+                    {label}
+                  </Button>
+                ))
+              ) : (
+                <Button
+                  variant="primary"
+                  size="sm"
+                  onClick={() => onSubmit({ toolCallId, result: APPROVAL.YES })}
+                >
+                  Approve
+                </Button>
+              )}
             </div>
           )}
 
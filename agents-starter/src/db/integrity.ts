@@ -0,0 +1,47 @@
+/**
+ * Referential integrity helpers for the PlantCare SQLite tables
+ */
+
+/**
+ * Turn on foreign key enforcement for this connection so that
+ * ON DELETE CASCADE actually removes watering and health history.
+ * Must run outside of a transaction, where SQLite ignores the pragma.
+ */
+export function enableForeignKeys(sql: SqlStorage) {
+  sql.exec(`PRAGMA foreign_keys = ON`);
+}
+
+/**
+ * Count rows per table whose foreign key points at a row that no longer exists
+ */
+export function findOrphans(sql: SqlStorage): Record<string, number> {
+  const counts: Record<string, number> = {};
+  const violations = sql
+    .exec<{ table: string }>(`PRAGMA foreign_key_check`)
+    .toArray();
+
+  for (const { table } of violations) {
+    counts[table] = (counts[table] || 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * Delete orphaned rows left behind by plants removed while foreign keys
+ * were not enforced. There is no parent left to reattach them to, so they
+ * are dropped. Returns the number of rows removed per table.
+ */
+export function removeOrphans(sql: SqlStorage): Record<string, number> {
+  const removed: Record<string, number> = {};
+  const violations = sql
+    .exec<{ table: string; rowid: number | null }>(`PRAGMA foreign_key_check`)
+    .toArray();
+
+  for (const { table, rowid } of violations) {
+    // Every plant table has a rowid, but WITHOUT ROWID tables would report null
+    if (rowid === null) continue;
+    sql.exec(`DELETE FROM "${table}" WHERE rowid = ?`, rowid);
+    removed[table] = (removed[table] || 0) + 1;
+  }
+  return removed;
+}
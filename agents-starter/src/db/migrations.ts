@@ -0,0 +1,834 @@
+import { removeOrphans } from "./integrity";
+
+/**
+ * Versioned schema migrations for the PlantCare SQLite tables
+ * Each migration runs once, in order, inside its own transaction
+ */
+
+export interface Migration {
+  /** Schema version this migration brings the database to */
+  version: number;
+  /** Short human-readable name, recorded in schema_version */
+  name: string;
+  up: (sql: SqlStorage) => void;
+}
+
+// Snapshots of the name matching that shipped migrations were written
+// against. They copy the live helpers on purpose: a migration has to keep
+// doing what it did when it shipped, however the resolvers change later.
+// Never edit them; a migration that needs other matching gets its own.
+
+function normalizeName(name: string) {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/['\u2019]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function editDistance(a: string, b: string) {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function containsPhrase(text: string, phrase: string) {
+  return ` ${text} `.includes(` ${phrase} `);
+}
+
+function scoreName(query: string, name: string) {
+  if (query === name) return 1;
+  if (containsPhrase(query, name)) return 0.9;
+  const partial = containsPhrase(name, query)
+    ? 0.6 + (0.3 * query.length) / name.length
+    : 0;
+  const typo =
+    1 - editDistance(query, name) / Math.max(query.length, name.length);
+  return Math.max(partial, typo);
+}
+
+const FILLER_WORDS = new Set([
+  "a",
+  "an",
+  "at",
+  "by",
+  "from",
+  "in",
+  "my",
+  "near",
+  "of",
+  "on",
+  "one",
+  "our",
+  "plant",
+  "plants",
+  "that",
+  "the",
+  "which"
+]);
+
+const SPOT_WORDS = new Set([
+  "corner",
+  "desk",
+  "door",
+  "floor",
+  "shelf",
+  "sill",
+  "table",
+  "wall",
+  "window",
+  "windowsill"
+]);
+
+function getWords(text: string) {
+  return normalizeName(text)
+    .split(" ")
+    .filter((word) => word && !FILLER_WORDS.has(word));
+}
+
+/**
+ * Version 11: the care guide's species as it shipped, each with the botanical
+ * and common names it was recognized by
+ */
+const SPECIES_NAMES_V11: [id: string, names: string[]][] = [
+  [
+    "epipremnum-aureum",
+    [
+      "Epipremnum aureum",
+      "pothos",
+      "golden pothos",
+      "devil's ivy",
+      "epipremnum",
+      "money plant"
+    ]
+  ],
+  [
+    "dracaena-trifasciata",
+    [
+      "Dracaena trifasciata",
+      "snake plant",
+      "mother-in-law's tongue",
+      "sansevieria",
+      "sansevieria trifasciata"
+    ]
+  ],
+  [
+    "monstera-deliciosa",
+    [
+      "Monstera deliciosa",
+      "monstera",
+      "swiss cheese plant",
+      "split-leaf philodendron"
+    ]
+  ],
+  [
+    "zamioculcas-zamiifolia",
+    ["Zamioculcas zamiifolia", "zz plant", "zanzibar gem", "zz"]
+  ],
+  [
+    "nephrolepis-exaltata",
+    ["Nephrolepis exaltata", "boston fern", "sword fern", "nephrolepis"]
+  ],
+  [
+    "spathiphyllum-wallisii",
+    ["Spathiphyllum wallisii", "peace lily", "spathiphyllum"]
+  ],
+  [
+    "chlorophytum-comosum",
+    ["Chlorophytum comosum", "spider plant", "airplane plant", "ribbon plant"]
+  ],
+  [
+    "ficus-lyrata",
+    ["Ficus lyrata", "fiddle leaf fig", "fiddle-leaf fig", "banjo fig"]
+  ],
+  [
+    "ficus-elastica",
+    ["Ficus elastica", "rubber plant", "rubber tree", "rubber fig"]
+  ],
+  ["aloe-vera", ["Aloe vera", "aloe", "aloe vera", "aloe barbadensis"]],
+  [
+    "crassula-ovata",
+    ["Crassula ovata", "jade plant", "jade", "lucky plant", "money plant"]
+  ],
+  [
+    "philodendron-hederaceum",
+    [
+      "Philodendron hederaceum",
+      "heartleaf philodendron",
+      "philodendron",
+      "sweetheart plant",
+      "philodendron brasil"
+    ]
+  ],
+  [
+    "aglaonema-commutatum",
+    ["Aglaonema commutatum", "chinese evergreen", "aglaonema"]
+  ],
+  [
+    "goeppertia-orbifolia",
+    [
+      "Goeppertia orbifolia",
+      "calathea",
+      "calathea orbifolia",
+      "prayer plant orbifolia"
+    ]
+  ],
+  [
+    "maranta-leuconeura",
+    ["Maranta leuconeura", "prayer plant", "maranta", "herringbone plant"]
+  ],
+  ["hedera-helix", ["Hedera helix", "english ivy", "ivy", "common ivy"]],
+  [
+    "chamaedorea-elegans",
+    ["Chamaedorea elegans", "parlor palm", "parlour palm", "neanthe bella palm"]
+  ],
+  [
+    "curio-rowleyanus",
+    ["Curio rowleyanus", "string of pearls", "senecio rowleyanus"]
+  ],
+  [
+    "phalaenopsis",
+    ["Phalaenopsis", "moth orchid", "orchid", "phalaenopsis orchid"]
+  ],
+  [
+    "dracaena-marginata",
+    ["Dracaena marginata", "dragon tree", "madagascar dragon tree", "dracaena"]
+  ],
+  [
+    "aspidistra-elatior",
+    ["Aspidistra elatior", "cast iron plant", "aspidistra", "bar room plant"]
+  ],
+  [
+    "strelitzia-reginae",
+    ["Strelitzia reginae", "bird of paradise", "crane flower", "strelitzia"]
+  ],
+  [
+    "pachira-aquatica",
+    ["Pachira aquatica", "money tree", "guiana chestnut", "pachira"]
+  ],
+  [
+    "streptocarpus-ionanthus",
+    ["Streptocarpus ionanthus", "african violet", "saintpaulia"]
+  ],
+  ["echeveria", ["Echeveria", "echeveria", "succulent"]]
+];
+
+/**
+ * Version 11: the species a plant type names, unless none scores at least
+ * 0.75 or another of the five best is within 0.05 of it
+ */
+function matchSpeciesV11(type: string) {
+  const query = normalizeName(type);
+  if (!query) {
+    return null;
+  }
+  const matches = SPECIES_NAMES_V11.map(([id, names]) => ({
+    id,
+    score: Math.max(
+      ...names.map((name) => scoreName(query, normalizeName(name)))
+    )
+  }))
+    .filter((match) => match.score >= 0.75)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, 5);
+  const [best] = matches;
+  if (
+    !best ||
+    matches.filter((match) => best.score - match.score <= 0.05).length > 1
+  ) {
+    return null;
+  }
+  return best.id;
+}
+
+type LocationName = { id: string; name: string };
+
+/**
+ * Version 14: the location a free-text location was grouped under, by the
+ * closest name that scored at least 0.75
+ */
+function matchLocationV14(text: string, locations: LocationName[]) {
+  const query = getWords(text).join(" ");
+  if (!query) {
+    return null;
+  }
+  const [best] = locations
+    .map((location) => ({
+      location,
+      score: scoreName(query, getWords(location.name).join(" "))
+    }))
+    .filter((match) => match.score >= 0.75)
+    .sort((a, b) => b.score - a.score);
+  return best?.location ?? null;
+}
+
+/**
+ * Version 17: the words naming a room, without a trailing spot within it
+ */
+function getRoomWordsV17(text: string) {
+  const words = getWords(text);
+  let end = words.length;
+  while (end > 1 && SPOT_WORDS.has(words[end - 1])) {
+    end--;
+  }
+  return words.slice(0, end);
+}
+
+/**
+ * Version 17: whether two location names are the same room, allowing a typo
+ * in a word of four letters or more but not a different number
+ */
+function isSameRoomV17(a: string, b: string) {
+  const words = getRoomWordsV17(a);
+  const other = getRoomWordsV17(b);
+  return (
+    words.length > 0 &&
+    words.length === other.length &&
+    words.every((word, i) =>
+      /\d/.test(word) || /\d/.test(other[i])
+        ? word === other[i]
+        : word === other[i] ||
+          (Math.min(word.length, other[i].length) >= 4 &&
+            editDistance(word, other[i]) <= 1)
+    )
+  );
+}
+
+/**
+ * Ordered list of forward migrations.
+ * Never edit a migration once it has shipped - add a new one instead.
+ */
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: "initial_schema",
+    // Uses IF NOT EXISTS so Durable Objects created before migrations existed
+    // are simply stamped as version 1
+    up: (sql) => {
+      sql.exec(`
+        CREATE TABLE IF NOT EXISTS plants (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          type TEXT NOT NULL,
+          location TEXT,
+          light_requirement TEXT,
+          water_frequency_days INTEGER,
+          last_watered TEXT,
+          notes TEXT,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      sql.exec(`
+        CREATE TABLE IF NOT EXISTS watering_history (
+          id TEXT PRIMARY KEY,
+          plant_id TEXT NOT NULL,
+          watered_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          notes TEXT,
+          FOREIGN KEY (plant_id) REFERENCES plants(id) ON DELETE CASCADE
+        )
+      `);
+
+      sql.exec(`
+        CREATE TABLE IF NOT EXISTS health_issues (
+          id TEXT PRIMARY KEY,
+          plant_id TEXT NOT NULL,
+          issue_description TEXT NOT NULL,
+          diagnosis TEXT,
+          resolved INTEGER DEFAULT 0,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          resolved_at TEXT,
+          FOREIGN KEY (plant_id) REFERENCES plants(id) ON DELETE CASCADE
+        )
+      `);
+    }
+  },
+  {
+    version: 2,
+    name: "remove_orphaned_history",
+    // Plants deleted before foreign keys were enforced left their
+    // watering_history and health_issues rows behind
+    up: (sql) => {
+      removeOrphans(sql);
+    }
+  },
+  {
+    version: 3,
+    name: "archive_plants",
+    // Removed plants are archived first and purged after a retention window
+    up: (sql) => {
+      sql.exec(`ALTER TABLE plants ADD COLUMN archived_at TEXT`);
+    }
+  },
+  {
+    version: 4,
+    name: "plant_reminder_schedules",
+    // Each plant owns the agent schedule for its next watering reminder
+    up: (sql) => {
+      sql.exec(`ALTER TABLE plants ADD COLUMN reminder_schedule_id TEXT`);
+    }
+  },
+  {
+    version: 5,
+    name: "care_plans",
+    // Progress of the multi-step routines run by CarePlanWorkflow
+    up: (sql) => {
+      sql.exec(`
+        CREATE TABLE care_plans (
+          id TEXT PRIMARY KEY,
+          plant_id TEXT NOT NULL,
+          name TEXT NOT NULL,
+          steps TEXT NOT NULL,
+          completed_steps INTEGER NOT NULL DEFAULT 0,
+          status TEXT NOT NULL DEFAULT 'running',
+          error TEXT,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (plant_id) REFERENCES plants(id) ON DELETE CASCADE
+        )
+      `);
+    }
+  },
+  {
+    version: 6,
+    name: "care_events",
+    // Fertilizing, repotting, pruning and misting get their own log and
+    // per-plant frequencies instead of living in watering notes
+    up: (sql) => {
+      sql.exec(`
+        CREATE TABLE care_events (
+          id TEXT PRIMARY KEY,
+          plant_id TEXT NOT NULL,
+          kind TEXT NOT NULL,
+          performed_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          notes TEXT,
+          FOREIGN KEY (plant_id) REFERENCES plants(id) ON DELETE CASCADE
+        )
+      `);
+      sql.exec(
+        `CREATE INDEX care_events_by_plant_kind ON care_events (plant_id, kind, performed_at)`
+      );
+
+      sql.exec(`
+        CREATE TABLE care_schedules (
+          plant_id TEXT NOT NULL,
+          kind TEXT NOT NULL,
+          frequency_days INTEGER NOT NULL,
+          set_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (plant_id, kind),
+          FOREIGN KEY (plant_id) REFERENCES plants(id) ON DELETE CASCADE
+        )
+      `);
+
+      // Carry over fertilizing that was recorded as a watering note
+      sql.exec(`
+        INSERT INTO care_events (id, plant_id, kind, performed_at, notes)
+        SELECT lower(hex(randomblob(16))), plant_id, 'fertilizing', watered_at, notes
+        FROM watering_history
+        WHERE notes LIKE '%fertili%'
+      `);
+    }
+  },
+  {
+    version: 7,
+    name: "plant_changes",
+    // Audit trail of edits to plant profiles
+    up: (sql) => {
+      sql.exec(`
+        CREATE TABLE plant_changes (
+          id TEXT PRIMARY KEY,
+          plant_id TEXT NOT NULL,
+          field TEXT NOT NULL,
+          old_value TEXT,
+          new_value TEXT,
+          changed_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (plant_id) REFERENCES plants(id) ON DELETE CASCADE
+        )
+      `);
+    }
+  },
+  {
+    version: 8,
+    name: "health_issue_treatment",
+    // Health issues move from reported to diagnosed, treated and resolved
+    up: (sql) => {
+      sql.exec(`ALTER TABLE health_issues ADD COLUMN diagnosed_at TEXT`);
+      sql.exec(`ALTER TABLE health_issues ADD COLUMN resolution TEXT`);
+      sql.exec(
+        `UPDATE health_issues SET diagnosed_at = created_at WHERE diagnosis IS NOT NULL`
+      );
+
+      sql.exec(`
+        CREATE TABLE treatment_steps (
+          id TEXT PRIMARY KEY,
+          issue_id TEXT NOT NULL,
+          description TEXT NOT NULL,
+          position INTEGER NOT NULL,
+          completed_at TEXT,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (issue_id) REFERENCES health_issues(id) ON DELETE CASCADE
+        )
+      `);
+    }
+  },
+  {
+    version: 9,
+    name: "structured_diagnosis",
+    // JSON from the model's structured diagnosis; `diagnosis` keeps its readable summary
+    up: (sql) => {
+      sql.exec(`ALTER TABLE health_issues ADD COLUMN diagnosis_details TEXT`);
+    }
+  },
+  {
+    version: 10,
+    name: "plant_photos",
+    // Image bytes live in R2; a photo belongs to no plant until it is attached to one
+    up: (sql) => {
+      sql.exec(`
+        CREATE TABLE plant_photos (
+          id TEXT PRIMARY KEY,
+          plant_id TEXT,
+          issue_id TEXT,
+          storage_key TEXT NOT NULL,
+          content_type TEXT NOT NULL,
+          size INTEGER NOT NULL,
+          caption TEXT,
+          observations TEXT,
+          uploaded_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (plant_id) REFERENCES plants(id) ON DELETE CASCADE,
+          FOREIGN KEY (issue_id) REFERENCES health_issues(id) ON DELETE SET NULL
+        )
+      `);
+    }
+  },
+  {
+    version: 11,
+    name: "plant_species",
+    // Canonical species from the care guide next to the free-text type;
+    // existing plants are resolved where the name is unambiguous
+    up: (sql) => {
+      sql.exec(`ALTER TABLE plants ADD COLUMN species_id TEXT`);
+      sql.exec(`CREATE INDEX plants_by_species ON plants (species_id)`);
+
+      const plants = sql
+        .exec<{ id: string; type: string }>(`SELECT id, type FROM plants`)
+        .toArray();
+      for (const plant of plants) {
+        const speciesId = matchSpeciesV11(plant.type);
+        if (speciesId) {
+          sql.exec(
+            `UPDATE plants SET species_id = ? WHERE id = ?`,
+            speciesId,
+            plant.id
+          );
+        }
+      }
+    }
+  },
+  {
+    version: 12,
+    name: "watering_environment",
+    // Per-plant pot size and light, plus a single-row profile of the user's
+    // hemisphere and indoor climate, to adjust watering intervals
+    up: (sql) => {
+      sql.exec(`ALTER TABLE plants ADD COLUMN pot_size_cm INTEGER`);
+      sql.exec(`ALTER TABLE plants ADD COLUMN light_level TEXT`);
+      sql.exec(`
+        CREATE TABLE care_profile (
+          id INTEGER PRIMARY KEY CHECK (id = 1),
+          hemisphere TEXT,
+          location TEXT,
+          indoor_temperature TEXT,
+          indoor_humidity TEXT,
+          updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+    }
+  },
+  {
+    version: 13,
+    name: "adaptive_watering",
+    // Opt-in to applying watering frequencies learned from the history
+    up: (sql) => {
+      sql.exec(
+        `ALTER TABLE care_profile ADD COLUMN auto_adjust_watering INTEGER NOT NULL DEFAULT 0`
+      );
+    }
+  },
+  {
+    version: 14,
+    name: "locations",
+    // Rooms with their own light and climate. Free-text plant locations that
+    // name the same room ("Living Room", "living room window") are grouped
+    // under the shortest name, and renamed plants keep the old text in their
+    // audit trail
+    up: (sql) => {
+      sql.exec(`
+        CREATE TABLE locations (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          light_level TEXT,
+          window_direction TEXT,
+          humidity TEXT,
+          temperature TEXT,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+      sql.exec(
+        `CREATE UNIQUE INDEX locations_by_name ON locations (name COLLATE NOCASE)`
+      );
+      sql.exec(
+        `ALTER TABLE plants ADD COLUMN location_id TEXT REFERENCES locations(id) ON DELETE SET NULL`
+      );
+      sql.exec(`CREATE INDEX plants_by_location ON plants (location_id)`);
+
+      const names = sql
+        .exec<{ location: string }>(
+          `SELECT DISTINCT location FROM plants
+           WHERE trim(location) != ''
+           ORDER BY length(trim(location)), location`
+        )
+        .toArray();
+      const locations: LocationName[] = [];
+      for (const { location: text } of names) {
+        let location = matchLocationV14(text, locations);
+        if (!location) {
+          location = { id: crypto.randomUUID(), name: text.trim() };
+          sql.exec(
+            `INSERT INTO locations (id, name) VALUES (?, ?)`,
+            location.id,
+            location.name
+          );
+          locations.push(location);
+        }
+
+        if (text !== location.name) {
+          const plants = sql
+            .exec<{
+              id: string;
+            }>(`SELECT id FROM plants WHERE location = ?`, text)
+            .toArray();
+          for (const plant of plants) {
+            sql.exec(
+              `INSERT INTO plant_changes (id, plant_id, field, old_value, new_value, changed_at)
+               VALUES (?, ?, 'location', ?, ?, ?)`,
+              crypto.randomUUID(),
+              plant.id,
+              text,
+              location.name,
+              new Date().toISOString()
+            );
+          }
+        }
+        sql.exec(
+          `UPDATE plants SET location = ?, location_id = ? WHERE location = ?`,
+          location.name,
+          location.id,
+          text
+        );
+      }
+    }
+  },
+  {
+    version: 15,
+    name: "household_members",
+    // Several people share one collection: who they are, invitations to join,
+    // who did each watering and care event, and who gets each plant's reminders.
+    // Members are only ever marked as removed so attribution survives them
+    up: (sql) => {
+      sql.exec(`
+        CREATE TABLE members (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          role TEXT NOT NULL DEFAULT 'member',
+          joined_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          removed_at TEXT
+        )
+      `);
+      sql.exec(`
+        CREATE TABLE invitations (
+          code TEXT PRIMARY KEY,
+          name TEXT,
+          invited_by TEXT REFERENCES members(id),
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          expires_at TEXT NOT NULL,
+          accepted_by TEXT REFERENCES members(id),
+          accepted_at TEXT
+        )
+      `);
+      sql.exec(
+        `ALTER TABLE watering_history ADD COLUMN member_id TEXT REFERENCES members(id)`
+      );
+      sql.exec(
+        `ALTER TABLE care_events ADD COLUMN member_id TEXT REFERENCES members(id)`
+      );
+      sql.exec(
+        `ALTER TABLE plants ADD COLUMN caretaker_id TEXT REFERENCES members(id)`
+      );
+    }
+  },
+  {
+    version: 16,
+    name: "member_accounts",
+    // Members are tied to the signed-in user they joined as, which is how the
+    // worker decides who may open the household; a user can be a current
+    // member only once, but may rejoin after being removed
+    up: (sql) => {
+      sql.exec(`ALTER TABLE members ADD COLUMN user_id TEXT`);
+      sql.exec(
+        `CREATE UNIQUE INDEX members_by_user ON members (user_id) WHERE removed_at IS NULL`
+      );
+    }
+  },
+  {
+    version: 17,
+    name: "separate_merged_rooms",
+    // The locations migration also grouped names that are other rooms
+    // ("Guest bedroom" or "Bedroom 2" under "Bedroom"). Plants it moved that
+    // way, and that have not moved since, go back to a room of their own
+    up: (sql) => {
+      const [locationsMigration] = sql
+        .exec<{
+          applied_at: string;
+        }>(`SELECT applied_at FROM schema_version WHERE version = 14`)
+        .toArray();
+      if (!locationsMigration) {
+        return;
+      }
+
+      // Its changes were recorded within the minute before it was applied
+      const moves = sql
+        .exec<{ plant_id: string; old_value: string; new_value: string }>(
+          `SELECT change.plant_id, change.old_value, change.new_value
+           FROM plant_changes change
+           JOIN plants plant ON plant.id = change.plant_id
+           WHERE change.field = 'location'
+             AND julianday(change.changed_at)
+               BETWEEN julianday(?) - 1.0 / 1440 AND julianday(?) + 1.0 / 86400
+             AND plant.location = change.new_value
+             AND NOT EXISTS (
+               SELECT 1 FROM plant_changes later
+               WHERE later.plant_id = change.plant_id
+                 AND later.field = 'location'
+                 AND later.changed_at > change.changed_at
+             )`,
+          locationsMigration.applied_at,
+          locationsMigration.applied_at
+        )
+        .toArray();
+
+      for (const move of moves) {
+        if (isSameRoomV17(move.old_value, move.new_value)) continue;
+
+        const rooms = sql
+          .exec<LocationName>(`SELECT id, name FROM locations`)
+          .toArray()
+          .filter((room) => isSameRoomV17(move.old_value, room.name));
+        const query = getRoomWordsV17(move.old_value).join(" ");
+        let room =
+          rooms.find(
+            (candidate) => getRoomWordsV17(candidate.name).join(" ") === query
+          ) ?? rooms[0];
+        if (!room) {
+          room = { id: crypto.randomUUID(), name: move.old_value.trim() };
+          sql.exec(
+            `INSERT INTO locations (id, name) VALUES (?, ?)`,
+            room.id,
+            room.name
+          );
+        }
+
+        sql.exec(
+          `UPDATE plants SET location = ?, location_id = ? WHERE id = ?`,
+          room.name,
+          room.id,
+          move.plant_id
+        );
+        sql.exec(
+          `INSERT INTO plant_changes (id, plant_id, field, old_value, new_value, changed_at)
+           VALUES (?, ?, 'location', ?, ?, ?)`,
+          crypto.randomUUID(),
+          move.plant_id,
+          move.new_value,
+          room.name,
+          new Date().toISOString()
+        );
+      }
+    }
+  }
+];
+
+/**
+ * Get the current schema version (0 for a database that has never been migrated)
+ */
+export function getSchemaVersion(sql: SqlStorage): number {
+  sql.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  const row = sql
+    .exec<{
+      version: number | null;
+    }>(`SELECT MAX(version) AS version FROM schema_version`)
+    .one();
+  return row.version ?? 0;
+}
+
+/**
+ * Apply every pending migration in order and return the resulting version.
+ * A failing migration rolls back on its own and stops the run, leaving
+ * the database at the last version that applied cleanly.
+ */
+export function runMigrations(
+  storage: DurableObjectStorage,
+  pending: Migration[] = migrations
+): number {
+  for (let i = 1; i < pending.length; i++) {
+    if (pending[i].version <= pending[i - 1].version) {
+      throw new Error(
+        `Migrations must be in ascending version order: ${pending[i - 1].version} is followed by ${pending[i].version}`
+      );
+    }
+  }
+
+  const sql = storage.sql;
+  let current = getSchemaVersion(sql);
+
+  for (const migration of pending) {
+    if (migration.version <= current) continue;
+
+    try {
+      storage.transactionSync(() => {
+        migration.up(sql);
+        sql.exec(
+          `INSERT INTO schema_version (version, name) VALUES (?, ?)`,
+          migration.version,
+          migration.name
+        );
+      });
+    } catch (error) {
+      throw new Error(
+        `Migration ${migration.version} (${migration.name}) failed: ${error}`
+      );
+    }
+    current = migration.version;
+  }
+
+  return current;
+}
@@ -0,0 +1,1247 @@
+/**
+ * Typed data access for the PlantCare SQLite tables
+ * Rows are read in snake_case and mapped to the camelCase domain types in shared.ts
+ */
+import {
+  DAY_MS,
+  parseTimestamp,
+  type CareEvent,
+  type CareEventKind,
+  type CareFrequency,
+  type CareNeed,
+  type CarePlan,
+  type CarePlanStatus,
+  type CarePlanStep,
+  type EditablePlantField,
+  type CareProfile,
+  type Hemisphere,
+  type IndoorHumidity,
+  type IndoorTemperature,
+  type HealthIssue,
+  type HouseholdMember,
+  type Invitation,
+  type LightLevel,
+  type MemberRole,
+  type Plant,
+  type PlantChange,
+  type PlantLocation,
+  type PlantDiagnosis,
+  type PlantPhoto,
+  type TreatmentStep,
+  type WateringEvent,
+  type WindowDirection
+} from "../shared";
+import {
+  DEFAULT_WATER_FREQUENCY_DAYS,
+  careEventSchema,
+  careProfileSchema,
+  type CareEventInput,
+  type CareProfileUpdate,
+  healthIssueSchema,
+  locationDetailsSchema,
+  locationUpdateSchema,
+  plantDetailsSchema,
+  plantUpdateSchema,
+  wateringSchema,
+  type HealthIssueInput,
+  type InvitationInput,
+  type LocationDetails,
+  type LocationUpdate,
+  type PlantDetails,
+  type PlantUpdate,
+  type WateringInput
+} from "../schemas";
+
+type PlantRow = {
+  id: string;
+  name: string;
+  type: string;
+  species_id: string | null;
+  location: string | null;
+  location_id: string | null;
+  light_requirement: string | null;
+  water_frequency_days: number | null;
+  pot_size_cm: number | null;
+  light_level: LightLevel | null;
+  last_watered: string | null;
+  notes: string | null;
+  caretaker_id: string | null;
+  created_at: string;
+  archived_at: string | null;
+};
+
+type WateringRow = {
+  id: string;
+  plant_id: string;
+  watered_at: string;
+  notes: string | null;
+  member_id: string | null;
+};
+
+type HealthIssueRow = {
+  id: string;
+  plant_id: string;
+  issue_description: string;
+  diagnosis: string | null;
+  resolved: number;
+  created_at: string;
+  diagnosed_at: string | null;
+  resolved_at: string | null;
+  resolution: string | null;
+  diagnosis_details: string | null;
+};
+
+type TreatmentStepRow = {
+  id: string;
+  issue_id: string;
+  description: string;
+  position: number;
+  completed_at: string | null;
+  created_at: string;
+};
+
+type PlantChangeRow = {
+  id: string;
+  plant_id: string;
+  field: EditablePlantField;
+  old_value: string | null;
+  new_value: string | null;
+  changed_at: string;
+};
+
+const PLANT_COLUMNS: Record<EditablePlantField, string> = {
+  name: "name",
+  type: "type",
+  location: "location",
+  lightRequirement: "light_requirement",
+  waterFrequencyDays: "water_frequency_days",
+  potSizeCm: "pot_size_cm",
+  lightLevel: "light_level",
+  notes: "notes",
+  caretakerId: "caretaker_id"
+};
+
+type PlantPhotoRow = {
+  id: string;
+  plant_id: string | null;
+  issue_id: string | null;
+  storage_key: string;
+  content_type: string;
+  size: number;
+  caption: string | null;
+  observations: string | null;
+  uploaded_at: string;
+};
+
+type CareEventRow = {
+  id: string;
+  plant_id: string;
+  kind: CareEventKind;
+  performed_at: string;
+  notes: string | null;
+  member_id: string | null;
+};
+
+type CareFrequencyRow = {
+  plant_id: string;
+  kind: CareEventKind;
+  frequency_days: number;
+  set_at: string;
+};
+
+type CarePlanRow = {
+  id: string;
+  plant_id: string;
+  name: string;
+  steps: string;
+  completed_steps: number;
+  status: CarePlanStatus;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+type CareProfileRow = {
+  hemisphere: Hemisphere | null;
+  location: string | null;
+  indoor_temperature: IndoorTemperature | null;
+  indoor_humidity: IndoorHumidity | null;
+  auto_adjust_watering: number;
+  updated_at: string;
+};
+
+const CARE_PROFILE_COLUMNS: Record<
+  keyof CareProfileUpdate,
+  keyof CareProfileRow
+> = {
+  hemisphere: "hemisphere",
+  location: "location",
+  indoorTemperature: "indoor_temperature",
+  indoorHumidity: "indoor_humidity",
+  autoAdjustWatering: "auto_adjust_watering"
+};
+
+type LocationRow = {
+  id: string;
+  name: string;
+  light_level: LightLevel | null;
+  window_direction: WindowDirection | null;
+  humidity: IndoorHumidity | null;
+  temperature: IndoorTemperature | null;
+  created_at: string;
+};
+
+const LOCATION_COLUMNS: Record<keyof LocationUpdate, keyof LocationRow> = {
+  name: "name",
+  lightLevel: "light_level",
+  windowDirection: "window_direction",
+  humidity: "humidity",
+  temperature: "temperature"
+};
+
+type MemberRow = {
+  id: string;
+  name: string;
+  role: MemberRole;
+  joined_at: string;
+  removed_at: string | null;
+  user_id: string | null;
+};
+
+type InvitationRow = {
+  code: string;
+  name: string | null;
+  invited_by: string | null;
+  created_at: string;
+  expires_at: string;
+  accepted_by: string | null;
+  accepted_at: string | null;
+};
+
+export function toPlant(row: PlantRow): Plant {
+  return {
+    id: row.id,
+    name: row.name,
+    type: row.type,
+    speciesId: row.species_id,
+    location: row.location,
+    locationId: row.location_id,
+    lightRequirement: row.light_requirement,
+    waterFrequencyDays:
+      row.water_frequency_days ?? DEFAULT_WATER_FREQUENCY_DAYS,
+    potSizeCm: row.pot_size_cm,
+    lightLevel: row.light_level,
+    lastWatered: row.last_watered,
+    notes: row.notes,
+    caretakerId: row.caretaker_id,
+    createdAt: row.created_at,
+    archivedAt: row.archived_at
+  };
+}
+
+export function toLocation(row: LocationRow): PlantLocation {
+  return {
+    id: row.id,
+    name: row.name,
+    lightLevel: row.light_level,
+    windowDirection: row.window_direction,
+    humidity: row.humidity,
+    temperature: row.temperature,
+    createdAt: row.created_at
+  };
+}
+
+export function toWateringEvent(row: WateringRow): WateringEvent {
+  return {
+    id: row.id,
+    plantId: row.plant_id,
+    wateredAt: row.watered_at,
+    notes: row.notes,
+    memberId: row.member_id
+  };
+}
+
+export function toMember(row: MemberRow): HouseholdMember {
+  return {
+    id: row.id,
+    name: row.name,
+    role: row.role,
+    joinedAt: row.joined_at
+  };
+}
+
+export function toInvitation(row: InvitationRow): Invitation {
+  return {
+    code: row.code,
+    name: row.name,
+    invitedBy: row.invited_by,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+    acceptedBy: row.accepted_by,
+    acceptedAt: row.accepted_at
+  };
+}
+
+export function toHealthIssue(row: HealthIssueRow): HealthIssue {
+  return {
+    id: row.id,
+    plantId: row.plant_id,
+    issueDescription: row.issue_description,
+    diagnosis: row.diagnosis,
+    resolved: row.resolved === 1,
+    createdAt: row.created_at,
+    diagnosedAt: row.diagnosed_at,
+    resolvedAt: row.resolved_at,
+    resolution: row.resolution,
+    diagnosisDetails: row.diagnosis_details
+      ? (JSON.parse(row.diagnosis_details) as PlantDiagnosis)
+      : null
+  };
+}
+
+export function toTreatmentStep(row: TreatmentStepRow): TreatmentStep {
+  return {
+    id: row.id,
+    issueId: row.issue_id,
+    description: row.description,
+    position: row.position,
+    completedAt: row.completed_at,
+    createdAt: row.created_at
+  };
+}
+
+export function toPlantChange(row: PlantChangeRow): PlantChange {
+  return {
+    id: row.id,
+    plantId: row.plant_id,
+    field: row.field,
+    oldValue: row.old_value,
+    newValue: row.new_value,
+    changedAt: row.changed_at
+  };
+}
+
+export function toPlantPhoto(row: PlantPhotoRow): PlantPhoto {
+  return {
+    id: row.id,
+    plantId: row.plant_id,
+    issueId: row.issue_id,
+    storageKey: row.storage_key,
+    contentType: row.content_type,
+    size: row.size,
+    caption: row.caption,
+    observations: row.observations,
+    uploadedAt: row.uploaded_at
+  };
+}
+
+export function toCareEvent(row: CareEventRow): CareEvent {
+  return {
+    id: row.id,
+    plantId: row.plant_id,
+    kind: row.kind,
+    performedAt: row.performed_at,
+    notes: row.notes,
+    memberId: row.member_id
+  };
+}
+
+export function toCareFrequency(row: CareFrequencyRow): CareFrequency {
+  return {
+    plantId: row.plant_id,
+    kind: row.kind,
+    frequencyDays: row.frequency_days,
+    setAt: row.set_at
+  };
+}
+
+export function toCarePlan(row: CarePlanRow): CarePlan {
+  return {
+    id: row.id,
+    plantId: row.plant_id,
+    name: row.name,
+    steps: JSON.parse(row.steps) as CarePlanStep[],
+    completedSteps: row.completed_steps,
+    status: row.status,
+    error: row.error,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+export class PlantRepository {
+  constructor(private sql: SqlStorage) {}
+
+  /**
+   * Active plants, or archived plants when `archived` is set, newest first
+   */
+  listPlants({ archived = false } = {}): Plant[] {
+    const query = archived
+      ? `SELECT * FROM plants WHERE archived_at IS NOT NULL ORDER BY archived_at DESC`
+      : `SELECT * FROM plants WHERE archived_at IS NULL ORDER BY created_at DESC`;
+
+    return this.sql.exec<PlantRow>(query).toArray().map(toPlant);
+  }
+
+  findPlant(plantId: string, { includeArchived = false } = {}): Plant | null {
+    const query = includeArchived
+      ? `SELECT * FROM plants WHERE id = ?`
+      : `SELECT * FROM plants WHERE id = ? AND archived_at IS NULL`;
+
+    const [row] = this.sql.exec<PlantRow>(query, plantId).toArray();
+    return row ? toPlant(row) : null;
+  }
+
+  insertPlant(
+    id: string,
+    details: PlantDetails,
+    speciesId: string | null = null
+  ): Plant {
+    const plant = plantDetailsSchema.parse(details);
+    this.sql.exec(
+      `INSERT INTO plants (id, name, type, species_id, location, light_requirement, water_frequency_days, pot_size_cm, light_level, notes)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      id,
+      plant.name,
+      plant.type,
+      speciesId,
+      plant.location || null,
+      plant.lightRequirement || null,
+      plant.waterFrequencyDays || DEFAULT_WATER_FREQUENCY_DAYS,
+      plant.potSizeCm ?? null,
+      plant.lightLevel ?? null,
+      plant.notes || null
+    );
+    this.linkLocation(id);
+    return this.findPlant(id)!;
+  }
+
+  /**
+   * Apply a partial edit to an active plant and record each field that actually
+   * changed in the audit trail. Returns the recorded changes.
+   */
+  updatePlant(
+    plantId: string,
+    update: PlantUpdate,
+    changedAt: string
+  ): PlantChange[] {
+    const plant = this.findPlant(plantId);
+    if (!plant) {
+      return [];
+    }
+
+    const changes = plantUpdateSchema.parse(update);
+    const recorded: PlantChange[] = [];
+    const fields = Object.keys(PLANT_COLUMNS) as EditablePlantField[];
+    for (const field of fields) {
+      const value = changes[field];
+      if (value === undefined) continue;
+
+      // Empty strings clear optional details, like null
+      const next = value === "" ? null : value;
+      if (next === plant[field]) continue;
+
+      this.sql.exec(
+        `UPDATE plants SET ${PLANT_COLUMNS[field]} = ? WHERE id = ?`,
+        next,
+        plantId
+      );
+      recorded.push(
+        this.insertPlantChange({
+          id: crypto.randomUUID(),
+          plantId,
+          field,
+          oldValue: plant[field] === null ? null : String(plant[field]),
+          newValue: next === null ? null : String(next),
+          changedAt
+        })
+      );
+    }
+
+    if (recorded.some((change) => change.field === "location")) {
+      this.linkLocation(plantId);
+    }
+    return recorded;
+  }
+
+  private insertPlantChange(change: PlantChange): PlantChange {
+    this.sql.exec(
+      `INSERT INTO plant_changes (id, plant_id, field, old_value, new_value, changed_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      change.id,
+      change.plantId,
+      change.field,
+      change.oldValue,
+      change.newValue,
+      change.changedAt
+    );
+    return change;
+  }
+
+  /**
+   * Point a plant at the location its location name refers to, or at none.
+   * Callers create the location first.
+   */
+  private linkLocation(plantId: string) {
+    this.sql.exec(
+      `UPDATE plants SET location_id =
+         (SELECT id FROM locations WHERE name = plants.location COLLATE NOCASE)
+       WHERE id = ?`,
+      plantId
+    );
+  }
+
+  setPlantSpecies(plantId: string, speciesId: string | null) {
+    this.sql.exec(
+      `UPDATE plants SET species_id = ? WHERE id = ?`,
+      speciesId,
+      plantId
+    );
+  }
+
+  /**
+   * Audit trail of edits to a plant, newest first
+   */
+  listPlantChanges(plantId: string, limit = 50): PlantChange[] {
+    return this.sql
+      .exec<PlantChangeRow>(
+        `SELECT * FROM plant_changes WHERE plant_id = ?
+         ORDER BY changed_at DESC, rowid DESC LIMIT ?`,
+        plantId,
+        limit
+      )
+      .toArray()
+      .map(toPlantChange);
+  }
+
+  setArchivedAt(plantId: string, archivedAt: string | null) {
+    this.sql.exec(
+      `UPDATE plants SET archived_at = ? WHERE id = ?`,
+      archivedAt,
+      plantId
+    );
+  }
+
+  /**
+   * ID of the agent schedule holding the plant's next watering reminder
+   */
+  getReminderScheduleId(plantId: string): string | null {
+    const [row] = this.sql
+      .exec<{
+        reminder_schedule_id: string | null;
+      }>(`SELECT reminder_schedule_id FROM plants WHERE id = ?`, plantId)
+      .toArray();
+    return row?.reminder_schedule_id ?? null;
+  }
+
+  setReminderScheduleId(plantId: string, scheduleId: string | null) {
+    this.sql.exec(
+      `UPDATE plants SET reminder_schedule_id = ? WHERE id = ?`,
+      scheduleId,
+      plantId
+    );
+  }
+
+  /**
+   * Delete a plant for good; foreign keys cascade to its history
+   */
+  deletePlant(plantId: string) {
+    this.sql.exec(`DELETE FROM plants WHERE id = ?`, plantId);
+  }
+
+  /**
+   * Log a watering, by a household member when known, and move the plant's
+   * last_watered forward
+   */
+  insertWatering(
+    id: string,
+    input: WateringInput,
+    wateredAt: string,
+    memberId: string | null = null
+  ) {
+    const { plantId, notes } = wateringSchema.parse(input);
+    this.sql.exec(
+      `INSERT INTO watering_history (id, plant_id, watered_at, notes, member_id)
+       VALUES (?, ?, ?, ?, ?)`,
+      id,
+      plantId,
+      wateredAt,
+      notes || null,
+      memberId
+    );
+    this.sql.exec(
+      `UPDATE plants SET last_watered = ? WHERE id = ?`,
+      wateredAt,
+      plantId
+    );
+  }
+
+  listWateringHistory(plantId: string, limit: number): WateringEvent[] {
+    return this.sql
+      .exec<WateringRow>(
+        `SELECT * FROM watering_history
+         WHERE plant_id = ?
+         ORDER BY watered_at DESC
+         LIMIT ?`,
+        plantId,
+        limit
+      )
+      .toArray()
+      .map(toWateringEvent);
+  }
+
+  insertHealthIssue(id: string, input: HealthIssueInput) {
+    const issue = healthIssueSchema.parse(input);
+    this.sql.exec(
+      `INSERT INTO health_issues (id, plant_id, issue_description, diagnosis, diagnosed_at)
+       VALUES (?, ?, ?, ?, CASE WHEN ?4 IS NULL THEN NULL ELSE CURRENT_TIMESTAMP END)`,
+      id,
+      issue.plantId,
+      issue.issueDescription,
+      issue.diagnosis || null
+    );
+  }
+
+  findHealthIssue(issueId: string): HealthIssue | null {
+    const [row] = this.sql
+      .exec<HealthIssueRow>(`SELECT * FROM health_issues WHERE id = ?`, issueId)
+      .toArray();
+    return row ? toHealthIssue(row) : null;
+  }
+
+  /**
+   * Store a diagnosis; `details` holds the structured diagnosis when it came from the model
+   */
+  setDiagnosis(
+    issueId: string,
+    diagnosis: string,
+    diagnosedAt: string,
+    details: PlantDiagnosis | null = null
+  ) {
+    this.sql.exec(
+      `UPDATE health_issues SET diagnosis = ?, diagnosed_at = ?, diagnosis_details = ? WHERE id = ?`,
+      diagnosis,
+      diagnosedAt,
+      details ? JSON.stringify(details) : null,
+      issueId
+    );
+  }
+
+  resolveHealthIssue(
+    issueId: string,
+    resolution: string | null,
+    resolvedAt: string
+  ) {
+    this.sql.exec(
+      `UPDATE health_issues SET resolved = 1, resolved_at = ?, resolution = ? WHERE id = ?`,
+      resolvedAt,
+      resolution,
+      issueId
+    );
+  }
+
+  /**
+   * Append treatment steps to a health issue, after any it already has
+   */
+  insertTreatmentSteps(
+    issueId: string,
+    steps: { id: string; description: string }[]
+  ) {
+    const { last } = this.sql
+      .exec<{
+        last: number | null;
+      }>(
+        `SELECT MAX(position) AS last FROM treatment_steps WHERE issue_id = ?`,
+        issueId
+      )
+      .one();
+    steps.forEach((step, index) => {
+      this.sql.exec(
+        `INSERT INTO treatment_steps (id, issue_id, description, position)
+         VALUES (?, ?, ?, ?)`,
+        step.id,
+        issueId,
+        step.description,
+        (last ?? 0) + index + 1
+      );
+    });
+  }
+
+  listTreatmentSteps(issueId: string): TreatmentStep[] {
+    return this.sql
+      .exec<TreatmentStepRow>(
+        `SELECT * FROM treatment_steps WHERE issue_id = ? ORDER BY position`,
+        issueId
+      )
+      .toArray()
+      .map(toTreatmentStep);
+  }
+
+  findTreatmentStep(stepId: string): TreatmentStep | null {
+    const [row] = this.sql
+      .exec<TreatmentStepRow>(
+        `SELECT * FROM treatment_steps WHERE id = ?`,
+        stepId
+      )
+      .toArray();
+    return row ? toTreatmentStep(row) : null;
+  }
+
+  setTreatmentStepCompletedAt(stepId: string, completedAt: string | null) {
+    this.sql.exec(
+      `UPDATE treatment_steps SET completed_at = ? WHERE id = ?`,
+      completedAt,
+      stepId
+    );
+  }
+
+  listHealthIssues(plantId: string, { includeResolved = false } = {}) {
+    const query = includeResolved
+      ? `SELECT * FROM health_issues WHERE plant_id = ? ORDER BY created_at DESC`
+      : `SELECT * FROM health_issues WHERE plant_id = ? AND resolved = 0 ORDER BY created_at DESC`;
+
+    return this.sql
+      .exec<HealthIssueRow>(query, plantId)
+      .toArray()
+      .map(toHealthIssue);
+  }
+
+  insertPhoto(
+    photo: Pick<
+      PlantPhoto,
+      | "id"
+      | "plantId"
+      | "issueId"
+      | "storageKey"
+      | "contentType"
+      | "size"
+      | "caption"
+    >
+  ): PlantPhoto {
+    this.sql.exec(
+      `INSERT INTO plant_photos (id, plant_id, issue_id, storage_key, content_type, size, caption)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      photo.id,
+      photo.plantId,
+      photo.issueId,
+      photo.storageKey,
+      photo.contentType,
+      photo.size,
+      photo.caption
+    );
+    return this.findPhoto(photo.id)!;
+  }
+
+  findPhoto(photoId: string): PlantPhoto | null {
+    const [row] = this.sql
+      .exec<PlantPhotoRow>(`SELECT * FROM plant_photos WHERE id = ?`, photoId)
+      .toArray();
+    return row ? toPlantPhoto(row) : null;
+  }
+
+  /**
+   * Photos of a plant, or of one of its health issues, oldest first
+   */
+  listPhotos({
+    plantId,
+    issueId
+  }: {
+    plantId?: string;
+    issueId?: string;
+  }): PlantPhoto[] {
+    const rows = issueId
+      ? this.sql.exec<PlantPhotoRow>(
+          `SELECT * FROM plant_photos WHERE issue_id = ? ORDER BY uploaded_at, rowid`,
+          issueId
+        )
+      : this.sql.exec<PlantPhotoRow>(
+          `SELECT * FROM plant_photos WHERE plant_id = ? ORDER BY uploaded_at, rowid`,
+          plantId ?? null
+        );
+    return rows.toArray().map(toPlantPhoto);
+  }
+
+  linkPhoto(photoId: string, plantId: string, issueId: string | null) {
+    this.sql.exec(
+      `UPDATE plant_photos SET plant_id = ?, issue_id = COALESCE(?, issue_id) WHERE id = ?`,
+      plantId,
+      issueId,
+      photoId
+    );
+  }
+
+  deletePhoto(photoId: string) {
+    this.sql.exec(`DELETE FROM plant_photos WHERE id = ?`, photoId);
+  }
+
+  setPhotoObservations(photoId: string, observations: string) {
+    this.sql.exec(
+      `UPDATE plant_photos SET observations = ? WHERE id = ?`,
+      observations,
+      photoId
+    );
+  }
+
+  insertCareEvent(
+    id: string,
+    input: CareEventInput,
+    performedAt: string,
+    memberId: string | null = null
+  ) {
+    const { plantId, kind, notes } = careEventSchema.parse(input);
+    this.sql.exec(
+      `INSERT INTO care_events (id, plant_id, kind, performed_at, notes, member_id)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      id,
+      plantId,
+      kind,
+      performedAt,
+      notes || null,
+      memberId
+    );
+  }
+
+  /**
+   * Care events for a plant, optionally of one kind, newest first
+   */
+  listCareEvents(
+    plantId: string,
+    { kind, limit = 10 }: { kind?: CareEventKind; limit?: number } = {}
+  ): CareEvent[] {
+    const rows = kind
+      ? this.sql.exec<CareEventRow>(
+          `SELECT * FROM care_events WHERE plant_id = ? AND kind = ?
+           ORDER BY performed_at DESC LIMIT ?`,
+          plantId,
+          kind,
+          limit
+        )
+      : this.sql.exec<CareEventRow>(
+          `SELECT * FROM care_events WHERE plant_id = ?
+           ORDER BY performed_at DESC LIMIT ?`,
+          plantId,
+          limit
+        );
+    return rows.toArray().map(toCareEvent);
+  }
+
+  listCareFrequencies(plantId: string): CareFrequency[] {
+    return this.sql
+      .exec<CareFrequencyRow>(
+        `SELECT * FROM care_schedules WHERE plant_id = ? ORDER BY kind`,
+        plantId
+      )
+      .toArray()
+      .map(toCareFrequency);
+  }
+
+  /**
+   * Set how often a plant needs one kind of care, or stop tracking it with null
+   */
+  setCareFrequency(
+    plantId: string,
+    kind: CareEventKind,
+    frequencyDays: number | null
+  ) {
+    if (frequencyDays === null) {
+      this.sql.exec(
+        `DELETE FROM care_schedules WHERE plant_id = ? AND kind = ?`,
+        plantId,
+        kind
+      );
+      return;
+    }
+    this.sql.exec(
+      `INSERT INTO care_schedules (plant_id, kind, frequency_days) VALUES (?, ?, ?)
+       ON CONFLICT (plant_id, kind) DO UPDATE SET frequency_days = excluded.frequency_days`,
+      plantId,
+      kind,
+      frequencyDays
+    );
+  }
+
+  /**
+   * Active plants past the frequency set for a kind of care (or any kind),
+   * counting from the last time it was done or from when the frequency was set
+   */
+  listPlantsNeedingCare(kind?: CareEventKind, now = new Date()): CareNeed[] {
+    const rows = this.sql
+      .exec<
+        PlantRow & {
+          care_kind: CareEventKind;
+          frequency_days_for_kind: number;
+          set_at: string;
+          last_performed_at: string | null;
+        }
+      >(
+        `SELECT p.*, s.kind AS care_kind, s.frequency_days AS frequency_days_for_kind,
+                s.set_at, MAX(e.performed_at) AS last_performed_at
+         FROM care_schedules s
+         JOIN plants p ON p.id = s.plant_id
+         LEFT JOIN care_events e ON e.plant_id = s.plant_id AND e.kind = s.kind
+         WHERE p.archived_at IS NULL AND (? IS NULL OR s.kind = ?)
+         GROUP BY s.plant_id, s.kind`,
+        kind ?? null,
+        kind ?? null
+      )
+      .toArray();
+
+    return rows
+      .map((row) => {
+        const from = parseTimestamp(row.last_performed_at ?? row.set_at);
+        const dueAt = new Date(
+          from.getTime() + row.frequency_days_for_kind * DAY_MS
+        );
+        return {
+          plant: toPlant(row),
+          kind: row.care_kind,
+          frequencyDays: row.frequency_days_for_kind,
+          lastPerformedAt: row.last_performed_at,
+          dueAt: dueAt.toISOString()
+        };
+      })
+      .filter((need) => new Date(need.dueAt) <= now)
+      .sort((a, b) => a.dueAt.localeCompare(b.dueAt));
+  }
+
+  insertCarePlan(
+    id: string,
+    plantId: string,
+    name: string,
+    steps: CarePlanStep[]
+  ): CarePlan {
+    this.sql.exec(
+      `INSERT INTO care_plans (id, plant_id, name, steps) VALUES (?, ?, ?, ?)`,
+      id,
+      plantId,
+      name,
+      JSON.stringify(steps)
+    );
+    return this.findCarePlan(id)!;
+  }
+
+  findCarePlan(planId: string): CarePlan | null {
+    const [row] = this.sql
+      .exec<CarePlanRow>(`SELECT * FROM care_plans WHERE id = ?`, planId)
+      .toArray();
+    return row ? toCarePlan(row) : null;
+  }
+
+  /**
+   * Care plans, optionally only those for one plant, newest first
+   */
+  listCarePlans(plantId?: string): CarePlan[] {
+    const rows = plantId
+      ? this.sql.exec<CarePlanRow>(
+          `SELECT * FROM care_plans WHERE plant_id = ? ORDER BY created_at DESC`,
+          plantId
+        )
+      : this.sql.exec<CarePlanRow>(
+          `SELECT * FROM care_plans ORDER BY created_at DESC`
+        );
+    return rows.toArray().map(toCarePlan);
+  }
+
+  setCarePlanProgress(planId: string, completedSteps: number) {
+    this.sql.exec(
+      `UPDATE care_plans SET completed_steps = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+      completedSteps,
+      planId
+    );
+  }
+
+  setCarePlanStatus(
+    planId: string,
+    status: CarePlanStatus,
+    error: string | null = null
+  ) {
+    this.sql.exec(
+      `UPDATE care_plans SET status = ?, error = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+      status,
+      error,
+      planId
+    );
+  }
+
+  /**
+   * Mark a plant's running care plans as cancelled; their workflows stop at the next step
+   */
+  cancelCarePlans(plantId: string) {
+    this.sql.exec(
+      `UPDATE care_plans SET status = 'cancelled', updated_at = CURRENT_TIMESTAMP
+       WHERE plant_id = ? AND status = 'running'`,
+      plantId
+    );
+  }
+
+  /**
+   * Every location, by name
+   */
+  listLocations(): PlantLocation[] {
+    return this.sql
+      .exec<LocationRow>(`SELECT * FROM locations ORDER BY name COLLATE NOCASE`)
+      .toArray()
+      .map(toLocation);
+  }
+
+  findLocation(locationId: string): PlantLocation | null {
+    const [row] = this.sql
+      .exec<LocationRow>(`SELECT * FROM locations WHERE id = ?`, locationId)
+      .toArray();
+    return row ? toLocation(row) : null;
+  }
+
+  insertLocation(id: string, details: LocationDetails): PlantLocation {
+    const location = locationDetailsSchema.parse(details);
+    this.sql.exec(
+      `INSERT INTO locations (id, name, light_level, window_direction, humidity, temperature)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      id,
+      location.name,
+      location.lightLevel ?? null,
+      location.windowDirection ?? null,
+      location.humidity ?? null,
+      location.temperature ?? null
+    );
+    return this.findLocation(id)!;
+  }
+
+  /**
+   * Set some attributes of a location; a new name is copied to the plants in
+   * it, and kept in their change history
+   */
+  updateLocation(
+    locationId: string,
+    update: LocationUpdate,
+    changedAt: string
+  ): PlantLocation | null {
+    if (!this.findLocation(locationId)) {
+      return null;
+    }
+
+    const changes = locationUpdateSchema.parse(update);
+    for (const [field, column] of Object.entries(LOCATION_COLUMNS)) {
+      const value = changes[field as keyof LocationUpdate];
+      if (value === undefined) continue;
+      this.sql.exec(
+        `UPDATE locations SET ${column} = ? WHERE id = ?`,
+        value,
+        locationId
+      );
+    }
+    if (changes.name !== undefined) {
+      const plants = this.sql
+        .exec<{
+          id: string;
+          location: string | null;
+        }>(`SELECT id, location FROM plants WHERE location_id = ?`, locationId)
+        .toArray();
+      for (const plant of plants) {
+        if (plant.location === changes.name) continue;
+        this.sql.exec(
+          `UPDATE plants SET location = ? WHERE id = ?`,
+          changes.name,
+          plant.id
+        );
+        this.insertPlantChange({
+          id: crypto.randomUUID(),
+          plantId: plant.id,
+          field: "location",
+          oldValue: plant.location,
+          newValue: changes.name,
+          changedAt
+        });
+      }
+    }
+    return this.findLocation(locationId);
+  }
+
+  /**
+   * Delete a location; the plants in it are left without one
+   */
+  deleteLocation(locationId: string) {
+    this.sql.exec(
+      `UPDATE plants SET location = NULL, location_id = NULL WHERE location_id = ?`,
+      locationId
+    );
+    this.sql.exec(`DELETE FROM locations WHERE id = ?`, locationId);
+  }
+
+  /**
+   * Current household members, in the order they joined
+   */
+  listMembers(): HouseholdMember[] {
+    return this.sql
+      .exec<MemberRow>(
+        `SELECT * FROM members WHERE removed_at IS NULL ORDER BY joined_at, rowid`
+      )
+      .toArray()
+      .map(toMember);
+  }
+
+  findMember(memberId: string): HouseholdMember | null {
+    const [row] = this.sql
+      .exec<MemberRow>(
+        `SELECT * FROM members WHERE id = ? AND removed_at IS NULL`,
+        memberId
+      )
+      .toArray();
+    return row ? toMember(row) : null;
+  }
+
+  /**
+   * The current member who joined as a signed-in user
+   */
+  findMemberByUser(userId: string): HouseholdMember | null {
+    const [row] = this.sql
+      .exec<MemberRow>(
+        `SELECT * FROM members WHERE user_id = ? AND removed_at IS NULL`,
+        userId
+      )
+      .toArray();
+    return row ? toMember(row) : null;
+  }
+
+  /**
+   * Whether anyone ever joined as a signed-in user, current member or not
+   */
+  hasSignedInMembers(): boolean {
+    return (
+      this.sql
+        .exec(`SELECT 1 FROM members WHERE user_id IS NOT NULL LIMIT 1`)
+        .toArray().length > 0
+    );
+  }
+
+  /**
+   * Whether any plant was ever added, including removed ones
+   */
+  hasPlants(): boolean {
+    return this.sql.exec(`SELECT 1 FROM plants LIMIT 1`).toArray().length > 0;
+  }
+
+  /**
+   * Make every owner an ordinary member, before someone else takes over
+   */
+  demoteOwners() {
+    this.sql.exec(`UPDATE members SET role = 'member' WHERE role = 'owner'`);
+  }
+
+  insertMember(
+    id: string,
+    name: string,
+    role: MemberRole,
+    userId: string | null = null
+  ): HouseholdMember {
+    this.sql.exec(
+      `INSERT INTO members (id, name, role, user_id) VALUES (?, ?, ?, ?)`,
+      id,
+      name,
+      role,
+      userId
+    );
+    return this.findMember(id)!;
+  }
+
+  /**
+   * Mark a member as removed, keeping who did what in the history, and hand
+   * the plants they looked after back to everyone
+   */
+  removeMember(memberId: string, removedAt: string) {
+    this.sql.exec(
+      `UPDATE plants SET caretaker_id = NULL WHERE caretaker_id = ?`,
+      memberId
+    );
+    this.sql.exec(
+      `UPDATE members SET removed_at = ? WHERE id = ?`,
+      removedAt,
+      memberId
+    );
+  }
+
+  insertInvitation(
+    code: string,
+    { name }: InvitationInput,
+    invitedBy: string | null,
+    expiresAt: string
+  ): Invitation {
+    this.sql.exec(
+      `INSERT INTO invitations (code, name, invited_by, expires_at)
+       VALUES (?, ?, ?, ?)`,
+      code,
+      name ?? null,
+      invitedBy,
+      expiresAt
+    );
+    return this.findInvitation(code)!;
+  }
+
+  findInvitation(code: string): Invitation | null {
+    const [row] = this.sql
+      .exec<InvitationRow>(`SELECT * FROM invitations WHERE code = ?`, code)
+      .toArray();
+    return row ? toInvitation(row) : null;
+  }
+
+  /**
+   * Invitations that are neither accepted nor expired, newest first
+   */
+  listOpenInvitations(now: string): Invitation[] {
+    return this.sql
+      .exec<InvitationRow>(
+        `SELECT * FROM invitations
+         WHERE accepted_by IS NULL AND expires_at > ?
+         ORDER BY created_at DESC`,
+        now
+      )
+      .toArray()
+      .map(toInvitation);
+  }
+
+  acceptInvitation(code: string, memberId: string, acceptedAt: string) {
+    this.sql.exec(
+      `UPDATE invitations SET accepted_by = ?, accepted_at = ? WHERE code = ?`,
+      memberId,
+      acceptedAt,
+      code
+    );
+  }
+
+  deleteInvitation(code: string) {
+    this.sql.exec(`DELETE FROM invitations WHERE code = ?`, code);
+  }
+
+  /**
+   * The user's care profile; every field is null (or off) until it is set
+   */
+  getCareProfile(): CareProfile {
+    const [row] = this.sql
+      .exec<CareProfileRow>(`SELECT * FROM care_profile WHERE id = 1`)
+      .toArray();
+    return {
+      hemisphere: row?.hemisphere ?? null,
+      location: row?.location ?? null,
+      indoorTemperature: row?.indoor_temperature ?? null,
+      indoorHumidity: row?.indoor_humidity ?? null,
+      autoAdjustWatering: Boolean(row?.auto_adjust_watering),
+      updatedAt: row?.updated_at ?? null
+    };
+  }
+
+  /**
+   * Set some fields of the care profile, leaving the others as they are
+   */
+  updateCareProfile(update: CareProfileUpdate): CareProfile {
+    const changes = careProfileSchema.parse(update);
+    this.sql.exec(`INSERT OR IGNORE INTO care_profile (id) VALUES (1)`);
+    for (const [field, column] of Object.entries(CARE_PROFILE_COLUMNS)) {
+      const value = changes[field as keyof CareProfileUpdate];
+      if (value === undefined) continue;
+      this.sql.exec(
+        `UPDATE care_profile SET ${column} = ?, updated_at = CURRENT_TIMESTAMP WHERE id = 1`,
+        typeof value === "boolean" ? Number(value) : value
+      );
+    }
+    return this.getCareProfile();
+  }
+}
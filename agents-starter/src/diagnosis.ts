@@ -0,0 +1,97 @@
+/**
+ * Structured plant diagnosis via Workers AI
+ * The model gets the plant's profile and recent watering so it can tell
+ * overwatering from underwatering instead of guessing from symptoms alone.
+ */
+import { generateObject, type LanguageModel } from "ai";
+import { plantDiagnosisSchema } from "./schemas";
+import {
+  DAY_MS,
+  parseTimestamp,
+  type PlantDiagnosis,
+  type ScheduledPlant,
+  type WateringEvent
+} from "./shared";
+import { describeWateringInterval } from "./watering";
+
+export interface DiagnosisContext {
+  // With the adjusted interval it is actually being watered on
+  plant: ScheduledPlant;
+  symptoms: string;
+  // Most recent first
+  wateringHistory: WateringEvent[];
+  // What the vision model saw in photos of the issue
+  photoObservations?: string[];
+}
+
+function formatWatering(event: WateringEvent, now: Date) {
+  const daysAgo = Math.floor(
+    (now.getTime() - parseTimestamp(event.wateredAt).getTime()) / DAY_MS
+  );
+  const when = daysAgo === 0 ? "today" : `${daysAgo} days ago`;
+  return `- ${when}${event.notes ? ` (${event.notes})` : ""}`;
+}
+
+/**
+ * Describe the plant, its care and the symptoms for the model
+ */
+export function buildDiagnosisPrompt(
+  {
+    plant,
+    symptoms,
+    wateringHistory,
+    photoObservations = []
+  }: DiagnosisContext,
+  now = new Date()
+) {
+  const watering =
+    wateringHistory.length > 0
+      ? wateringHistory.map((event) => formatWatering(event, now)).join("\n")
+      : "- no waterings recorded";
+
+  return `Diagnose this houseplant problem.
+
+Plant: ${plant.name}
+Species: ${plant.type}
+Location: ${plant.location ?? "unknown"}
+Light: ${plant.lightRequirement ?? "unknown"}
+Watering schedule: ${describeWateringInterval(plant) || `every ${plant.wateringInterval.days} days`}
+Notes: ${plant.notes ?? "none"}
+
+Recent waterings:
+${watering}
+
+Symptoms: ${symptoms}${
+    photoObservations.length > 0
+      ? `\n\nSeen in photos:\n${photoObservations.map((text) => `- ${text}`).join("\n")}`
+      : ""
+  }`;
+}
+
+/**
+ * Readable one-line version of a diagnosis, stored in health_issues.diagnosis
+ */
+export function summarizeDiagnosis(diagnosis: PlantDiagnosis) {
+  const [top] = diagnosis.likelyCauses;
+  const likely = top
+    ? ` Most likely cause: ${top.cause} (${Math.round(top.confidence * 100)}% confidence).`
+    : "";
+  return `${diagnosis.summary}${likely} Urgency: ${diagnosis.urgency}.`;
+}
+
+/**
+ * Ask the model for a structured diagnosis
+ */
+export async function diagnosePlant(
+  model: LanguageModel,
+  context: DiagnosisContext
+): Promise<PlantDiagnosis> {
+  const { object } = await generateObject({
+    model,
+    schema: plantDiagnosisSchema,
+    system:
+      "You are an expert plant pathologist. Weigh the symptoms against the species, its light and location, and how often it has actually been watered. Be honest about uncertainty in the confidence scores.",
+    prompt: buildDiagnosisPrompt(context)
+  });
+  return object;
+}
@@ -0,0 +1,53 @@
+/**
+ * Fuzzy name matching shared by the species lookup and the plant resolver
+ * Tolerates accents, punctuation, word order within a longer name and small typos.
+ */
+
+/**
+ * Lowercase a name and strip accents, apostrophes and punctuation
+ */
+export function normalizeName(name: string) {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/['\u2019]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+export function editDistance(a: string, b: string) {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function containsPhrase(text: string, phrase: string) {
+  return ` ${text} `.includes(` ${phrase} `);
+}
+
+/**
+ * How well a normalized query matches a normalized name, from 0 to 1
+ */
+export function scoreName(query: string, name: string) {
+  if (query === name) return 1;
+  // "variegated snake plant" is still a snake plant
+  if (containsPhrase(query, name)) return 0.9;
+  // "fern" could be any fern, so only a weak match for "boston fern"
+  const partial = containsPhrase(name, query)
+    ? 0.6 + (0.3 * query.length) / name.length
+    : 0;
+  const typo =
+    1 - editDistance(query, name) / Math.max(query.length, name.length);
+  return Math.max(partial, typo);
+}
@@ -0,0 +1,72 @@
+import { useEffect, useState } from "react";
+import type { HouseholdMember } from "@/shared";
+
+/**
+ * Which household's PlantCare instance this browser talks to, and which member
+ * of it the signed-in user is. The household comes from the `household` URL
+ * parameter (invitation links set it), otherwise it is the user's own.
+ * `memberId` is undefined until the server has said whether they joined it,
+ * and `signedOut` is set when nobody is signed in.
+ */
+const useHousehold = () => {
+  const [householdId, setHouseholdId] = useState(() =>
+    new URLSearchParams(window.location.search).get("household")
+  );
+  const [inviteCode] = useState(() =>
+    new URLSearchParams(window.location.search).get("invite")
+  );
+  const [memberId, setMemberId] = useState<string | null>();
+  const [signedOut, setSignedOut] = useState(false);
+
+  useEffect(() => {
+    if (householdId) return;
+    fetch("/api/me")
+      .then(async (response) => {
+        if (response.status === 401) {
+          setSignedOut(true);
+          return;
+        }
+        const { household } = (await response.json()) as {
+          household: string;
+        };
+        setHouseholdId(household);
+      })
+      .catch((error) =>
+        console.error("Error loading the signed-in user:", error)
+      );
+  }, [householdId]);
+
+  useEffect(() => {
+    if (!householdId) return;
+    fetch(`/api/agents/${encodeURIComponent(householdId)}/members/me`)
+      .then(async (response) => {
+        if (response.status === 401) {
+          setSignedOut(true);
+          return;
+        }
+        setMemberId(
+          response.ok ? ((await response.json()) as HouseholdMember).id : null
+        );
+      })
+      .catch((error) => {
+        console.error("Error loading household membership:", error);
+        setMemberId(null);
+      });
+  }, [householdId]);
+
+  // Keep the household in the address so it can be bookmarked and shared;
+  // the invite code is only needed until the user has joined
+  useEffect(() => {
+    if (!householdId) return;
+    const url = new URL(window.location.href);
+    url.searchParams.set("household", householdId);
+    if (memberId) {
+      url.searchParams.delete("invite");
+    }
+    window.history.replaceState(null, "", url);
+  }, [householdId, memberId]);
+
+  return { householdId, inviteCode, memberId, setMemberId, signedOut };
+};
+
+export default useHousehold;
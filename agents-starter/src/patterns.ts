@@ -0,0 +1,159 @@
+/**
+ * Watering pattern analysis
+ * Learns how often a plant is really watered from its watering history and
+ * suggests a new base frequency when the schedule and the habit disagree.
+ */
+import {
+  DAY_MS,
+  parseTimestamp,
+  type ScheduledPlant,
+  type SpeciesCare,
+  type WateringEvent,
+  type WateringPattern,
+  type WateringSuggestion
+} from "./shared";
+
+// Waterings to fetch for an analysis; more than the intervals used so
+// duplicate entries can be dropped
+export const PATTERN_HISTORY_LIMIT = 20;
+// Only the most recent habit counts
+const MAX_INTERVALS = 10;
+// Fewer intervals than this are not a pattern yet
+const MIN_INTERVALS = 4;
+// Waterings closer together than this are the same watering logged twice
+const MIN_INTERVAL_DAYS = 0.5;
+// A watering this much later than scheduled counts as overdue
+const OVERDUE_GRACE_DAYS = 1;
+// Above this spread relative to the average, there is no habit to learn from
+const MAX_VARIATION = 0.5;
+
+function roundDays(days: number) {
+  return Math.round(days * 10) / 10;
+}
+
+function getIntervals(history: WateringEvent[]) {
+  const times = history
+    .map((event) => parseTimestamp(event.wateredAt).getTime())
+    .sort((a, b) => a - b);
+
+  const intervals: number[] = [];
+  let previous = times[0];
+  for (const time of times.slice(1)) {
+    const days = (time - previous) / DAY_MS;
+    if (days < MIN_INTERVAL_DAYS) continue;
+    intervals.push(days);
+    previous = time;
+  }
+  return intervals.slice(-MAX_INTERVALS);
+}
+
+function getMedian(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function getOverdueStreaks(intervals: number[], expectedDays: number) {
+  let current = 0;
+  let longest = 0;
+  for (const days of intervals) {
+    current = days > expectedDays + OVERDUE_GRACE_DAYS ? current + 1 : 0;
+    longest = Math.max(longest, current);
+  }
+  return { current, longest };
+}
+
+/**
+ * Base frequency that matches how the plant is actually watered, kept
+ * within the care guide's range for its species
+ */
+function suggestFrequency(
+  plant: ScheduledPlant,
+  medianDays: number,
+  intervalCount: number,
+  species: SpeciesCare | null
+): WateringSuggestion | null {
+  // The habit follows the adjusted interval, so undo today's adjustment
+  // to get back to a base frequency
+  const { baseDays, days } = plant.wateringInterval;
+  let suggested = Math.max(1, Math.round((medianDays * baseDays) / days));
+  let reason = `watered about every ${roundDays(medianDays)} days over the last ${intervalCount} waterings, not every ${days}`;
+
+  if (species) {
+    const { minDays, maxDays } = species.watering;
+    const clamped = Math.min(maxDays, Math.max(minDays, suggested));
+    if (clamped !== suggested) {
+      suggested = clamped;
+      reason += `; kept within the ${minDays}-${maxDays} days the care guide gives for ${species.scientificName}`;
+    }
+  }
+
+  if (suggested === plant.waterFrequencyDays) {
+    return null;
+  }
+  return {
+    currentFrequencyDays: plant.waterFrequencyDays,
+    suggestedFrequencyDays: suggested,
+    reason
+  };
+}
+
+/**
+ * Actual watering intervals, their spread and overdue streaks for a plant,
+ * with a new base frequency when the history clearly disagrees with it
+ */
+export function analyzeWateringPattern(
+  plant: ScheduledPlant,
+  history: WateringEvent[],
+  species: SpeciesCare | null = null
+): WateringPattern {
+  const intervals = getIntervals(history);
+  const expectedDays = plant.wateringInterval.days;
+  const streaks = getOverdueStreaks(intervals, expectedDays);
+  const pattern: WateringPattern = {
+    plantId: plant.id,
+    intervalsDays: intervals.map(roundDays),
+    averageIntervalDays: null,
+    medianIntervalDays: null,
+    standardDeviationDays: null,
+    expectedIntervalDays: expectedDays,
+    overdueStreak: streaks.current,
+    longestOverdueStreak: streaks.longest,
+    suggestion: null,
+    summary: ""
+  };
+
+  if (intervals.length < MIN_INTERVALS) {
+    pattern.summary = `Only ${intervals.length} watering intervals recorded; at least ${MIN_INTERVALS} are needed to spot a pattern.`;
+    return pattern;
+  }
+
+  const average =
+    intervals.reduce((sum, days) => sum + days, 0) / intervals.length;
+  const deviation = Math.sqrt(
+    intervals.reduce((sum, days) => sum + (days - average) ** 2, 0) /
+      intervals.length
+  );
+  const median = getMedian(intervals);
+  pattern.averageIntervalDays = roundDays(average);
+  pattern.medianIntervalDays = roundDays(median);
+  pattern.standardDeviationDays = roundDays(deviation);
+
+  if (deviation / average > MAX_VARIATION) {
+    pattern.summary = `Waterings are too irregular (every ${roundDays(average)} ± ${roundDays(deviation)} days) to learn a new frequency from.`;
+    return pattern;
+  }
+
+  pattern.suggestion = suggestFrequency(
+    plant,
+    median,
+    intervals.length,
+    species
+  );
+  pattern.summary = pattern.suggestion
+    ? `Suggest watering every ${pattern.suggestion.suggestedFrequencyDays} days instead of ${plant.waterFrequencyDays}: ${pattern.suggestion.reason}.`
+    : `The watering frequency of ${plant.waterFrequencyDays} days matches how the plant is watered.`;
+  return pattern;
+}
@@ -0,0 +1,58 @@
+/**
+ * Plant photos: chat attachments and the vision-model pass
+ * The chat composer uploads image bytes to R2 before sending, so the chat
+ * transcript only ever holds a link to them.
+ */
+import type { UIMessage } from "ai";
+import type { Plant } from "./shared";
+
+const VISION_MODEL = "@cf/meta/llama-3.2-11b-vision-instruct";
+
+/**
+ * ID of a stored photo from the URL it is served at
+ */
+export function getPhotoIdFromUrl(url: string): string | null {
+  const match = url.match(/\/photos\/([^/?#]+)$/);
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+/**
+ * The chat model is text-only, so replace image attachments with a note
+ * carrying the photo ID that the photo tools accept
+ */
+export function describeAttachedPhotos<T extends UIMessage>(
+  messages: T[]
+): T[] {
+  return messages.map((message) => ({
+    ...message,
+    parts: message.parts.map((part) => {
+      if (part.type !== "file" || !part.mediaType.startsWith("image/")) {
+        return part;
+      }
+      const photoId = getPhotoIdFromUrl(part.url);
+      return {
+        type: "text" as const,
+        text: photoId
+          ? `[Photo attached, photo ID: ${photoId}]`
+          : "[Photo attached but could not be stored]"
+      };
+    })
+  }));
+}
+
+/**
+ * Ask the vision model what it can see in a plant photo
+ */
+export async function describePhoto(
+  ai: Ai,
+  image: Uint8Array,
+  { plant, symptoms }: { plant: Plant; symptoms?: string }
+) {
+  const focus = symptoms ? ` The owner reports: "${symptoms}".` : "";
+  const result = await ai.run(VISION_MODEL, {
+    prompt: `This is a photo of a ${plant.type}.${focus} Describe only what you can see that matters for its health: leaf color and spots, wilting or drooping, pests, soil and pot condition. Be concise and factual.`,
+    image: Array.from(image),
+    max_tokens: 300
+  });
+  return result.response?.trim() ?? "";
+}
@@ -0,0 +1,240 @@
+/**
+ * Plant references in plain words
+ * Finds the plant a user means from its name, its species, where it stands or
+ * a mix of them ("the fern in the bedroom"), tolerating small typos, and
+ * reports every plant that fits when the words do not single one out.
+ * Rooms are matched more strictly, since a close name is often another room:
+ * "the bedroom" finds "Bedroom" but "Guest bedroom" does not.
+ */
+import { editDistance, normalizeName, scoreName } from "./fuzzy";
+import type { Plant, PlantLocation } from "./shared";
+import { getSpeciesById, resolveSpecies } from "./species/lookup";
+
+// Below this a plant is more likely not the one meant than a typo
+const MIN_MATCH_SCORE = 0.75;
+// Plants this close to the best match are treated as just as likely
+const AMBIGUITY_MARGIN = 0.05;
+// Every word of the reference fits the plant, e.g. "kitchen fern"
+const ALL_WORDS_SCORE = 0.85;
+
+// Names are the most specific way to refer to a plant, locations the least
+const NAME_WEIGHT = 1;
+const SPECIES_WEIGHT = 0.9;
+const LOCATION_WEIGHT = 0.85;
+
+// Filler in phrases like "the one in the bedroom"; "plant" is dropped too,
+// so "snake plant" matches a plant typed as just "snake"
+const FILLER_WORDS = new Set([
+  "a",
+  "an",
+  "at",
+  "by",
+  "from",
+  "in",
+  "my",
+  "near",
+  "of",
+  "on",
+  "one",
+  "our",
+  "plant",
+  "plants",
+  "that",
+  "the",
+  "which"
+]);
+
+// Where in a room a plant stands; "living room window" is still the living room
+const SPOT_WORDS = new Set([
+  "corner",
+  "desk",
+  "door",
+  "floor",
+  "shelf",
+  "sill",
+  "table",
+  "wall",
+  "window",
+  "windowsill"
+]);
+
+export type PlantResolution =
+  | { status: "matched"; plant: Plant }
+  | { status: "ambiguous"; candidates: Plant[] }
+  | { status: "unknown" };
+
+function getWords(text: string) {
+  return normalizeName(text)
+    .split(" ")
+    .filter((word) => word && !FILLER_WORDS.has(word));
+}
+
+function wordsMatch(a: string, b: string) {
+  return (
+    a === b || (Math.min(a.length, b.length) >= 4 && editDistance(a, b) <= 1)
+  );
+}
+
+/**
+ * The words naming a room, without a trailing spot within it
+ */
+function getRoomWords(text: string) {
+  const words = getWords(text);
+  let end = words.length;
+  while (end > 1 && SPOT_WORDS.has(words[end - 1])) {
+    end--;
+  }
+  return words.slice(0, end);
+}
+
+/**
+ * Whether two room names are the same room: the same words, allowing a typo
+ * in a word but not a different number ("Bedroom 2" is not "Bedroom")
+ */
+function isSameRoom(words: string[], roomWords: string[]) {
+  return (
+    words.length > 0 &&
+    words.length === roomWords.length &&
+    words.every((word, i) => {
+      const other = roomWords[i];
+      return /\d/.test(word) || /\d/.test(other)
+        ? word === other
+        : wordsMatch(word, other);
+    })
+  );
+}
+
+function coversWords(words: string[], descriptorWords: string[]) {
+  return (
+    words.length > 0 &&
+    words.every((word) =>
+      descriptorWords.some((other) => wordsMatch(word, other))
+    )
+  );
+}
+
+/**
+ * Everything a user might call a plant, each with how specific it is
+ */
+function getDescriptors(plant: Plant) {
+  const species = plant.speciesId ? getSpeciesById(plant.speciesId) : null;
+  return [
+    { text: plant.name, weight: NAME_WEIGHT },
+    { text: plant.type, weight: SPECIES_WEIGHT },
+    ...(species
+      ? [species.scientificName, ...species.commonNames].map((text) => ({
+          text,
+          weight: SPECIES_WEIGHT
+        }))
+      : []),
+    ...(plant.location
+      ? [{ text: plant.location, weight: LOCATION_WEIGHT }]
+      : [])
+  ].map(({ text, weight }) => ({ words: getWords(text), weight }));
+}
+
+/**
+ * How well a reference fits a plant, from 0 to 1: the best single name,
+ * species or location it matches, or every word fitting somewhere
+ */
+function scorePlant(words: string[], plant: Plant) {
+  const query = words.join(" ");
+  const descriptors = getDescriptors(plant);
+
+  let best = 0;
+  for (const { words: descriptorWords, weight } of descriptors) {
+    if (descriptorWords.length === 0) continue;
+    best = Math.max(best, scoreName(query, descriptorWords.join(" ")) * weight);
+  }
+
+  const allWords = descriptors.flatMap((descriptor) => descriptor.words);
+  if (coversWords(words, allWords)) {
+    best = Math.max(best, ALL_WORDS_SCORE);
+  }
+  return best;
+}
+
+/**
+ * Resolve how a user refers to a plant to one plant in the collection.
+ * Plant IDs still resolve directly.
+ */
+export function resolvePlantReference(
+  reference: string,
+  plants: Plant[]
+): PlantResolution {
+  const byId = plants.find((plant) => plant.id === reference);
+  if (byId) {
+    return { status: "matched", plant: byId };
+  }
+
+  const words = getWords(reference);
+  if (words.length === 0) {
+    return { status: "unknown" };
+  }
+
+  const matches = plants
+    .map((plant) => ({ plant, score: scorePlant(words, plant) }))
+    .filter((match) => match.score >= MIN_MATCH_SCORE)
+    .sort((a, b) => b.score - a.score);
+  if (matches.length === 0) {
+    return { status: "unknown" };
+  }
+
+  const candidates = matches.filter(
+    (match) => matches[0].score - match.score <= AMBIGUITY_MARGIN
+  );
+  if (candidates.length > 1) {
+    return {
+      status: "ambiguous",
+      candidates: candidates.map((match) => match.plant)
+    };
+  }
+  return { status: "matched", plant: matches[0].plant };
+}
+
+/**
+ * Whether a plant is of a species, by its canonical species or by the words
+ * of its type and species names, so "ferns" covers every kind of fern
+ */
+export function isOfSpecies(plant: Plant, species: string) {
+  const resolution = resolveSpecies(species);
+  if (
+    resolution.status === "matched" &&
+    plant.speciesId === resolution.species.id
+  ) {
+    return true;
+  }
+  const speciesWords = getDescriptors(plant)
+    .filter((descriptor) => descriptor.weight === SPECIES_WEIGHT)
+    .flatMap((descriptor) => descriptor.words);
+  return coversWords(getWords(species), speciesWords);
+}
+
+/**
+ * Find the saved location a user means, e.g. "Bedroom" for "the bedroom" or
+ * "Living room" for "living room window". Only the same room matches, so
+ * "Guest bedroom" or "Bedroom 2" do not find "Bedroom". Null when none does.
+ */
+export function resolveLocationReference(
+  reference: string,
+  locations: PlantLocation[]
+): PlantLocation | null {
+  const byId = locations.find((location) => location.id === reference);
+  if (byId) {
+    return byId;
+  }
+
+  const words = getRoomWords(reference);
+  const query = words.join(" ");
+  const matches = locations.filter((location) =>
+    isSameRoom(words, getRoomWords(location.name))
+  );
+  // Prefer the exact spelling over a typo
+  return (
+    matches.find(
+      (location) => getRoomWords(location.name).join(" ") === query
+    ) ??
+    matches[0] ??
+    null
+  );
+}
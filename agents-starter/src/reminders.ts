@@ -0,0 +1,132 @@
+/**
+ * Wording for watering and care plan reminders
+ * Plants due on the same day are batched into one digest, most urgent first,
+ * with any seasonal or environment adjustment to their interval spelled out
+ */
+import {
+  DAY_MS,
+  getIntervalDays,
+  getNextWateringDate,
+  type CarePlanAction,
+  type CarePlanStep,
+  type HealthIssue,
+  type Plant,
+  type ScheduledPlant,
+  type TreatmentStep
+} from "./shared";
+import { describeWateringInterval } from "./watering";
+
+export type WateringUrgency = "due" | "overdue" | "critical";
+
+/**
+ * Whole days since a plant's watering came due (0 when due today or not yet due)
+ */
+export function getDaysOverdue(
+  plant: Plant | ScheduledPlant,
+  now = new Date()
+): number {
+  const overdueMs = now.getTime() - getNextWateringDate(plant).getTime();
+  return Math.max(0, Math.floor(overdueMs / DAY_MS));
+}
+
+/**
+ * How strongly to word a reminder. A plant is critical once it has missed
+ * a whole extra watering interval.
+ */
+export function getWateringUrgency(
+  plant: Plant | ScheduledPlant,
+  now = new Date()
+): WateringUrgency {
+  const daysOverdue = getDaysOverdue(plant, now);
+  if (daysOverdue >= getIntervalDays(plant)) return "critical";
+  if (daysOverdue >= 2) return "overdue";
+  return "due";
+}
+
+/**
+ * Last moment of the UTC day containing `now`
+ */
+export function getEndOfDay(now = new Date()): Date {
+  const end = new Date(now);
+  end.setUTCHours(23, 59, 59, 999);
+  return end;
+}
+
+function describePlant(plant: Plant | ScheduledPlant, now: Date) {
+  const where = plant.location ? ` in the ${plant.location}` : "";
+  const adjusted =
+    "wateringInterval" in plant ? describeWateringInterval(plant) : "";
+  const label = `${plant.name} (${plant.type}${where}${adjusted ? `, ${adjusted}` : ""})`;
+  const daysOverdue = getDaysOverdue(plant, now);
+
+  switch (getWateringUrgency(plant, now)) {
+    case "critical":
+      return `URGENT: ${label} is ${daysOverdue} days overdue - it has missed a whole watering cycle, please water it as soon as possible and check for wilting or dry soil`;
+    case "overdue":
+      return `${label} is overdue by ${daysOverdue} days`;
+    default:
+      return `${label} is due today`;
+  }
+}
+
+/**
+ * Build a single reminder message for every plant that needs water today
+ */
+export function buildWateringDigest(
+  plants: (Plant | ScheduledPlant)[],
+  now = new Date()
+) {
+  const lines = [...plants]
+    .sort((a, b) => getDaysOverdue(b, now) - getDaysOverdue(a, now))
+    .map((plant) => describePlant(plant, now));
+
+  if (lines.length === 1) {
+    return `Time to water! ${lines[0]}.`;
+  }
+  return `Watering digest: ${lines.length} plants need water today.\n${lines
+    .map((line) => `- ${line}`)
+    .join("\n")}`;
+}
+
+const CARE_PLAN_VERBS: Record<CarePlanAction, string> = {
+  water: "Water",
+  check: "Check on",
+  fertilize: "Fertilize",
+  mist: "Mist",
+  prune: "Prune",
+  repot: "Repot"
+};
+
+/**
+ * Reminder text for a care plan step the user has to do themselves
+ */
+export function formatCarePlanStep(
+  plant: Plant,
+  planName: string,
+  step: CarePlanStep
+) {
+  const task = `${CARE_PLAN_VERBS[step.action]} ${plant.name} (${plant.type})`;
+  const instructions = step.instructions ? `: ${step.instructions}` : "";
+  return `Care plan "${planName}" - ${task}${instructions}`;
+}
+
+/**
+ * Follow-up check-in text for a health issue under treatment
+ */
+export function formatHealthCheckIn(
+  plant: Plant,
+  issue: HealthIssue,
+  steps: TreatmentStep[]
+) {
+  const done = steps.filter((step) => step.completedAt !== null).length;
+  const pending = steps
+    .filter((step) => step.completedAt === null)
+    .map((step) => step.description);
+  const progress =
+    pending.length > 0
+      ? ` ${done} of ${steps.length} treatment steps done, still to do: ${pending.join("; ")}.`
+      : steps.length > 0
+        ? " All treatment steps are done."
+        : "";
+  return `Check-in on ${plant.name} (${plant.type}): how is "${issue.issueDescription}" looking now?${progress} If it has cleared up, the issue can be resolved (issue ID: ${issue.id}).`;
+}
@@ -0,0 +1,511 @@
+/**
+ * Input schemas shared by the tools and the PlantCare data layer
+ * so the model and direct callers are validated the same way
+ */
+import { z } from "zod/v3";
+
+export const DEFAULT_WATER_FREQUENCY_DAYS = 7;
+
+export const plantIdSchema = z.string().min(1).describe("The ID of the plant");
+
+// How the model refers to a plant in tool calls: in the user's words or by ID
+export const plantReferenceSchema = z
+  .string()
+  .min(1)
+  .describe(
+    "The plant as the user refers to it: its name (e.g., 'Fernie'), its species, where it stands (e.g., 'the fern in the bedroom'), or its ID"
+  );
+
+// How the model refers to a room: by name, loosely, or by ID
+export const locationReferenceSchema = z
+  .string()
+  .min(1)
+  .describe("The room or spot, e.g. 'bedroom' or 'the living room'");
+
+// How the model refers to a household member: by name or ID
+export const memberReferenceSchema = z
+  .string()
+  .min(1)
+  .describe("The household member, by name (e.g., 'Sam') or ID");
+
+/**
+ * Details needed to start tracking a plant
+ */
+export const plantDetailsSchema = z.object({
+  name: z
+    .string()
+    .min(1)
+    .describe("The name or nickname for the plant (e.g., 'Fernie the Fern')"),
+  type: z
+    .string()
+    .min(1)
+    .describe(
+      "The type/species of plant (e.g., 'Boston Fern', 'Monstera Deliciosa', 'Snake Plant')"
+    ),
+  location: z
+    .string()
+    .optional()
+    .describe(
+      "Where the plant is located (e.g., 'living room window', 'bedroom')"
+    ),
+  lightRequirement: z
+    .string()
+    .optional()
+    .describe(
+      "Light requirements (e.g., 'bright indirect', 'low light', 'full sun')"
+    ),
+  waterFrequencyDays: z.coerce
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe(
+      `How often to water in days (default: from the species care guide, or ${DEFAULT_WATER_FREQUENCY_DAYS} for unknown species)`
+    ),
+  potSizeCm: z.coerce
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe("Pot diameter in centimeters; small pots dry out faster"),
+  lightLevel: z
+    .enum(["low", "medium", "bright", "direct"])
+    .optional()
+    .describe(
+      "How much light the plant actually gets where it stands: low, medium, bright (indirect) or direct sun"
+    ),
+  notes: z.string().optional().describe("Any additional notes about the plant")
+});
+
+export type PlantDetails = z.infer<typeof plantDetailsSchema>;
+
+export const speciesIdSchema = z
+  .string()
+  .min(1)
+  .describe("Canonical species ID from the care guide");
+
+/**
+ * A new plant with its species already resolved; null adds it without one
+ */
+export const newPlantSchema = plantDetailsSchema.extend({
+  speciesId: speciesIdSchema.nullable().optional()
+});
+
+/**
+ * Plant details waiting on the user to pick which species an ambiguous type means
+ */
+export const speciesChoiceSchema = plantDetailsSchema.extend({
+  candidates: z
+    .array(speciesIdSchema)
+    .min(2)
+    .describe("The candidate species IDs reported by addPlant")
+});
+
+export type SpeciesChoice = z.infer<typeof speciesChoiceSchema>;
+
+/**
+ * Fields of a partial edit to a plant profile. Optional details can be cleared with null.
+ */
+export const plantUpdateFieldsSchema = plantDetailsSchema.partial().extend({
+  location: z
+    .string()
+    .nullable()
+    .optional()
+    .describe("New location, or null to clear it"),
+  lightRequirement: z
+    .string()
+    .nullable()
+    .optional()
+    .describe("New light requirements, or null to clear them"),
+  potSizeCm: plantDetailsSchema.shape.potSizeCm
+    .nullable()
+    .describe("New pot diameter in centimeters, or null to clear it"),
+  lightLevel: plantDetailsSchema.shape.lightLevel
+    .nullable()
+    .describe("New light level, or null to clear it"),
+  notes: z
+    .string()
+    .nullable()
+    .optional()
+    .describe("New notes, or null to clear them"),
+  caretakerId: z
+    .string()
+    .min(1)
+    .nullable()
+    .optional()
+    .describe(
+      "ID of the household member who gets the plant's reminders, or null for everyone"
+    )
+});
+
+export const plantUpdateSchema = plantUpdateFieldsSchema.refine(
+  (update) => Object.values(update).some((value) => value !== undefined),
+  { message: "At least one field must be updated" }
+);
+
+export type PlantUpdate = z.infer<typeof plantUpdateSchema>;
+
+/**
+ * Partial update to the user's care profile; null clears a field
+ */
+export const careProfileSchema = z
+  .object({
+    hemisphere: z
+      .enum(["northern", "southern"])
+      .nullable()
+      .optional()
+      .describe("Which hemisphere the user lives in, for seasonal watering"),
+    location: z
+      .string()
+      .nullable()
+      .optional()
+      .describe("Where the user lives (e.g., 'Melbourne', 'Oslo')"),
+    indoorTemperature: z
+      .enum(["cool", "moderate", "warm"])
+      .nullable()
+      .optional()
+      .describe("How warm the home usually is"),
+    indoorHumidity: z
+      .enum(["dry", "average", "humid"])
+      .nullable()
+      .optional()
+      .describe("How humid the indoor air usually is"),
+    autoAdjustWatering: z
+      .boolean()
+      .optional()
+      .describe(
+        "Apply watering frequencies learned from the watering history automatically instead of only suggesting them"
+      )
+  })
+  .refine(
+    (update) => Object.values(update).some((value) => value !== undefined),
+    { message: "At least one field must be updated" }
+  );
+
+export type CareProfileUpdate = z.infer<typeof careProfileSchema>;
+
+/**
+ * A room or spot plants stand in, with the climate they get there
+ */
+export const locationDetailsSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1)
+    .describe("Name of the room or spot (e.g., 'Bedroom', 'Kitchen window')"),
+  lightLevel: plantDetailsSchema.shape.lightLevel.describe(
+    "How much light plants usually get here: low, medium, bright (indirect) or direct sun"
+  ),
+  windowDirection: z
+    .enum([
+      "north",
+      "northeast",
+      "east",
+      "southeast",
+      "south",
+      "southwest",
+      "west",
+      "northwest"
+    ])
+    .optional()
+    .describe("Which way the main window faces"),
+  humidity: z
+    .enum(["dry", "average", "humid"])
+    .optional()
+    .describe("How humid the air usually is here (e.g., humid for a bathroom)"),
+  temperature: z
+    .enum(["cool", "moderate", "warm"])
+    .optional()
+    .describe("How warm it usually is here")
+});
+
+export type LocationDetails = z.infer<typeof locationDetailsSchema>;
+
+/**
+ * Fields of a partial edit to a location; null clears an attribute
+ */
+export const locationUpdateFieldsSchema = z.object({
+  name: locationDetailsSchema.shape.name.optional(),
+  lightLevel: locationDetailsSchema.shape.lightLevel.nullable(),
+  windowDirection: locationDetailsSchema.shape.windowDirection.nullable(),
+  humidity: locationDetailsSchema.shape.humidity.nullable(),
+  temperature: locationDetailsSchema.shape.temperature.nullable()
+});
+
+export const locationUpdateSchema = locationUpdateFieldsSchema.refine(
+  (update) => Object.values(update).some((value) => value !== undefined),
+  { message: "At least one field must be updated" }
+);
+
+export type LocationUpdate = z.infer<typeof locationUpdateSchema>;
+
+/**
+ * Someone joining a household: the first member sets it up, everyone after
+ * them needs an invitation
+ */
+export const joinHouseholdSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1)
+    .describe("How the member is called in the household (e.g., 'Sam')"),
+  inviteCode: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Code from the invitation to join")
+});
+
+export type JoinHouseholdInput = z.infer<typeof joinHouseholdSchema>;
+
+/**
+ * An invitation for someone to join the household
+ */
+export const invitationSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1)
+    .optional()
+    .describe("Who the invitation is for, if known")
+});
+
+export type InvitationInput = z.infer<typeof invitationSchema>;
+
+/**
+ * A watering event for a tracked plant
+ */
+export const wateringSchema = z.object({
+  plantId: plantIdSchema.describe("The ID of the plant that was watered"),
+  notes: z
+    .string()
+    .optional()
+    .describe(
+      "Optional notes about the watering (e.g., 'gave extra water', 'bottom watered')"
+    )
+});
+
+export type WateringInput = z.infer<typeof wateringSchema>;
+
+/**
+ * A health problem observed on a tracked plant
+ */
+export const healthIssueSchema = z.object({
+  plantId: plantIdSchema.describe("The ID of the plant with the issue"),
+  issueDescription: z
+    .string()
+    .min(1)
+    .describe(
+      "Detailed description of the symptoms (e.g., 'leaves turning brown at the edges', 'yellow spots on leaves', 'wilting despite watering')"
+    ),
+  diagnosis: z.string().optional()
+});
+
+export type HealthIssueInput = z.infer<typeof healthIssueSchema>;
+
+export const DEFAULT_FOLLOW_UP_DAYS = 3;
+
+export const issueIdSchema = z
+  .string()
+  .min(1)
+  .describe("The ID of the health issue");
+
+/**
+ * Treatment recommended for a health issue, followed by a check-in
+ */
+export const treatmentSchema = z.object({
+  issueId: issueIdSchema,
+  steps: z
+    .array(z.string().min(1))
+    .min(1)
+    .max(10)
+    .describe(
+      "Treatment steps in order (e.g., 'remove affected leaves', 'let the soil dry out')"
+    ),
+  followUpDays: z.coerce
+    .number()
+    .int()
+    .positive()
+    .max(60)
+    .optional()
+    .describe(
+      `Days until checking in on how the treatment is going (default: ${DEFAULT_FOLLOW_UP_DAYS})`
+    )
+});
+
+export type TreatmentInput = z.infer<typeof treatmentSchema>;
+
+/**
+ * One step of a care plan, run after waiting `afterDays`
+ */
+export const carePlanStepSchema = z.object({
+  action: z
+    .enum(["water", "check", "fertilize", "mist", "prune", "repot"])
+    .describe(
+      "What to do: 'water' records a watering, the others remind the user to do it"
+    ),
+  afterDays: z.coerce
+    .number()
+    .int()
+    .min(0)
+    .max(365)
+    .describe("Days to wait after the previous step (0 to run right away)"),
+  instructions: z
+    .string()
+    .optional()
+    .describe("What to look for or how to do it (e.g., 'check for drooping')")
+});
+
+/**
+ * A multi-step care routine for one plant
+ */
+export const carePlanSchema = z.object({
+  plantId: plantIdSchema.describe("The ID of the plant the plan is for"),
+  name: z
+    .string()
+    .min(1)
+    .describe("Short name for the plan (e.g., 'Post-repot recovery')"),
+  steps: z.array(carePlanStepSchema).min(1).max(20)
+});
+
+export type CarePlanInput = z.infer<typeof carePlanSchema>;
+
+export const careEventKindSchema = z
+  .enum(["fertilizing", "repotting", "pruning", "misting"])
+  .describe("The kind of care");
+
+/**
+ * A care event other than watering
+ */
+export const careEventSchema = z.object({
+  plantId: plantIdSchema.describe("The ID of the plant that was cared for"),
+  kind: careEventKindSchema,
+  notes: z
+    .string()
+    .optional()
+    .describe(
+      "Optional notes (e.g., 'half-strength liquid fertilizer', 'moved to 6 inch pot')"
+    )
+});
+
+export type CareEventInput = z.infer<typeof careEventSchema>;
+
+/**
+ * How often a plant should get one kind of care; null stops tracking it
+ */
+export const careFrequencySchema = z.object({
+  plantId: plantIdSchema,
+  kind: careEventKindSchema,
+  frequencyDays: z.coerce
+    .number()
+    .int()
+    .positive()
+    .nullable()
+    .describe(
+      "Repeat every this many days (e.g., 30 for monthly fertilizing), or null to stop tracking"
+    )
+});
+
+export type CareFrequencyInput = z.infer<typeof careFrequencySchema>;
+
+/**
+ * Which plants a bulk care action covers; the filters narrow each other down
+ */
+export const plantFiltersSchema = z.object({
+  location: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Only plants standing here (e.g., 'living room')"),
+  species: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Only plants of this species (e.g., 'fern', 'Monstera')"),
+  due: z
+    .boolean()
+    .optional()
+    .describe("Only plants that are due for this care now"),
+  all: z
+    .boolean()
+    .optional()
+    .describe("Every active plant, when no other filter applies")
+});
+
+export const plantSelectorSchema = plantFiltersSchema.extend({
+  plantIds: z
+    .array(plantIdSchema)
+    .optional()
+    .describe("The IDs of the plants to include")
+});
+
+export type PlantSelector = z.infer<typeof plantSelectorSchema>;
+
+/**
+ * Whether a selector names any plants at all, so an empty one never means "everything"
+ */
+export function hasPlantSelection(selector: PlantSelector) {
+  return Boolean(
+    selector.all ||
+      selector.plantIds?.length ||
+      selector.location ||
+      selector.species ||
+      selector.due
+  );
+}
+
+const PLANT_SELECTION_MESSAGE =
+  "Select plants by plantIds, location, species, due or all";
+
+/**
+ * Several plants watered at once
+ */
+export const bulkWateringSchema = plantSelectorSchema
+  .extend({ notes: wateringSchema.shape.notes })
+  .refine(hasPlantSelection, PLANT_SELECTION_MESSAGE);
+
+export type BulkWateringInput = z.infer<typeof bulkWateringSchema>;
+
+/**
+ * The same care given to several plants at once
+ */
+export const bulkCareEventSchema = plantSelectorSchema
+  .extend({ kind: careEventKindSchema, notes: careEventSchema.shape.notes })
+  .refine(hasPlantSelection, PLANT_SELECTION_MESSAGE);
+
+export type BulkCareEventInput = z.infer<typeof bulkCareEventSchema>;
+
+/**
+ * Structured diagnosis the model fills in for a health issue
+ */
+export const plantDiagnosisSchema = z.object({
+  summary: z
+    .string()
+    .describe("One or two sentences naming the most likely problem"),
+  likelyCauses: z
+    .array(
+      z.object({
+        cause: z.string().describe("A likely cause (e.g., 'overwatering')"),
+        confidence: z
+          .number()
+          .min(0)
+          .max(1)
+          .describe("How likely this cause is, from 0 to 1"),
+        explanation: z
+          .string()
+          .describe("Why the symptoms and care history point to this cause")
+      })
+    )
+    .min(1)
+    .max(5)
+    .describe("Likely causes, most likely first"),
+  recommendedActions: z
+    .array(z.string())
+    .min(1)
+    .describe("Concrete steps to take, in order"),
+  urgency: z
+    .enum(["low", "medium", "high", "critical"])
+    .describe(
+      "How soon to act: low (monitor), medium (this week), high (in the next day or two), critical (today, the plant may die)"
+    )
+});
@@ -1,4 +1,11 @@
-import { routeAgentRequest, type Schedule } from "agents";
+import {
+  callable,
+  getCurrentAgent,
+  routeAgentRequest,
+  type Connection,
+  type ConnectionContext,
+  type Schedule
+} from "agents";
 import { getSchedulePrompt } from "agents/schedule";
 import { AIChatAgent } from "agents/ai-chat-agent";
 import {
@@ -12,199 +19,1563 @@ import {
   type ToolSet
 } from "ai";
 import { processToolCalls, cleanupMessages } from "./utils";
+import { handleApiRequest } from "./api";
+import {
+  admitToHousehold,
+  getAuthenticator,
+  handleAuthRequest,
+  LEGACY_HOUSEHOLD,
+  USER_ID_HEADER
+} from "./auth";
 import { tools, executions } from "./tools";
+import { runMigrations } from "./db/migrations";
+import { enableForeignKeys } from "./db/integrity";
+import { PlantRepository } from "./db/repository";
+import {
+  applySpeciesDefaults,
+  getSpeciesById,
+  resolveSpecies
+} from "./species/lookup";
+import { describeAttachedPhotos, describePhoto } from "./photos";
+import { calculateWateringInterval } from "./watering";
+import { normalizeName } from "./fuzzy";
+import {
+  isOfSpecies,
+  resolveLocationReference,
+  resolvePlantReference,
+  type PlantResolution
+} from "./plant-resolver";
+import { analyzeWateringPattern, PATTERN_HISTORY_LIMIT } from "./patterns";
+import {
+  diagnosePlant,
+  summarizeDiagnosis,
+  type DiagnosisContext
+} from "./diagnosis";
+import {
+  buildWateringDigest,
+  formatCarePlanStep,
+  formatHealthCheckIn,
+  getEndOfDay
+} from "./reminders";
+import {
+  DEFAULT_FOLLOW_UP_DAYS,
+  bulkCareEventSchema,
+  bulkWateringSchema,
+  invitationSchema,
+  joinHouseholdSchema,
+  plantDetailsSchema,
+  type BulkCareEventInput,
+  type BulkWateringInput,
+  type CareEventInput,
+  type CareFrequencyInput,
+  type CarePlanInput,
+  type CareProfileUpdate,
+  type InvitationInput,
+  type JoinHouseholdInput,
+  type LocationDetails,
+  type LocationUpdate,
+  type PlantDetails,
+  type PlantSelector,
+  type PlantUpdate,
+  type TreatmentInput
+} from "./schemas";
+import {
+  ARCHIVE_RETENTION_DAYS,
+  DAY_MS,
+  getDaysUntilWatering,
+  getNextWateringDate,
+  INVITATION_TTL_DAYS,
+  MAX_PHOTO_BYTES,
+  UNATTACHED_PHOTO_RETENTION_DAYS,
+  type BulkCareResult,
+  type BulkCareSummary,
+  type CareEvent,
+  type CareEventKind,
+  type CareFrequency,
+  type CareProfile,
+  type CareNeed,
+  type CarePlan,
+  type HealthIssue,
+  type HealthIssueLifecycle,
+  type HouseholdMember,
+  type Invitation,
+  type Plant,
+  type PlantChange,
+  type PlantCollectionState,
+  type PlantLocation,
+  type PlantDiagnosis,
+  type PlantPhoto,
+  type PlantOverview,
+  type PlantReminder,
+  type ReminderPayload,
+  type ScheduledPlant,
+  type TreatmentStep,
+  type WateringEvent,
+  type WateringInterval,
+  type WateringPattern,
+  type WateringSuggestion
+} from "./shared";
 import { createWorkersAI } from "workers-ai-provider";
 
-// Using Llama 3.3 70B on Workers AI
-// Note: Using type assertion as Llama 3.3 is newer than the type definitions
-const createModel = (env: Env) => createWorkersAI({ binding: env.AI })("@cf/meta/llama-3.3-70b-instruct-fp8-fast" as any);
+// Using Llama 3.3 70B on Workers AI
+// Note: Using type assertion as Llama 3.3 is newer than the type definitions
+const createModel = (env: Env) =>
+  createWorkersAI({ binding: env.AI })(
+    "@cf/meta/llama-3.3-70b-instruct-fp8-fast" as any
+  );
+
+export { CarePlanWorkflow } from "./workflows/care-plan";
+
+// What PlantCare remembers about each client connection
+type MemberConnectionState = { memberId: string | null };
+
+function summarizeBulkCare(
+  action: BulkCareSummary["action"],
+  performedAt: string,
+  results: BulkCareResult[]
+): BulkCareSummary {
+  const done = results.filter((result) => result.status === "done").length;
+  return { action, performedAt, done, skipped: results.length - done, results };
+}
+
+export class PlantCare extends AIChatAgent<Env, PlantCollectionState> {
+  initialState: PlantCollectionState = {
+    plants: [],
+    dueCount: 0,
+    openIssueCount: 0,
+    updatedAt: null
+  };
+
+  private plants: PlantRepository;
+
+  constructor(state: DurableObjectState, env: Env) {
+    super(state, env);
+    enableForeignKeys(state.storage.sql);
+    // Bring the plant tables up to the latest schema version
+    runMigrations(state.storage);
+    this.plants = new PlantRepository(state.storage.sql);
+  }
+
+  /**
+   * Refresh the published collection on wake-up so watering countdowns are
+   * current
+   */
+  async onStart() {
+    this.publishCollection();
+  }
+
+  /**
+   * Tie a connection to the household member it is for, from the signed-in
+   * user the worker admitted it as
+   */
+  async onConnect(
+    connection: Connection<MemberConnectionState>,
+    ctx: ConnectionContext
+  ) {
+    const userId = ctx.request.headers.get(USER_ID_HEADER);
+    connection.setState({
+      memberId: (userId && this.getMemberForUser(userId)?.id) || null
+    });
+  }
+
+  /**
+   * The household member behind the current chat message or client call, if
+   * known
+   */
+  private getActingMemberId(): string | null {
+    const { connection } = getCurrentAgent<PlantCare>();
+    const memberId = (
+      connection as Connection<MemberConnectionState> | undefined
+    )?.state?.memberId;
+    return memberId && this.getMember(memberId) ? memberId : null;
+  }
+
+  /**
+   * Publish the collection snapshot to every connected client via agent state.
+   * Called after anything that changes the plant tables.
+   */
+  private publishCollection() {
+    const plants = this.getCollectionOverview();
+    this.setState({
+      plants,
+      dueCount: plants.filter((plant) => plant.daysUntilWatering <= 0).length,
+      openIssueCount: plants.reduce(
+        (count, plant) => count + plant.openHealthIssues.length,
+        0
+      ),
+      updatedAt: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Get all plants that have not been archived
+   */
+  getPlants(): Plant[] {
+    return this.plants.listPlants();
+  }
+
+  /**
+   * Get a specific plant by ID (archived plants are only returned when asked
+   * for)
+   */
+  getPlant(plantId: string, includeArchived = false): Plant | null {
+    return this.plants.findPlant(plantId, { includeArchived });
+  }
+
+  /**
+   * Find the plant a user means by its name, species, location or ID
+   */
+  resolvePlant(reference: string, archived = false): PlantResolution {
+    return resolvePlantReference(
+      reference,
+      archived ? this.getArchivedPlants() : this.getPlants()
+    );
+  }
+
+  /**
+   * Get archived plants that can still be restored
+   */
+  getArchivedPlants(): Plant[] {
+    return this.plants.listPlants({ archived: true });
+  }
+
+  /**
+   * Add a new plant. The typed species is resolved to a canonical one unless
+   * `speciesId` is given (null for none); an ambiguous name is stored without
+   * one. Watering frequency and light default to the species care guide when
+   * they are not given.
+   */
+  async addPlant(
+    plant: PlantDetails & { id: string; speciesId?: string | null }
+  ): Promise<Plant> {
+    const { id, speciesId, ...rest } = plant;
+    const details = plantDetailsSchema.parse(rest);
+    const species =
+      speciesId === undefined
+        ? this.matchSpecies(details.type)
+        : speciesId === null
+          ? null
+          : getSpeciesById(speciesId);
+    if (speciesId && !species) {
+      throw new Error(`Unknown species ${speciesId}`);
+    }
+
+    if (details.location) {
+      details.location = this.findOrAddLocation(details.location).name;
+    }
+    const added = this.plants.insertPlant(
+      id,
+      applySpeciesDefaults(details, species),
+      species?.id ?? null
+    );
+    await this.syncWateringReminder(id);
+    this.publishCollection();
+    return added;
+  }
+
+  /**
+   * Edit some of a plant's details, keeping its history.
+   * Every changed field is recorded in the plant's audit trail and the
+   * watering reminder is recomputed for the new frequency.
+   */
+  async updatePlant(plantId: string, update: PlantUpdate) {
+    if (!this.getPlant(plantId)) {
+      return null;
+    }
+    if (update.caretakerId && !this.getMember(update.caretakerId)) {
+      throw new Error(`Unknown member ${update.caretakerId}`);
+    }
+
+    if (update.location) {
+      update = {
+        ...update,
+        location: this.findOrAddLocation(update.location).name
+      };
+    }
+    const changes = this.plants.updatePlant(
+      plantId,
+      update,
+      new Date().toISOString()
+    );
+    if (changes.some((change) => change.field === "type")) {
+      const species = this.matchSpecies(this.getPlant(plantId)!.type);
+      this.plants.setPlantSpecies(plantId, species?.id ?? null);
+    }
+    if (
+      changes.some((change) =>
+        ["waterFrequencyDays", "potSizeCm", "lightLevel", "location"].includes(
+          change.field
+        )
+      )
+    ) {
+      await this.syncWateringReminder(plantId);
+    }
+    if (changes.length > 0) {
+      this.publishCollection();
+    }
+    return { plant: this.getPlant(plantId)!, changes };
+  }
+
+  /**
+   * Get every location, by name
+   */
+  getLocations(): PlantLocation[] {
+    return this.plants.listLocations();
+  }
+
+  /**
+   * Get a specific location by ID
+   */
+  getLocation(locationId: string): PlantLocation | null {
+    return this.plants.findLocation(locationId);
+  }
+
+  /**
+   * Find the location a user means by its name (e.g., "the bedroom") or ID
+   */
+  resolveLocation(reference: string): PlantLocation | null {
+    return resolveLocationReference(reference, this.getLocations());
+  }
+
+  /**
+   * Whether another location already goes by a name
+   */
+  isLocationNameTaken(name: string, exceptLocationId?: string) {
+    return this.getLocations().some(
+      (location) =>
+        location.id !== exceptLocationId &&
+        normalizeName(location.name) === normalizeName(name)
+    );
+  }
+
+  /**
+   * Add a location. Returns null when one with the same name already exists.
+   */
+  addLocation(details: LocationDetails): PlantLocation | null {
+    if (this.isLocationNameTaken(details.name)) {
+      return null;
+    }
+    return this.plants.insertLocation(generateId(), details);
+  }
+
+  /**
+   * Edit a location. Its plants follow a new name, and their watering reminders
+   * move when the light or climate changes. Callers check first that a new
+   * name is not taken.
+   */
+  async updateLocation(
+    locationId: string,
+    update: LocationUpdate
+  ): Promise<PlantLocation | null> {
+    const location = this.plants.updateLocation(
+      locationId,
+      update,
+      new Date().toISOString()
+    );
+    if (!location) {
+      return null;
+    }
+    for (const plant of this.getPlants().filter(
+      (plant) => plant.locationId === locationId
+    )) {
+      await this.syncWateringReminder(plant.id);
+    }
+    this.publishCollection();
+    return location;
+  }
+
+  /**
+   * Delete a location; its plants stay in the collection without one
+   */
+  async removeLocation(locationId: string) {
+    if (!this.getLocation(locationId)) {
+      return false;
+    }
+    const plants = this.getPlants().filter(
+      (plant) => plant.locationId === locationId
+    );
+    this.plants.deleteLocation(locationId);
+    for (const plant of plants) {
+      await this.syncWateringReminder(plant.id);
+    }
+    this.publishCollection();
+    return true;
+  }
+
+  /**
+   * The saved location a typed one refers to, added when it is new, so
+   * "Living Room" and "living room window" end up in the same room
+   */
+  private findOrAddLocation(name: string) {
+    return (
+      this.resolveLocation(name) ??
+      this.plants.insertLocation(generateId(), { name })
+    );
+  }
+
+  /**
+   * Canonical species for a typed name, or null when it is unknown or ambiguous
+   */
+  private matchSpecies(type: string) {
+    const resolution = resolveSpecies(type);
+    return resolution.status === "matched" ? resolution.species : null;
+  }
+
+  /**
+   * Get the current members of the household, in the order they joined
+   */
+  getMembers(): HouseholdMember[] {
+    return this.plants.listMembers();
+  }
+
+  /**
+   * Get a current household member by ID
+   */
+  getMember(memberId: string): HouseholdMember | null {
+    return this.plants.findMember(memberId);
+  }
+
+  /**
+   * Whether a member, by default the one on the current connection, owns the
+   * household and so may invite and remove people
+   */
+  isOwner(memberId: string | null = this.getActingMemberId()) {
+    return Boolean(memberId && this.getMember(memberId)?.role === "owner");
+  }
+
+  /**
+   * Get the current household member a signed-in user joined as
+   */
+  getMemberForUser(userId: string): HouseholdMember | null {
+    return this.plants.findMemberByUser(userId);
+  }
+
+  /**
+   * Whether this is the collection from before sign-in and nobody has taken
+   * it over yet: it holds plants or members, but nobody has ever joined it as
+   * a signed-in user
+   */
+  isUnclaimed(): boolean {
+    return (
+      this.name === LEGACY_HOUSEHOLD &&
+      !this.plants.hasSignedInMembers() &&
+      (this.plants.hasPlants() || this.getMembers().length > 0)
+    );
+  }
+
+  /**
+   * Join the household, as a signed-in user when one is given. Whoever joins
+   * first sets it up and becomes its owner; everyone after them needs an
+   * invitation. Returns null when the invitation is missing, already used or
+   * expired, and the existing member when the user has joined already.
+   */
+  joinHousehold(
+    input: JoinHouseholdInput,
+    userId: string | null = null
+  ): HouseholdMember | null {
+    const { name, inviteCode } = joinHouseholdSchema.parse(input);
+    const existing = userId ? this.getMemberForUser(userId) : null;
+    if (existing) {
+      return existing;
+    }
+    // The first signed-in user to join the collection from before sign-in
+    // takes it over as its only owner
+    if (userId && this.isUnclaimed()) {
+      return this.ctx.storage.transactionSync(() => {
+        this.plants.demoteOwners();
+        return this.plants.insertMember(generateId(), name, "owner", userId);
+      });
+    }
+    if (this.getMembers().length === 0) {
+      return this.plants.insertMember(generateId(), name, "owner", userId);
+    }
+
+    const now = new Date().toISOString();
+    const invitation = inviteCode
+      ? this.plants.findInvitation(inviteCode)
+      : null;
+    if (!invitation || invitation.acceptedBy || invitation.expiresAt <= now) {
+      return null;
+    }
+    return this.ctx.storage.transactionSync(() => {
+      const member = this.plants.insertMember(
+        generateId(),
+        name,
+        "member",
+        userId
+      );
+      this.plants.acceptInvitation(invitation.code, member.id, now);
+      return member;
+    });
+  }
+
+  /**
+   * Invite someone to join the household. The code can be used once, within
+   * INVITATION_TTL_DAYS days.
+   */
+  inviteMember(
+    input: InvitationInput = {},
+    invitedBy = this.getActingMemberId()
+  ): Invitation {
+    const details = invitationSchema.parse(input);
+    const expiresAt = new Date(
+      Date.now() + INVITATION_TTL_DAYS * DAY_MS
+    ).toISOString();
+    return this.plants.insertInvitation(
+      generateId(),
+      details,
+      invitedBy,
+      expiresAt
+    );
+  }
+
+  /**
+   * Get the invitations that can still be used, newest first
+   */
+  getInvitations(): Invitation[] {
+    return this.plants.listOpenInvitations(new Date().toISOString());
+  }
+
+  /**
+   * Withdraw an invitation that has not been used yet
+   */
+  revokeInvitation(code: string) {
+    const invitation = this.plants.findInvitation(code);
+    if (!invitation || invitation.acceptedBy) {
+      return false;
+    }
+    this.plants.deleteInvitation(code);
+    return true;
+  }
+
+  /**
+   * Remove someone from the household. What they did stays attributed to them,
+   * and the plants they looked after send their reminders to everyone again.
+   */
+  async removeMember(memberId: string) {
+    if (!this.getMember(memberId)) {
+      return false;
+    }
+    for (const plant of this.getPlants().filter(
+      (plant) => plant.caretakerId === memberId
+    )) {
+      await this.updatePlant(plant.id, { caretakerId: null });
+    }
+    this.plants.removeMember(memberId, new Date().toISOString());
+    return true;
+  }
+
+  /**
+   * Get the audit trail of edits to a plant
+   */
+  getPlantChanges(plantId: string, limit = 50): PlantChange[] {
+    return this.plants.listPlantChanges(plantId, limit);
+  }
+
+  /**
+   * Record watering event, by the member on the current connection
+   */
+  @callable({ description: "Record that a plant was watered" })
+  async waterPlant(plantId: string, notes?: string) {
+    return this.waterPlantAs(this.getActingMemberId(), plantId, notes);
+  }
+
+  /**
+   * Record watering event by a given member, for the REST API and tools.
+   * Not callable, so clients cannot credit someone else. Removed and unknown
+   * plants cannot be watered.
+   */
+  async waterPlantAs(memberId: string | null, plantId: string, notes?: string) {
+    if (!this.getPlant(plantId)) {
+      throw new Error(`Plant ${plantId} not found`);
+    }
+
+    const wateringId = generateId();
+    const now = new Date().toISOString();
+
+    this.plants.insertWatering(wateringId, { plantId, notes }, now, memberId);
+    const { suggestion, frequencyChanged } = await this.afterWatering(plantId);
+    this.publishCollection();
+
+    return {
+      wateringId,
+      plantId,
+      wateredAt: now,
+      suggestion,
+      frequencyChanged
+    };
+  }
+
+  /**
+   * Water several plants at once: the listed ones and/or every plant in a
+   * location, of a species or due now. All waterings are recorded in one
+   * transaction.
+   */
+  @callable({ description: "Record that several plants were watered" })
+  async waterPlants(input: BulkWateringInput): Promise<BulkCareSummary> {
+    return this.waterPlantsAs(this.getActingMemberId(), input);
+  }
+
+  /**
+   * Water several plants at once by a given member, like waterPlant
+   */
+  async waterPlantsAs(
+    memberId: string | null,
+    input: BulkWateringInput
+  ): Promise<BulkCareSummary> {
+    const { notes, ...selector } = bulkWateringSchema.parse(input);
+    const performedAt = new Date().toISOString();
+    const { selected, results } = this.selectPlants(selector, () =>
+      this.getPlantsNeedingWater().map((plant) => plant.id)
+    );
+
+    this.ctx.storage.transactionSync(() => {
+      for (const plant of selected) {
+        this.plants.insertWatering(
+          generateId(),
+          { plantId: plant.id, notes },
+          performedAt,
+          memberId
+        );
+      }
+    });
+    // Reminders are schedules, which cannot be written inside the transaction
+    for (const plant of selected) {
+      await this.afterWatering(plant.id);
+    }
+    this.publishCollection();
+
+    return summarizeBulkCare("watering", performedAt, results);
+  }
+
+  /**
+   * Move a plant's reminder after it was watered. With auto-adjust on, a
+   * learned frequency replaces the old one right away (updatePlant moves the
+   * reminder); otherwise it is only suggested.
+   */
+  private async afterWatering(plantId: string) {
+    const suggestion = this.analyzeWateringPattern(plantId)?.suggestion ?? null;
+    const frequencyChanged = Boolean(
+      suggestion && this.plants.getCareProfile().autoAdjustWatering
+    );
+    if (frequencyChanged) {
+      await this.updatePlant(plantId, {
+        waterFrequencyDays: suggestion!.suggestedFrequencyDays
+      });
+    } else {
+      await this.syncWateringReminder(plantId);
+    }
+    return { suggestion, frequencyChanged };
+  }
+
+  /**
+   * Active plants a bulk selector covers, with a result for each of them and a
+   * skipped result for every listed ID that is unknown or ruled out by the
+   * filters
+   */
+  private selectPlants(
+    { plantIds, location, species, due }: PlantSelector,
+    getDuePlantIds: () => string[]
+  ) {
+    const duePlantIds = due ? new Set(getDuePlantIds()) : null;
+    const room = location ? this.resolveLocation(location) : null;
+    const getSkipReason = (plant: Plant) => {
+      if (location && (!room || plant.locationId !== room.id))
+        return `not in ${location}`;
+      if (species && !isOfSpecies(plant, species)) return `not a ${species}`;
+      if (duePlantIds && !duePlantIds.has(plant.id)) return "not due";
+      return null;
+    };
+
+    const plants = this.getPlants();
+    const selected: Plant[] = [];
+    const results: BulkCareResult[] = [];
+    if (plantIds?.length) {
+      for (const plantId of new Set(plantIds)) {
+        const plant = plants.find((candidate) => candidate.id === plantId);
+        const reason = plant ? getSkipReason(plant) : "plant not found";
+        if (plant && !reason) {
+          selected.push(plant);
+        }
+        results.push({
+          plantId,
+          plantName: plant?.name ?? null,
+          status: reason ? "skipped" : "done",
+          reason
+        });
+      }
+    } else {
+      for (const plant of plants) {
+        if (!getSkipReason(plant)) {
+          selected.push(plant);
+          results.push({
+            plantId: plant.id,
+            plantName: plant.name,
+            status: "done",
+            reason: null
+          });
+        }
+      }
+    }
+    return { selected, results };
+  }
+
+  /**
+   * Get watering history for a plant
+   */
+  getWateringHistory(plantId: string, limit = 10): WateringEvent[] {
+    return this.plants.listWateringHistory(plantId, limit);
+  }
+
+  /**
+   * Learn how a plant is actually watered from its history: intervals, their
+   * spread, overdue streaks and a suggested frequency when the schedule does
+   * not match
+   */
+  analyzeWateringPattern(plantId: string): WateringPattern | null {
+    const plant = this.getPlant(plantId);
+    if (!plant) {
+      return null;
+    }
+    const history = this.plants.listWateringHistory(
+      plantId,
+      PATTERN_HISTORY_LIMIT
+    );
+    const species = plant.speciesId ? getSpeciesById(plant.speciesId) : null;
+    return analyzeWateringPattern(
+      { ...plant, wateringInterval: this.getWateringInterval(plant) },
+      history,
+      species
+    );
+  }
+
+  /**
+   * Watering patterns for every active plant
+   */
+  analyzeWateringPatterns(): WateringPattern[] {
+    return this.getPlants().map(
+      (plant) => this.analyzeWateringPattern(plant.id)!
+    );
+  }
+
+  /**
+   * Switch a plant to the watering frequency suggested by its history.
+   * Returns null when the plant is not found or there is nothing to change.
+   */
+  async applyWateringSuggestion(
+    plantId: string
+  ): Promise<{ suggestion: WateringSuggestion; plant: Plant } | null> {
+    const suggestion = this.analyzeWateringPattern(plantId)?.suggestion;
+    if (!suggestion) {
+      return null;
+    }
+    const result = await this.updatePlant(plantId, {
+      waterFrequencyDays: suggestion.suggestedFrequencyDays
+    });
+    return { suggestion, plant: result!.plant };
+  }
+
+  /**
+   * Record a health issue
+   */
+  recordHealthIssue(
+    plantId: string,
+    issueDescription: string,
+    diagnosis?: string
+  ) {
+    const issueId = generateId();
+    this.plants.insertHealthIssue(issueId, {
+      plantId,
+      issueDescription,
+      diagnosis
+    });
+    this.publishCollection();
+    return { issueId, plantId };
+  }
+
+  /**
+   * Get health issues for a plant
+   */
+  getHealthIssues(plantId: string, includeResolved = false): HealthIssue[] {
+    return this.plants.listHealthIssues(plantId, { includeResolved });
+  }
+
+  /**
+   * Get health issues for a plant with their status, treatment steps and next
+   * check-in
+   */
+  getHealthIssueLifecycle(
+    plantId: string,
+    includeResolved = false
+  ): HealthIssueLifecycle[] {
+    const checkIns = this.getReminders(plantId).filter(
+      (reminder) => reminder.kind === "health-check"
+    );
+
+    return this.getHealthIssues(plantId, includeResolved).map((issue) => {
+      const treatmentSteps = this.plants.listTreatmentSteps(issue.id);
+      const nextCheckIn = checkIns
+        .filter((reminder) => reminder.issueId === issue.id)
+        .map((reminder) => reminder.nextRunAt)
+        .sort()[0];
+      return {
+        ...issue,
+        status: issue.resolved
+          ? "resolved"
+          : treatmentSteps.length > 0
+            ? "treating"
+            : issue.diagnosis
+              ? "diagnosed"
+              : "reported",
+        treatmentSteps,
+        photos: this.plants.listPhotos({ issueId: issue.id }),
+        nextCheckInAt: nextCheckIn ?? null
+      };
+    });
+  }
+
+  /**
+   * Record or replace the diagnosis for a health issue
+   */
+  updateDiagnosis(issueId: string, diagnosis: string): HealthIssue | null {
+    const issue = this.plants.findHealthIssue(issueId);
+    if (!issue) {
+      return null;
+    }
+
+    this.plants.setDiagnosis(issueId, diagnosis, new Date().toISOString());
+    this.publishCollection();
+    return this.plants.findHealthIssue(issueId);
+  }
+
+  /**
+   * Diagnose a health issue with Workers AI using the plant's profile,
+   * recent watering and what the vision model sees in the issue's photos,
+   * and store the structured result on the issue
+   */
+  async diagnoseHealthIssue(issueId: string) {
+    const issue = this.plants.findHealthIssue(issueId);
+    const plant = issue && this.getPlant(issue.plantId);
+    if (!issue || !plant) {
+      return null;
+    }
+
+    const photos = await this.observePhotos(
+      this.plants.listPhotos({ issueId }),
+      plant,
+      issue.issueDescription
+    );
+    const diagnosis = await this.requestDiagnosis({
+      plant: { ...plant, wateringInterval: this.getWateringInterval(plant) },
+      symptoms: issue.issueDescription,
+      wateringHistory: this.getWateringHistory(plant.id, 5),
+      photoObservations: photos.flatMap((photo) =>
+        photo.observations ? [photo.observations] : []
+      )
+    });
+    this.plants.setDiagnosis(
+      issueId,
+      summarizeDiagnosis(diagnosis),
+      new Date().toISOString(),
+      diagnosis
+    );
+    this.publishCollection();
+    return this.plants.findHealthIssue(issueId);
+  }
+
+  /**
+   * Call the model for a structured diagnosis
+   */
+  async requestDiagnosis(context: DiagnosisContext): Promise<PlantDiagnosis> {
+    return diagnosePlant(createModel(this.env), context);
+  }
+
+  /**
+   * Run the vision model over photos it has not looked at yet.
+   * A photo that cannot be read is skipped rather than failing the diagnosis.
+   */
+  private async observePhotos(
+    photos: PlantPhoto[],
+    plant: Plant,
+    symptoms: string
+  ) {
+    const observed: PlantPhoto[] = [];
+    for (const photo of photos) {
+      if (!photo.observations) {
+        try {
+          const observations = await this.requestPhotoObservations(
+            photo,
+            plant,
+            symptoms
+          );
+          if (observations) {
+            this.plants.setPhotoObservations(photo.id, observations);
+          }
+        } catch (error) {
+          console.error(`Error describing photo ${photo.id}:`, error);
+        }
+      }
+      observed.push(this.plants.findPhoto(photo.id)!);
+    }
+    return observed;
+  }
 
+  /**
+   * Call the vision model for one photo
+   */
+  async requestPhotoObservations(
+    photo: PlantPhoto,
+    plant: Plant,
+    symptoms?: string
+  ) {
+    const object = await this.env.PLANT_PHOTOS.get(photo.storageKey);
+    if (!object) {
+      return "";
+    }
+    const image = new Uint8Array(await object.arrayBuffer());
+    return describePhoto(this.env.AI, image, { plant, symptoms });
+  }
 
-export class PlantCare extends AIChatAgent<Env> {
-  private db: SqlStorage;
+  /**
+   * Store an image in R2, optionally already attached to a plant and health
+   * issue
+   */
+  async savePhoto(
+    bytes: Uint8Array | ArrayBuffer,
+    contentType: string,
+    {
+      plantId = null,
+      issueId = null,
+      caption = null
+    }: {
+      plantId?: string | null;
+      issueId?: string | null;
+      caption?: string | null;
+    } = {}
+  ): Promise<PlantPhoto> {
+    if (!contentType.startsWith("image/")) {
+      throw new Error(`Photos must be images, got ${contentType}`);
+    }
+    if (bytes.byteLength > MAX_PHOTO_BYTES) {
+      throw new Error(
+        `Photos can be at most ${MAX_PHOTO_BYTES / 1024 / 1024} MB`
+      );
+    }
 
-  constructor(state: DurableObjectState, env: Env) {
-    super(state, env);
-    this.db = state.storage.sql;
-    this.initializeDatabase();
-  }
-
-  private initializeDatabase() {
-    // Create plants table
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS plants (
-        id TEXT PRIMARY KEY,
-        name TEXT NOT NULL,
-        type TEXT NOT NULL,
-        location TEXT,
-        light_requirement TEXT,
-        water_frequency_days INTEGER,
-        last_watered TEXT,
-        notes TEXT,
-        created_at TEXT DEFAULT CURRENT_TIMESTAMP
-      )
-    `);
-
-    // Create watering history table
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS watering_history (
-        id TEXT PRIMARY KEY,
-        plant_id TEXT NOT NULL,
-        watered_at TEXT DEFAULT CURRENT_TIMESTAMP,
-        notes TEXT,
-        FOREIGN KEY (plant_id) REFERENCES plants(id) ON DELETE CASCADE
-      )
-    `);
-
-    // Create health issues table
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS health_issues (
-        id TEXT PRIMARY KEY,
-        plant_id TEXT NOT NULL,
-        issue_description TEXT NOT NULL,
-        diagnosis TEXT,
-        resolved INTEGER DEFAULT 0,
-        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-        resolved_at TEXT,
-        FOREIGN KEY (plant_id) REFERENCES plants(id) ON DELETE CASCADE
-      )
-    `);
+    const id = generateId();
+    const storageKey = `${this.name}/${id}`;
+    await this.env.PLANT_PHOTOS.put(storageKey, bytes, {
+      httpMetadata: { contentType }
+    });
+    const photo = this.plants.insertPhoto({
+      id,
+      plantId,
+      issueId,
+      storageKey,
+      contentType,
+      size: bytes.byteLength,
+      caption
+    });
+    if (!plantId) {
+      await this.schedule(
+        UNATTACHED_PHOTO_RETENTION_DAYS * 24 * 60 * 60,
+        "purgeUnattachedPhoto",
+        id
+      );
+    }
+    return photo;
   }
 
   /**
-   * Get all plants
+   * Delete an uploaded photo that was never filed under a plant, e.g. one
+   * removed from the chat composer before sending. Attached photos are kept.
    */
-  getPlants() {
-    return this.db.exec(`SELECT * FROM plants ORDER BY created_at DESC`).toArray();
+  async deleteUnattachedPhoto(photoId: string) {
+    const photo = this.plants.findPhoto(photoId);
+    if (!photo || photo.plantId) {
+      return false;
+    }
+
+    await this.env.PLANT_PHOTOS.delete(photo.storageKey);
+    this.plants.deletePhoto(photoId);
+    return true;
+  }
+
+  /**
+   * Delete an uploaded photo that is still not filed under a plant once
+   * UNATTACHED_PHOTO_RETENTION_DAYS have passed. Runs as a scheduled task.
+   */
+  async purgeUnattachedPhoto(photoId: string) {
+    await this.deleteUnattachedPhoto(photoId);
+  }
+
+  /**
+   * Get a stored photo's details
+   */
+  getPhoto(photoId: string): PlantPhoto | null {
+    return this.plants.findPhoto(photoId);
+  }
+
+  /**
+   * Attach a photo to a plant, and optionally to one of its health issues
+   */
+  attachPhoto(
+    photoId: string,
+    plantId: string,
+    issueId?: string
+  ): PlantPhoto | null {
+    const photo = this.plants.findPhoto(photoId);
+    const plant = this.getPlant(plantId);
+    const issue = issueId ? this.plants.findHealthIssue(issueId) : null;
+    if (!photo || !plant || (issueId && issue?.plantId !== plantId)) {
+      return null;
+    }
+
+    this.plants.linkPhoto(photoId, plantId, issueId ?? null);
+    return this.plants.findPhoto(photoId);
   }
 
   /**
-   * Get a specific plant by ID
+   * Get a plant's photos, oldest first
    */
-  getPlant(plantId: string) {
-    const result = this.db.exec(`SELECT * FROM plants WHERE id = ?`, plantId).toArray();
-    return result[0] || null;
+  getPlantPhotos(plantId: string): PlantPhoto[] {
+    return this.plants.listPhotos({ plantId });
   }
 
   /**
-   * Add a new plant
+   * Add treatment steps to an open health issue and schedule a follow-up
+   * check-in
    */
-  addPlant(plant: {
-    id: string;
-    name: string;
-    type: string;
-    location?: string;
-    lightRequirement?: string;
-    waterFrequencyDays?: number;
-    notes?: string;
-  }) {
-    this.db.exec(
-      `INSERT INTO plants (id, name, type, location, light_requirement, water_frequency_days, notes)
-       VALUES (?, ?, ?, ?, ?, ?, ?)`,
-      plant.id,
-      plant.name,
-      plant.type,
-      plant.location || null,
-      plant.lightRequirement || null,
-      plant.waterFrequencyDays || 7,
-      plant.notes || null
+  async recommendTreatment({
+    issueId,
+    steps,
+    followUpDays = DEFAULT_FOLLOW_UP_DAYS
+  }: TreatmentInput) {
+    const issue = this.plants.findHealthIssue(issueId);
+    if (!issue || issue.resolved) {
+      return null;
+    }
+
+    this.plants.insertTreatmentSteps(
+      issueId,
+      steps.map((description) => ({ id: generateId(), description }))
     );
-    return this.getPlant(plant.id);
+    const checkIn = await this.scheduleHealthCheckIn(issue, followUpDays);
+
+    return {
+      issue,
+      treatmentSteps: this.plants.listTreatmentSteps(issueId),
+      followUpAt: new Date(checkIn.time * 1000).toISOString()
+    };
   }
 
   /**
-   * Record watering event
-  */
-  waterPlant(plantId: string, notes?: string) {
-    const wateringId = generateId();
-    const now = new Date().toISOString();
+   * Schedule a reminder to check in on a health issue after some days
+   */
+  private async scheduleHealthCheckIn(
+    issue: HealthIssue,
+    followUpDays = DEFAULT_FOLLOW_UP_DAYS
+  ) {
+    return this.schedule<ReminderPayload>(
+      followUpDays * 24 * 60 * 60,
+      "executeTask",
+      {
+        plantId: issue.plantId,
+        kind: "health-check",
+        issueId: issue.id
+      }
+    );
+  }
 
-    this.db.exec(
-      `INSERT INTO watering_history (id, plant_id, watered_at, notes)
-       VALUES (?, ?, ?, ?)`,
-      wateringId,
-      plantId,
+  /**
+   * Mark a treatment step as done
+   */
+  completeTreatmentStep(stepId: string): TreatmentStep | null {
+    if (!this.plants.findTreatmentStep(stepId)) {
+      return null;
+    }
+
+    this.plants.setTreatmentStepCompletedAt(stepId, new Date().toISOString());
+    return this.plants.findTreatmentStep(stepId);
+  }
+
+  /**
+   * Close a health issue and cancel its pending check-ins
+   */
+  async resolveHealthIssue(
+    issueId: string,
+    resolution?: string
+  ): Promise<HealthIssue | null> {
+    const issue = this.plants.findHealthIssue(issueId);
+    if (!issue) {
+      return null;
+    }
+
+    if (!issue.resolved) {
+      this.plants.resolveHealthIssue(
+        issueId,
+        resolution || null,
+        new Date().toISOString()
+      );
+      for (const reminder of this.getReminders(issue.plantId)) {
+        if (reminder.kind === "health-check" && reminder.issueId === issueId) {
+          await this.cancelSchedule(reminder.id);
+        }
+      }
+      this.publishCollection();
+    }
+    return this.plants.findHealthIssue(issueId);
+  }
+
+  /**
+   * Get plants that need watering on their adjusted interval, never-watered
+   * and longest-dry first, optionally only those in one location
+   */
+  getPlantsNeedingWater(locationId?: string): ScheduledPlant[] {
+    const now = new Date();
+    return this.getScheduledPlants(now)
+      .filter((plant) => !locationId || plant.locationId === locationId)
+      .filter(
+        (plant) => !plant.lastWatered || getNextWateringDate(plant) <= now
+      )
+      .sort((a, b) => (a.lastWatered ?? "").localeCompare(b.lastWatered ?? ""));
+  }
+
+  /**
+   * Get the user's hemisphere and indoor climate
+   */
+  getCareProfile(): CareProfile {
+    return this.plants.getCareProfile();
+  }
+
+  /**
+   * Update the care profile and move every watering reminder to the adjusted
+   * intervals
+   */
+  async updateCareProfile(update: CareProfileUpdate): Promise<CareProfile> {
+    const profile = this.plants.updateCareProfile(update);
+    for (const plant of this.getPlants()) {
+      await this.syncWateringReminder(plant.id);
+    }
+    this.publishCollection();
+    return profile;
+  }
+
+  /**
+   * Watering interval that applies to a plant now, with the reasons it differs
+   * from the base frequency
+   */
+  getWateringInterval(plant: Plant, now = new Date()): WateringInterval {
+    const location = plant.locationId
+      ? this.getLocation(plant.locationId)
+      : null;
+    return calculateWateringInterval(
+      plant,
+      this.plants.getCareProfile(),
       now,
-      notes || null
+      location
     );
+  }
 
-    // Update last_watered in plants table
-    this.db.exec(
-      `UPDATE plants SET last_watered = ? WHERE id = ?`,
-      now,
-      plantId
+  /**
+   * Active plants with their current watering intervals
+   */
+  getScheduledPlants(now = new Date()): ScheduledPlant[] {
+    const profile = this.plants.getCareProfile();
+    const locations = new Map(
+      this.getLocations().map((location) => [location.id, location])
     );
+    return this.getPlants().map((plant) => ({
+      ...plant,
+      wateringInterval: calculateWateringInterval(
+        plant,
+        profile,
+        now,
+        locations.get(plant.locationId ?? "") ?? null
+      )
+    }));
+  }
+
+  /**
+   * Record fertilizing, repotting, pruning or misting. Removed and unknown
+   * plants cannot be cared for.
+   */
+  logCareEvent(
+    { plantId, kind, notes }: CareEventInput,
+    memberId = this.getActingMemberId()
+  ) {
+    if (!this.getPlant(plantId)) {
+      throw new Error(`Plant ${plantId} not found`);
+    }
 
-    return { wateringId, plantId, wateredAt: now };
+    const eventId = generateId();
+    const performedAt = new Date().toISOString();
+    this.plants.insertCareEvent(
+      eventId,
+      { plantId, kind, notes },
+      performedAt,
+      memberId
+    );
+    return { eventId, plantId, kind, performedAt };
   }
 
   /**
-   * Get watering history for a plant
+   * Log the same care for several plants, selected like waterPlants, in one
+   * transaction. With due set, only plants whose frequency for this kind of
+   * care has come round are included.
    */
-  getWateringHistory(plantId: string, limit = 10) {
-    return this.db.exec(
-      `SELECT * FROM watering_history
-       WHERE plant_id = ?
-       ORDER BY watered_at DESC
-       LIMIT ?`,
-      plantId,
-      limit
-    ).toArray();
+  @callable({ description: "Record the same care for several plants" })
+  logCareEvents(input: BulkCareEventInput): BulkCareSummary {
+    return this.logCareEventsAs(this.getActingMemberId(), input);
   }
 
   /**
-   * Record a health issue
+   * Log the same care for several plants by a given member, like waterPlantAs
    */
-  recordHealthIssue(plantId: string, issueDescription: string, diagnosis?: string) {
-    const issueId = generateId();
-    this.db.exec(
-      `INSERT INTO health_issues (id, plant_id, issue_description, diagnosis)
-       VALUES (?, ?, ?, ?)`,
-      issueId,
-      plantId,
-      issueDescription,
-      diagnosis || null
+  logCareEventsAs(
+    memberId: string | null,
+    input: BulkCareEventInput
+  ): BulkCareSummary {
+    const { kind, notes, ...selector } = bulkCareEventSchema.parse(input);
+    const performedAt = new Date().toISOString();
+    const { selected, results } = this.selectPlants(selector, () =>
+      this.getPlantsNeedingCare(kind).map((need) => need.plant.id)
     );
-    return { issueId, plantId };
+
+    this.ctx.storage.transactionSync(() => {
+      for (const plant of selected) {
+        this.plants.insertCareEvent(
+          generateId(),
+          { plantId: plant.id, kind, notes },
+          performedAt,
+          memberId
+        );
+      }
+    });
+    return summarizeBulkCare(kind, performedAt, results);
   }
 
   /**
-   * Get health issues for a plant
+   * Get care events for a plant, optionally of one kind
+   */
+  getCareHistory(
+    plantId: string,
+    kind?: CareEventKind,
+    limit = 10
+  ): CareEvent[] {
+    return this.plants.listCareEvents(plantId, { kind, limit });
+  }
+
+  /**
+   * Set how often a plant needs one kind of care; null stops tracking it
    */
-  getHealthIssues(plantId: string, includeResolved = false) {
-    const query = includeResolved
-      ? `SELECT * FROM health_issues WHERE plant_id = ? ORDER BY created_at DESC`
-      : `SELECT * FROM health_issues WHERE plant_id = ? AND resolved = 0 ORDER BY created_at DESC`;
+  setCareFrequency({ plantId, kind, frequencyDays }: CareFrequencyInput) {
+    this.plants.setCareFrequency(plantId, kind, frequencyDays);
+    return this.getCareFrequencies(plantId);
+  }
+
+  /**
+   * Get the care frequencies set for a plant
+   */
+  getCareFrequencies(plantId: string): CareFrequency[] {
+    return this.plants.listCareFrequencies(plantId);
+  }
 
-    return this.db.exec(query, plantId).toArray();
+  /**
+   * Get plants that are due for a kind of care, or for any tracked care,
+   * optionally only in one location
+   */
+  getPlantsNeedingCare(kind?: CareEventKind, locationId?: string): CareNeed[] {
+    return this.plants
+      .listPlantsNeedingCare(kind)
+      .filter((need) => !locationId || need.plant.locationId === locationId);
   }
 
   /**
-   * Get plants that need watering
+   * Get every active plant with its watering countdown and open health issues
    */
-  getPlantsNeedingWater() {
-    return this.db.exec(`
-      SELECT * FROM plants
-      WHERE last_watered IS NULL
-         OR julianday('now') - julianday(last_watered) >= water_frequency_days
-      ORDER BY last_watered ASC
-    `).toArray();
+  getCollectionOverview(): PlantOverview[] {
+    const now = new Date();
+    return this.getScheduledPlants(now).map((plant) => ({
+      ...plant,
+      daysUntilWatering: getDaysUntilWatering(plant, now),
+      openHealthIssues: this.getHealthIssues(plant.id)
+    }));
   }
 
   /**
-   * Remove a plant from the collection
+   * Remove a plant from the collection by archiving it.
+   * The plant stays restorable until it is purged after ARCHIVE_RETENTION_DAYS.
    */
-  removePlant(plantId: string) {
+  async removePlant(plantId: string) {
     const plant = this.getPlant(plantId);
     if (!plant) {
       return null;
     }
 
-    // SQLite CASCADE will automatically delete related watering_history and health_issues
-    this.db.exec(`DELETE FROM plants WHERE id = ?`, plantId);
+    this.plants.setArchivedAt(plantId, new Date().toISOString());
+    await this.cancelPlantReminders(plantId);
+    await this.stopCarePlans(plantId);
+    this.publishCollection();
+    await this.schedule(
+      ARCHIVE_RETENTION_DAYS * 24 * 60 * 60,
+      "purgeArchivedPlant",
+      plantId
+    );
     return plant;
   }
 
+  /**
+   * Restore an archived plant with all of its history. Its watering reminder
+   * is rescheduled, and so are check-ins on open issues still being treated.
+   */
+  async restorePlant(plantId: string) {
+    const plant = this.getPlant(plantId, true);
+    if (!plant || plant.archivedAt === null) {
+      return null;
+    }
+
+    this.plants.setArchivedAt(plantId, null);
+    await this.syncWateringReminder(plantId);
+    for (const issue of this.getHealthIssues(plantId)) {
+      const steps = this.plants.listTreatmentSteps(issue.id);
+      if (steps.some((step) => !step.completedAt)) {
+        await this.scheduleHealthCheckIn(issue);
+      }
+    }
+    this.publishCollection();
+    return this.getPlant(plantId);
+  }
+
+  /**
+   * Permanently delete a plant once its retention window has passed.
+   * Runs as a scheduled task; a plant restored in the meantime is left alone.
+   */
+  async purgeArchivedPlant(plantId: string) {
+    const plant = this.getPlant(plantId, true);
+    if (!plant || plant.archivedAt === null) {
+      return;
+    }
+
+    const archivedFor = Date.now() - new Date(plant.archivedAt).getTime();
+    if (archivedFor < ARCHIVE_RETENTION_DAYS * 24 * 60 * 60 * 1000) {
+      // Archived again after a restore, a later task will purge it
+      return;
+    }
+
+    const storageKeys = this.getPlantPhotos(plantId).map(
+      (photo) => photo.storageKey
+    );
+    if (storageKeys.length > 0) {
+      await this.env.PLANT_PHOTOS.delete(storageKeys);
+    }
+    // Foreign keys are enforced (see enableForeignKeys), so CASCADE deletes
+    // related watering_history, health_issues and plant_photos
+    this.plants.deletePlant(plantId);
+  }
+
+  /**
+   * Recompute the managed watering reminder for a plant. Cancels the current
+   * reminder and, for active plants, schedules the next one at last watered +
+   * the adjusted watering interval, but never earlier than `notBefore`.
+   */
+  async syncWateringReminder(plantId: string, notBefore = new Date()) {
+    const currentScheduleId = this.plants.getReminderScheduleId(plantId);
+    if (currentScheduleId) {
+      await this.cancelSchedule(currentScheduleId);
+    }
+
+    const plant = this.getPlant(plantId);
+    if (!plant) {
+      this.plants.setReminderScheduleId(plantId, null);
+      return null;
+    }
+
+    const dueAt = getNextWateringDate({
+      ...plant,
+      wateringInterval: this.getWateringInterval(plant, notBefore)
+    });
+    const remindAt = dueAt > notBefore ? dueAt : notBefore;
+    const schedule = await this.schedule<ReminderPayload>(
+      remindAt,
+      "executeTask",
+      {
+        plantId,
+        kind: "watering"
+      }
+    );
+    this.plants.setReminderScheduleId(plantId, schedule.id);
+    return schedule;
+  }
+
+  /**
+   * Schedule a custom reminder for a plant at a date, after a delay in seconds,
+   * or on a cron. It goes to the given member, or else to whoever looks after
+   * the plant when it fires.
+   */
+  async scheduleCustomReminder(
+    plantId: string,
+    when: Date | number | string,
+    message: string,
+    memberId?: string
+  ) {
+    return this.schedule<ReminderPayload>(when, "executeTask", {
+      plantId,
+      kind: "custom",
+      message,
+      ...(memberId ? { memberId } : {})
+    });
+  }
+
+  /**
+   * List reminders, optionally only those for one plant
+   */
+  getReminders(plantId?: string): PlantReminder[] {
+    return this.getSchedules<ReminderPayload | string>()
+      .filter((task) => task.callback === "executeTask")
+      .flatMap((task) => {
+        // Reminders scheduled before payloads were structured only carry text
+        if (typeof task.payload === "string") return [];
+        if (plantId && task.payload.plantId !== plantId) return [];
+        return [
+          {
+            id: task.id,
+            plantId: task.payload.plantId,
+            kind: task.payload.kind,
+            message: task.payload.message ?? null,
+            issueId: task.payload.issueId ?? null,
+            memberId: task.payload.memberId ?? null,
+            nextRunAt: new Date(task.time * 1000).toISOString(),
+            cron: task.type === "cron" ? task.cron : null
+          }
+        ];
+      });
+  }
+
+  /**
+   * Cancel every reminder tied to a plant, including its managed watering
+   * reminder
+   */
+  async cancelPlantReminders(plantId: string) {
+    const reminders = this.getReminders(plantId);
+    for (const reminder of reminders) {
+      await this.cancelSchedule(reminder.id);
+    }
+    this.plants.setReminderScheduleId(plantId, null);
+    return reminders.length;
+  }
+
+  /**
+   * Start a multi-step care plan for a plant, run by CarePlanWorkflow
+   */
+  async startCarePlan({
+    plantId,
+    name,
+    steps
+  }: CarePlanInput): Promise<CarePlan | null> {
+    if (!this.getPlant(plantId)) {
+      return null;
+    }
+
+    const planId = generateId();
+    const plan = this.plants.insertCarePlan(planId, plantId, name, steps);
+    try {
+      await this.env.CARE_PLAN_WORKFLOW.create({
+        id: planId,
+        params: { agentName: this.name, planId, steps }
+      });
+    } catch (error) {
+      this.plants.setCarePlanStatus(planId, "errored", String(error));
+      throw error;
+    }
+    return plan;
+  }
+
+  /**
+   * Cancel a plant's running care plans and terminate their workflows
+   */
+  async stopCarePlans(plantId: string) {
+    const running = this.plants
+      .listCarePlans(plantId)
+      .filter((plan) => plan.status === "running");
+    this.plants.cancelCarePlans(plantId);
+    for (const plan of running) {
+      try {
+        const workflow = await this.env.CARE_PLAN_WORKFLOW.get(plan.id);
+        await workflow.terminate();
+      } catch (error) {
+        // Already finished or never created; the plan is cancelled either way
+        console.error(`Error terminating care plan ${plan.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Get care plans and their progress, optionally only those for one plant
+   */
+  getCarePlans(plantId?: string): CarePlan[] {
+    return this.plants.listCarePlans(plantId);
+  }
+
+  /**
+   * Carry out one care plan step on behalf of CarePlanWorkflow.
+   * Watering is recorded directly; every other action is posted as a reminder.
+   * Returns "stopped" when the plan should not continue.
+   */
+  async runCarePlanStep(
+    planId: string,
+    index: number
+  ): Promise<"done" | "stopped"> {
+    const plan = this.plants.findCarePlan(planId);
+    if (!plan || plan.status !== "running") {
+      return "stopped";
+    }
+
+    const plant = this.getPlant(plan.plantId);
+    if (!plant) {
+      this.plants.setCarePlanStatus(planId, "cancelled");
+      return "stopped";
+    }
+
+    // A retried workflow step may run again after the step already went through
+    if (plan.completedSteps > index) {
+      return "done";
+    }
+
+    const step = plan.steps[index];
+    if (step.action === "water") {
+      await this.waterPlant(
+        plant.id,
+        step.instructions || `Care plan: ${plan.name}`
+      );
+    } else {
+      await this.postReminder(formatCarePlanStep(plant, plan.name, step));
+    }
+    this.plants.setCarePlanProgress(planId, index + 1);
+    return "done";
+  }
+
+  /**
+   * Mark a care plan complete once its workflow has run every step
+   */
+  finishCarePlan(planId: string) {
+    const plan = this.plants.findCarePlan(planId);
+    if (plan?.status === "running") {
+      this.plants.setCarePlanStatus(planId, "complete");
+    }
+  }
+
+  /**
+   * Record that a running care plan's workflow gave up after exhausting its
+   * retries. Plans that were cancelled in the meantime stay cancelled.
+   */
+  failCarePlan(planId: string, error: string) {
+    const plan = this.plants.findCarePlan(planId);
+    if (plan?.status === "running") {
+      this.plants.setCarePlanStatus(planId, "errored", error);
+    }
+  }
+
   /**
    * Handles incoming chat messages and manages the response stream
    */
@@ -218,6 +1589,9 @@ export class PlantCare extends AIChatAgent<Env> {
       ...this.mcp.getAITools()
     };
 
+    const actingMemberId = this.getActingMemberId();
+    const speaker = actingMemberId ? this.getMember(actingMemberId) : null;
+
     const stream = createUIMessageStream({
       execute: async ({ writer }) => {
         // Clean up incomplete tool calls to prevent API errors
@@ -245,26 +1619,40 @@ IMPORTANT: You can answer plant care questions directly using your knowledge! Yo
 When users ask general plant care questions (like "How often should I water my Pothos?" or "What kind of light does a snake plant need?"), answer them directly with your plant care knowledge.
 
 Use the available tools ONLY when users want to:
-- Track a specific plant in their collection (use addPlant)
-- Record watering events (use waterPlant)
-- Check which tracked plants need water (use checkWateringNeeds)
-- Diagnose issues with a tracked plant (use diagnosePlantIssue)
+- Track a specific plant in their collection (use addPlant). If addPlant says the type could be several species, call confirmSpecies so the user can pick
+- Record watering events (use waterPlant, or waterPlants when several plants were watered, e.g. a whole room, a species or everything due)
+- Record fertilizing, repotting, pruning or misting (use logCareEvent, or logCareForPlants for several plants at once), set how often each is needed (use setCareFrequency) and check what is due (use checkCareNeeds)
+- Check which tracked plants need water (use checkWateringNeeds, with a location for questions like "what's due in the bedroom")
+- Spot watering habits (use analyzeWateringPatterns). When waterPlant or analyzeWateringPatterns suggests a new frequency, explain why and only apply it with applyWateringSuggestion once the user agrees, or turn on autoAdjustWatering with updateCareProfile if they want it done automatically
+- Diagnose issues with a tracked plant (use diagnosePlantIssue, then record your diagnosis with updateDiagnosis). When the user attaches photos you will see "[Photo attached, photo ID: ...]" - pass those IDs to diagnosePlantIssue so the photos are examined, or use attachPhoto to file them under a plant
+- Recommend treatment for a health issue (use recommendTreatment - it schedules a follow-up check-in), tick off steps (use completeTreatmentStep) and close the issue once the plant has recovered (use resolveHealthIssue)
 - View their plant list (use listPlants)
-- Schedule reminders (use scheduleWateringReminder)
+- Change a plant's name, type, location, light, watering frequency, pot size or notes (use updatePlant - never remove and re-add a plant to edit it)
+- Manage rooms (use listLocations, addLocation and updateLocation) with their light, window direction, humidity and temperature - a room's climate adjusts the watering of every plant in it - and move plants between rooms (use movePlants)
+- Record the user's hemisphere and indoor climate (use updateCareProfile, and getCareProfile to check it) - watering intervals are adjusted for the season, the home, and each plant's pot size and light. When checkWateringNeeds reports an adjusted interval, tell the user why
+- Remove a plant (use removePlant to find it, then confirmPlantRemoval so the user can confirm - removed plants can be brought back with restorePlant)
+- Schedule extra reminders (use scheduleWateringReminder) - regular watering reminders are created automatically for every plant and move whenever it is watered
+- Set up a multi-step care routine such as "water now, check for drooping in 2 days, fertilize in 2 weeks" (use startCarePlan, and getCarePlans to report progress)
+- Share the collection with their household: see who is in it (use listMembers), invite someone (use inviteMember and pass on the link it returns) and choose who gets a plant's reminders (use assignCaretaker)
 
-If a user asks a general question about plant care, answer it directly without using tools.
+If a user asks a general question about plant care, answer it directly without using tools. For specific numbers about a species (watering interval, temperature, humidity, soil) or whether it is safe for cats and dogs, check the care guide with getCareTips.
 If a user wants to track a plant or manage their collection, use the appropriate tools.
+Tools that act on one plant take the plant the way the user refers to it - its name, its species or where it stands (e.g., "Fernie", "the snake plant", "the fern in the bedroom") - so pass the user's words instead of looking up IDs with listPlants first. If a tool says several plants match, ask the user which one they mean and call it again with that plant's ID.
 
 ${getSchedulePrompt({ date: new Date() })}
 
 Current date: ${new Date().toLocaleDateString()}
-
+${speaker ? `\nYou are talking with ${speaker.name}. Waterings and care they report are recorded as theirs.\n` : ""}
 Always be encouraging and patient with plant parents. Plant care is a learning process!
 `,
-          messages: convertToModelMessages(processedMessages),
+          messages: convertToModelMessages(
+            describeAttachedPhotos(processedMessages)
+          ),
           model: createModel(this.env),
           tools: allTools,
-          onFinish: onFinish as unknown as StreamTextOnFinishCallback<typeof allTools>,
+          onFinish: onFinish as unknown as StreamTextOnFinishCallback<
+            typeof allTools
+          >,
           stopWhen: stepCountIs(10)
         });
 
@@ -276,9 +1664,97 @@ Always be encouraging and patient with plant parents. Plant care is a learning p
   }
 
   /**
-   * Execute scheduled tasks (watering reminders)
+   * Execute scheduled tasks (watering and custom reminders). Watering reminders
+   * re-check the plant before posting and batch everything due today into one
+   * digest.
+   */
+  async executeTask(
+    payload: ReminderPayload | string,
+    task: Schedule<ReminderPayload | string>
+  ) {
+    // Reminders scheduled before payloads were structured only carry text
+    if (typeof payload === "string") {
+      await this.postReminder(payload);
+      return;
+    }
+
+    const plant = this.getPlant(payload.plantId);
+    if (!plant) {
+      return;
+    }
+
+    if (payload.kind === "custom") {
+      await this.postReminder(
+        payload.message || `Reminder for ${plant.name}`,
+        payload.memberId ?? plant.caretakerId
+      );
+      return;
+    }
+
+    if (payload.kind === "health-check") {
+      const issue = payload.issueId
+        ? this.plants.findHealthIssue(payload.issueId)
+        : null;
+      if (issue && !issue.resolved) {
+        await this.postReminder(
+          formatHealthCheckIn(
+            plant,
+            issue,
+            this.plants.listTreatmentSteps(issue.id)
+          ),
+          plant.caretakerId
+        );
+      }
+      return;
+    }
+
+    // The managed reminder moved on since this one was scheduled,
+    // e.g. the plant was watered or already covered by today's digest
+    if (this.plants.getReminderScheduleId(plant.id) !== task.id) {
+      return;
+    }
+
+    // Due dates move with the seasons, so check against today's interval
+    const now = new Date();
+    if (
+      getNextWateringDate({
+        ...plant,
+        wateringInterval: this.getWateringInterval(plant, now)
+      }) > now
+    ) {
+      await this.syncWateringReminder(plant.id);
+      return;
+    }
+
+    // Batch every plant due today into one message and follow up tomorrow
+    // for each of them in case they do not get watered
+    const endOfDay = getEndOfDay(now);
+    const duePlants = this.getScheduledPlants(now).filter(
+      (candidate) => getNextWateringDate(candidate) <= endOfDay
+    );
+    const followUp = new Date(now.getTime() + DAY_MS);
+    // One digest per caretaker, so each member only hears about the plants they
+    // look after
+    const digests = new Map<string | null, ScheduledPlant[]>();
+    for (const duePlant of duePlants) {
+      await this.syncWateringReminder(duePlant.id, followUp);
+      digests.set(duePlant.caretakerId, [
+        ...(digests.get(duePlant.caretakerId) ?? []),
+        duePlant
+      ]);
+    }
+    for (const [memberId, plants] of digests) {
+      await this.postReminder(buildWateringDigest(plants, now), memberId);
+    }
+  }
+
+  /**
+   * Add a reminder to the conversation as a user message so the assistant
+   * responds to it, addressed to one household member or, without one, to
+   * everyone
    */
-  async executeTask(description: string, _task: Schedule<string>) {
+  private async postReminder(text: string, memberId: string | null = null) {
+    const member = memberId ? this.getMember(memberId) : null;
     await this.saveMessages([
       ...this.messages,
       {
@@ -287,7 +1763,7 @@ Always be encouraging and patient with plant parents. Plant care is a learning p
         parts: [
           {
             type: "text",
-            text: `Scheduled reminder: ${description}`
+            text: `Scheduled reminder${member ? ` for ${member.name}` : ""}: ${text}`
           }
         ],
         metadata: {
@@ -303,9 +1779,30 @@ Always be encouraging and patient with plant parents. Plant care is a learning p
  */
 export default {
   async fetch(request: Request, env: Env, _ctx: ExecutionContext) {
+    // Signing in is the only thing served to anyone who is not signed in
+    const authResponse = await handleAuthRequest(request, env);
+    if (authResponse) {
+      return authResponse;
+    }
+    const user = await getAuthenticator(env)(request, env);
+    if (!user) {
+      return new Response("Unauthorized", {
+        status: 401,
+        headers: { "WWW-Authenticate": "Bearer" }
+      });
+    }
+
     return (
-      // Route the request to our agent or return 404 if not found
-      (await routeAgentRequest(request, env)) ||
+      // Serve the REST API for scripts and dashboards
+      (await handleApiRequest(request, env, user)) ||
+      // Route the request to the user's agent, or one of a household they
+      // belong to, or return 404 if not found
+      (await routeAgentRequest(request, env, {
+        onBeforeConnect: (req, { name }) =>
+          admitToHousehold(req, env, user, name),
+        onBeforeRequest: (req, { name }) =>
+          admitToHousehold(req, env, user, name)
+      })) ||
       new Response("Not found", { status: 404 })
     );
   }
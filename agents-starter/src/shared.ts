@@ -3,3 +3,456 @@ export const APPROVAL = {
   YES: "Yes, confirmed.",
   NO: "No, denied."
 } as const;
+
+// Answer to a confirmation that asks the user to pick one of several options
+export interface ConfirmationChoice {
+  choice: string;
+}
+
+export function isConfirmationChoice(
+  value: unknown
+): value is ConfirmationChoice {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as ConfirmationChoice).choice === "string"
+  );
+}
+
+// How long a removed plant stays archived and restorable before it is deleted for good
+export const ARCHIVE_RETENTION_DAYS = 30;
+
+// Domain types returned by PlantCare to tools, the REST API and the React client
+
+export interface Plant {
+  id: string;
+  name: string;
+  // The species as the user typed it
+  type: string;
+  // Canonical species in the care guide, or null when the type was not recognized
+  speciesId: string | null;
+  // Name of the room the plant stands in, kept in step with locationId
+  location: string | null;
+  locationId: string | null;
+  lightRequirement: string | null;
+  // Base interval; the effective one is adjusted for season and environment
+  waterFrequencyDays: number;
+  // Pot diameter, used to adjust the watering interval
+  potSizeCm: number | null;
+  // How much light the plant actually gets where it stands
+  lightLevel: LightLevel | null;
+  lastWatered: string | null;
+  notes: string | null;
+  // Household member who gets the plant's reminders, or null for everyone
+  caretakerId: string | null;
+  createdAt: string;
+  archivedAt: string | null;
+}
+
+export type LightLevel = "low" | "medium" | "bright" | "direct";
+
+// Where the user lives and what their home is like, used to adjust watering intervals
+export type Hemisphere = "northern" | "southern";
+export type IndoorTemperature = "cool" | "moderate" | "warm";
+export type IndoorHumidity = "dry" | "average" | "humid";
+
+export interface CareProfile {
+  hemisphere: Hemisphere | null;
+  location: string | null;
+  indoorTemperature: IndoorTemperature | null;
+  indoorHumidity: IndoorHumidity | null;
+  // Apply frequencies learned from the watering history without asking
+  autoAdjustWatering: boolean;
+  updatedAt: string | null;
+}
+
+export type WindowDirection =
+  | "north"
+  | "northeast"
+  | "east"
+  | "southeast"
+  | "south"
+  | "southwest"
+  | "west"
+  | "northwest";
+
+// A room or spot plants stand in; its climate overrides the care profile's for them
+export interface PlantLocation {
+  id: string;
+  name: string;
+  lightLevel: LightLevel | null;
+  // Which way the main window faces, or null without one
+  windowDirection: WindowDirection | null;
+  humidity: IndoorHumidity | null;
+  temperature: IndoorTemperature | null;
+  createdAt: string;
+}
+
+// People sharing one plant collection; the owner is whoever set it up
+export type MemberRole = "owner" | "member";
+
+export interface HouseholdMember {
+  id: string;
+  name: string;
+  role: MemberRole;
+  joinedAt: string;
+}
+
+// How long an invitation to join a household can be used
+export const INVITATION_TTL_DAYS = 7;
+
+export interface Invitation {
+  code: string;
+  // Who the invitation is meant for, if given
+  name: string | null;
+  invitedBy: string | null;
+  createdAt: string;
+  expiresAt: string;
+  acceptedBy: string | null;
+  acceptedAt: string | null;
+}
+
+export type Season = "spring" | "summer" | "autumn" | "winter";
+
+// One reason the watering interval differs from the plant's base frequency
+export interface WateringAdjustment {
+  // Multiplies the interval: above 1 waters less often, below 1 more often
+  factor: number;
+  reason: string;
+}
+
+export interface WateringInterval {
+  baseDays: number;
+  days: number;
+  // Null when the hemisphere is not known
+  season: Season | null;
+  adjustments: WateringAdjustment[];
+}
+
+// How a plant is actually being watered, learned from its watering history
+export interface WateringPattern {
+  plantId: string;
+  // Days between the recent waterings, oldest first
+  intervalsDays: number[];
+  averageIntervalDays: number | null;
+  medianIntervalDays: number | null;
+  // Spread of the intervals around the average
+  standardDeviationDays: number | null;
+  // The adjusted interval the plant is currently scheduled on
+  expectedIntervalDays: number;
+  // Most recent waterings in a row that came later than scheduled
+  overdueStreak: number;
+  longestOverdueStreak: number;
+  suggestion: WateringSuggestion | null;
+  summary: string;
+}
+
+export interface WateringSuggestion {
+  currentFrequencyDays: number;
+  suggestedFrequencyDays: number;
+  reason: string;
+}
+
+export interface WateringEvent {
+  id: string;
+  plantId: string;
+  wateredAt: string;
+  notes: string | null;
+  // Household member who watered, or null when not known
+  memberId: string | null;
+}
+
+export interface HealthIssue {
+  id: string;
+  plantId: string;
+  issueDescription: string;
+  diagnosis: string | null;
+  resolved: boolean;
+  createdAt: string;
+  diagnosedAt: string | null;
+  resolvedAt: string | null;
+  // What fixed it, recorded when the issue is resolved
+  resolution: string | null;
+  // Structured diagnosis from the model; null for diagnoses entered by hand
+  diagnosisDetails: PlantDiagnosis | null;
+}
+
+// Largest photo accepted from the chat composer or the REST API
+export const MAX_PHOTO_BYTES = 5 * 1024 * 1024;
+
+// How long an uploaded photo is kept without being filed under a plant
+export const UNATTACHED_PHOTO_RETENTION_DAYS = 7;
+
+export interface PlantPhoto {
+  id: string;
+  plantId: string | null;
+  issueId: string | null;
+  storageKey: string;
+  contentType: string;
+  size: number;
+  caption: string | null;
+  // What the vision model saw, filled in when the photo is used for a diagnosis
+  observations: string | null;
+  uploadedAt: string;
+}
+
+/**
+ * URL the worker serves a stored photo from
+ */
+export function getPhotoUrl(agentName: string, photoId: string) {
+  return `/api/agents/${encodeURIComponent(agentName)}/photos/${encodeURIComponent(photoId)}`;
+}
+
+export type DiagnosisUrgency = "low" | "medium" | "high" | "critical";
+
+export interface PlantDiagnosis {
+  summary: string;
+  likelyCauses: {
+    cause: string;
+    // 0 to 1
+    confidence: number;
+    explanation: string;
+  }[];
+  recommendedActions: string[];
+  urgency: DiagnosisUrgency;
+}
+
+export interface TreatmentStep {
+  id: string;
+  issueId: string;
+  description: string;
+  position: number;
+  completedAt: string | null;
+  createdAt: string;
+}
+
+// Where a health issue is between being reported and resolved
+export type HealthIssueStatus =
+  | "reported"
+  | "diagnosed"
+  | "treating"
+  | "resolved";
+
+export interface HealthIssueLifecycle extends HealthIssue {
+  status: HealthIssueStatus;
+  treatmentSteps: TreatmentStep[];
+  // Photos of the issue, oldest first, to follow its progression
+  photos: PlantPhoto[];
+  // Next scheduled follow-up check-in, if any
+  nextCheckInAt: string | null;
+}
+
+// Care requirements for one species from the bundled care guide
+export type HumidityLevel = "low" | "medium" | "high";
+
+export interface SpeciesCare {
+  // Stable ID stored on plants
+  id: string;
+  // Canonical botanical name
+  scientificName: string;
+  // Common names and synonyms the species is known by
+  commonNames: string[];
+  watering: {
+    minDays: number;
+    maxDays: number;
+    notes: string;
+  };
+  // Short light requirement, used as the default for new plants
+  light: string;
+  humidity: HumidityLevel;
+  temperatureC: { min: number; max: number };
+  toxicity: { cats: boolean; dogs: boolean; notes: string | null };
+  soil: string;
+  tips: string[];
+}
+
+// A plant with the watering interval that currently applies to it
+export interface ScheduledPlant extends Plant {
+  wateringInterval: WateringInterval;
+}
+
+// A plant as shown on the dashboard, with its open issues and its watering
+// countdown as of when the overview was built (clients recount it as days pass)
+export interface PlantOverview extends ScheduledPlant {
+  daysUntilWatering: number;
+  openHealthIssues: HealthIssue[];
+}
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse a stored timestamp. SQLite's CURRENT_TIMESTAMP is UTC but has no zone marker.
+ */
+export function parseTimestamp(timestamp: string): Date {
+  return /[zZ]|[+-]\d{2}:\d{2}$/.test(timestamp)
+    ? new Date(timestamp)
+    : new Date(`${timestamp.replace(" ", "T")}Z`);
+}
+
+/**
+ * Days between waterings for a plant: its adjusted interval when known,
+ * otherwise its base frequency
+ */
+export function getIntervalDays(plant: Plant | ScheduledPlant) {
+  return "wateringInterval" in plant
+    ? plant.wateringInterval.days
+    : plant.waterFrequencyDays;
+}
+
+/**
+ * When a plant's next watering reminder is due: one watering interval after it
+ * was last watered, or after it was added if it has never been watered
+ */
+export function getNextWateringDate(plant: Plant | ScheduledPlant): Date {
+  const from = parseTimestamp(plant.lastWatered ?? plant.createdAt);
+  return new Date(from.getTime() + getIntervalDays(plant) * DAY_MS);
+}
+
+/**
+ * Whole days until a plant is due for water; zero or negative once it is due or overdue.
+ * A plant that has never been watered is due now.
+ */
+export function getDaysUntilWatering(
+  plant: Plant | ScheduledPlant,
+  now = new Date()
+): number {
+  if (!plant.lastWatered) {
+    return 0;
+  }
+
+  const dueAt =
+    new Date(plant.lastWatered).getTime() + getIntervalDays(plant) * DAY_MS;
+  return Math.ceil((dueAt - now.getTime()) / DAY_MS);
+}
+
+// Fields of a plant profile that can be edited after it is added
+export type EditablePlantField =
+  | "name"
+  | "type"
+  | "location"
+  | "lightRequirement"
+  | "waterFrequencyDays"
+  | "potSizeCm"
+  | "lightLevel"
+  | "notes"
+  | "caretakerId";
+
+// One entry in a plant's audit trail; values are stored as text
+export interface PlantChange {
+  id: string;
+  plantId: string;
+  field: EditablePlantField;
+  oldValue: string | null;
+  newValue: string | null;
+  changedAt: string;
+}
+
+// Care beyond watering, each logged separately and optionally repeated on a per-plant frequency
+export type CareEventKind = "fertilizing" | "repotting" | "pruning" | "misting";
+
+export interface CareEvent {
+  id: string;
+  plantId: string;
+  kind: CareEventKind;
+  performedAt: string;
+  notes: string | null;
+  memberId: string | null;
+}
+
+export interface CareFrequency {
+  plantId: string;
+  kind: CareEventKind;
+  frequencyDays: number;
+  // When the frequency was set; the first due date counts from here if the care was never logged
+  setAt: string;
+}
+
+// A plant that is due (or overdue) for one kind of care
+export interface CareNeed {
+  plant: Plant;
+  kind: CareEventKind;
+  frequencyDays: number;
+  lastPerformedAt: string | null;
+  dueAt: string;
+}
+
+// What happened to one plant in a bulk care action
+export interface BulkCareResult {
+  plantId: string;
+  plantName: string | null;
+  status: "done" | "skipped";
+  // Why a plant was skipped
+  reason: string | null;
+}
+
+// Outcome of watering or caring for several plants in one transaction
+export interface BulkCareSummary {
+  action: "watering" | CareEventKind;
+  performedAt: string;
+  done: number;
+  skipped: number;
+  results: BulkCareResult[];
+}
+
+// Snapshot of the collection that PlantCare publishes to connected clients as agent state
+export interface PlantCollectionState {
+  plants: PlantOverview[];
+  dueCount: number;
+  openIssueCount: number;
+  updatedAt: string | null;
+}
+
+// Payload stored with every reminder schedule so it stays tied to its plant
+export type ReminderKind = "watering" | "custom" | "health-check";
+
+export interface ReminderPayload {
+  plantId: string;
+  kind: ReminderKind;
+  // Text for custom reminders; watering reminders are worded when they fire
+  message?: string;
+  // Health issue a follow-up check-in is about
+  issueId?: string;
+  // Household member the reminder is for; otherwise the plant's caretaker
+  memberId?: string;
+}
+
+export interface PlantReminder {
+  id: string;
+  plantId: string;
+  kind: ReminderKind;
+  message: string | null;
+  issueId: string | null;
+  memberId: string | null;
+  nextRunAt: string;
+  cron: string | null;
+}
+
+// Multi-step care routines run durably by CarePlanWorkflow
+export type CarePlanAction =
+  | "water"
+  | "check"
+  | "fertilize"
+  | "mist"
+  | "prune"
+  | "repot";
+
+export type CarePlanStatus = "running" | "complete" | "errored" | "cancelled";
+
+export interface CarePlanStep {
+  action: CarePlanAction;
+  // Days to wait after the previous step (or the start of the plan)
+  afterDays: number;
+  instructions?: string;
+}
+
+export interface CarePlan {
+  id: string;
+  plantId: string;
+  name: string;
+  steps: CarePlanStep[];
+  completedSteps: number;
+  status: CarePlanStatus;
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
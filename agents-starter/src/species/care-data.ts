@@ -0,0 +1,509 @@
+/**
+ * Bundled species care guide
+ * Each entry is a canonical taxon: `id` is stored on plants and must never
+ * change once shipped; `commonNames` are the aliases it is recognized by.
+ * Bump SPECIES_CARE_VERSION whenever an entry is added or its values change,
+ * so answers can be traced back to the data they came from.
+ */
+import type { SpeciesCare } from "../shared";
+
+export const SPECIES_CARE_VERSION = "2025.2";
+
+export const SPECIES_CARE: SpeciesCare[] = [
+  {
+    id: "epipremnum-aureum",
+    scientificName: "Epipremnum aureum",
+    commonNames: [
+      "pothos",
+      "golden pothos",
+      "devil's ivy",
+      "epipremnum",
+      "money plant"
+    ],
+    watering: {
+      minDays: 7,
+      maxDays: 10,
+      notes:
+        "Water when the top 2-3 cm of soil is dry; leaves droop when thirsty"
+    },
+    light: "bright indirect",
+    humidity: "medium",
+    temperatureC: { min: 15, max: 30 },
+    toxicity: {
+      cats: true,
+      dogs: true,
+      notes: "Calcium oxalate crystals irritate the mouth and stomach"
+    },
+    soil: "Peat- or coir-based potting mix with perlite",
+    tips: [
+      "Tolerates low light but grows slower and loses variegation",
+      "Trim leggy vines to keep it bushy; cuttings root easily in water"
+    ]
+  },
+  {
+    id: "dracaena-trifasciata",
+    scientificName: "Dracaena trifasciata",
+    commonNames: [
+      "snake plant",
+      "mother-in-law's tongue",
+      "sansevieria",
+      "sansevieria trifasciata"
+    ],
+    watering: {
+      minDays: 14,
+      maxDays: 21,
+      notes: "Let the soil dry out completely; water even less in winter"
+    },
+    light: "low to bright indirect",
+    humidity: "low",
+    temperatureC: { min: 13, max: 29 },
+    toxicity: {
+      cats: true,
+      dogs: true,
+      notes: "Saponins cause nausea and vomiting"
+    },
+    soil: "Fast-draining cactus or succulent mix",
+    tips: [
+      "Overwatering and root rot are the most common problems",
+      "Mushy leaf bases mean the soil has stayed wet for too long"
+    ]
+  },
+  {
+    id: "monstera-deliciosa",
+    scientificName: "Monstera deliciosa",
+    commonNames: ["monstera", "swiss cheese plant", "split-leaf philodendron"],
+    watering: {
+      minDays: 7,
+      maxDays: 12,
+      notes: "Water when the top half of the soil is dry"
+    },
+    light: "bright indirect",
+    humidity: "medium",
+    temperatureC: { min: 18, max: 30 },
+    toxicity: {
+      cats: true,
+      dogs: true,
+      notes: "Calcium oxalate crystals irritate the mouth and stomach"
+    },
+    soil: "Chunky aroid mix with bark, perlite and potting soil",
+    tips: [
+      "Give it a moss pole to climb for bigger, more split leaves",
+      "Yellowing lower leaves usually mean overwatering"
+    ]
+  },
+  {
+    id: "zamioculcas-zamiifolia",
+    scientificName: "Zamioculcas zamiifolia",
+    commonNames: ["zz plant", "zanzibar gem", "zz"],
+    watering: {
+      minDays: 14,
+      maxDays: 21,
+      notes: "Stores water in its rhizomes; let the soil dry out fully"
+    },
+    light: "low to bright indirect",
+    humidity: "low",
+    temperatureC: { min: 15, max: 29 },
+    toxicity: {
+      cats: true,
+      dogs: true,
+      notes: "Calcium oxalate crystals irritate the mouth and stomach"
+    },
+    soil: "Well-draining cactus mix",
+    tips: ["Very drought tolerant - forgetting it is safer than overwatering"]
+  },
+  {
+    id: "nephrolepis-exaltata",
+    scientificName: "Nephrolepis exaltata",
+    commonNames: ["boston fern", "sword fern", "nephrolepis"],
+    watering: {
+      minDays: 2,
+      maxDays: 4,
+      notes: "Keep the soil evenly moist but never soggy"
+    },
+    light: "bright indirect",
+    humidity: "high",
+    temperatureC: { min: 16, max: 27 },
+    toxicity: { cats: false, dogs: false, notes: null },
+    soil: "Peat-rich, moisture-retentive potting mix",
+    tips: [
+      "Brown, crispy fronds mean the air is too dry - mist or use a pebble tray",
+      "Keep away from heaters and drafts"
+    ]
+  },
+  {
+    id: "spathiphyllum-wallisii",
+    scientificName: "Spathiphyllum wallisii",
+    commonNames: ["peace lily", "spathiphyllum"],
+    watering: {
+      minDays: 5,
+      maxDays: 7,
+      notes:
+        "Water when the top of the soil is dry; it wilts dramatically when thirsty and recovers fast"
+    },
+    light: "medium indirect",
+    humidity: "high",
+    temperatureC: { min: 18, max: 30 },
+    toxicity: {
+      cats: true,
+      dogs: true,
+      notes: "Calcium oxalate crystals irritate the mouth and stomach"
+    },
+    soil: "Peat-based potting mix",
+    tips: ["Brown leaf tips often come from chlorine or fluoride in tap water"]
+  },
+  {
+    id: "chlorophytum-comosum",
+    scientificName: "Chlorophytum comosum",
+    commonNames: ["spider plant", "airplane plant", "ribbon plant"],
+    watering: {
+      minDays: 7,
+      maxDays: 10,
+      notes: "Water when the top 2-3 cm of soil is dry"
+    },
+    light: "bright indirect",
+    humidity: "medium",
+    temperatureC: { min: 13, max: 27 },
+    toxicity: { cats: false, dogs: false, notes: null },
+    soil: "General-purpose potting mix",
+    tips: ["Plantlets on the runners can be potted up to make new plants"]
+  },
+  {
+    id: "ficus-lyrata",
+    scientificName: "Ficus lyrata",
+    commonNames: ["fiddle leaf fig", "fiddle-leaf fig", "banjo fig"],
+    watering: {
+      minDays: 7,
+      maxDays: 10,
+      notes: "Water thoroughly when the top 5 cm of soil is dry"
+    },
+    light: "bright indirect",
+    humidity: "medium",
+    temperatureC: { min: 16, max: 27 },
+    toxicity: {
+      cats: true,
+      dogs: true,
+      notes: "Sap irritates the skin, mouth and stomach"
+    },
+    soil: "Well-draining potting mix with bark and perlite",
+    tips: [
+      "Dislikes being moved - drops leaves after a change of spot",
+      "Rotate a quarter turn every few weeks for even growth"
+    ]
+  },
+  {
+    id: "ficus-elastica",
+    scientificName: "Ficus elastica",
+    commonNames: ["rubber plant", "rubber tree", "rubber fig"],
+    watering: {
+      minDays: 7,
+      maxDays: 14,
+      notes: "Water when the top half of the soil is dry"
+    },
+    light: "bright indirect",
+    humidity: "medium",
+    temperatureC: { min: 15, max: 29 },
+    toxicity: {
+      cats: true,
+      dogs: true,
+      notes: "Sap irritates the skin, mouth and stomach"
+    },
+    soil: "Well-draining potting mix with bark and perlite",
+    tips: ["Wipe the large leaves with a damp cloth to keep them dust free"]
+  },
+  {
+    id: "aloe-vera",
+    scientificName: "Aloe vera",
+    commonNames: ["aloe", "aloe vera", "aloe barbadensis"],
+    watering: {
+      minDays: 14,
+      maxDays: 21,
+      notes: "Soak, then let the soil dry out completely"
+    },
+    light: "bright direct",
+    humidity: "low",
+    temperatureC: { min: 13, max: 27 },
+    toxicity: {
+      cats: true,
+      dogs: true,
+      notes: "Saponins and anthraquinones cause vomiting and diarrhea"
+    },
+    soil: "Cactus or succulent mix",
+    tips: [
+      "Thin, curling leaves mean it is thirsty; mushy leaves mean too much water"
+    ]
+  },
+  {
+    id: "crassula-ovata",
+    scientificName: "Crassula ovata",
+    commonNames: ["jade plant", "jade", "lucky plant", "money plant"],
+    watering: {
+      minDays: 14,
+      maxDays: 21,
+      notes: "Let the soil dry out completely between waterings"
+    },
+    light: "bright direct",
+    humidity: "low",
+    temperatureC: { min: 10, max: 27 },
+    toxicity: {
+      cats: true,
+      dogs: true,
+      notes: "Causes vomiting and lethargy"
+    },
+    soil: "Cactus or succulent mix",
+    tips: ["Wrinkled leaves mean it needs water"]
+  },
+  {
+    id: "philodendron-hederaceum",
+    scientificName: "Philodendron hederaceum",
+    commonNames: [
+      "heartleaf philodendron",
+      "philodendron",
+      "sweetheart plant",
+      "philodendron brasil"
+    ],
+    watering: {
+      minDays: 7,
+      maxDays: 10,
+      notes: "Water when the top 2-3 cm of soil is dry"
+    },
+    light: "medium to bright indirect",
+    humidity: "medium",
+    temperatureC: { min: 16, max: 29 },
+    toxicity: {
+      cats: true,
+      dogs: true,
+      notes: "Calcium oxalate crystals irritate the mouth and stomach"
+    },
+    soil: "Peat-based potting mix with perlite",
+    tips: ["Pinch back the vines to encourage fuller growth"]
+  },
+  {
+    id: "aglaonema-commutatum",
+    scientificName: "Aglaonema commutatum",
+    commonNames: ["chinese evergreen", "aglaonema"],
+    watering: {
+      minDays: 7,
+      maxDays: 14,
+      notes: "Water when the top half of the soil is dry"
+    },
+    light: "low to medium indirect",
+    humidity: "medium",
+    temperatureC: { min: 18, max: 27 },
+    toxicity: {
+      cats: true,
+      dogs: true,
+      notes: "Calcium oxalate crystals irritate the mouth and stomach"
+    },
+    soil: "Well-draining peat-based potting mix",
+    tips: ["Sensitive to cold drafts below 15°C"]
+  },
+  {
+    id: "goeppertia-orbifolia",
+    scientificName: "Goeppertia orbifolia",
+    commonNames: ["calathea", "calathea orbifolia", "prayer plant orbifolia"],
+    watering: {
+      minDays: 5,
+      maxDays: 7,
+      notes: "Keep the soil lightly moist; use filtered or rain water"
+    },
+    light: "medium indirect",
+    humidity: "high",
+    temperatureC: { min: 18, max: 27 },
+    toxicity: { cats: false, dogs: false, notes: null },
+    soil: "Peat-based mix with perlite",
+    tips: ["Curling leaves mean it is thirsty or the air is too dry"]
+  },
+  {
+    id: "maranta-leuconeura",
+    scientificName: "Maranta leuconeura",
+    commonNames: ["prayer plant", "maranta", "herringbone plant"],
+    watering: {
+      minDays: 5,
+      maxDays: 7,
+      notes: "Keep the soil lightly moist but not soggy"
+    },
+    light: "medium indirect",
+    humidity: "high",
+    temperatureC: { min: 18, max: 27 },
+    toxicity: { cats: false, dogs: false, notes: null },
+    soil: "Peat-based mix with perlite",
+    tips: ["Leaves fold up at night - that is normal"]
+  },
+  {
+    id: "hedera-helix",
+    scientificName: "Hedera helix",
+    commonNames: ["english ivy", "ivy", "common ivy"],
+    watering: {
+      minDays: 5,
+      maxDays: 7,
+      notes: "Water when the surface of the soil is dry"
+    },
+    light: "bright indirect",
+    humidity: "medium",
+    temperatureC: { min: 10, max: 24 },
+    toxicity: {
+      cats: true,
+      dogs: true,
+      notes: "Saponins cause vomiting and diarrhea"
+    },
+    soil: "General-purpose potting mix",
+    tips: ["Prone to spider mites in warm, dry rooms"]
+  },
+  {
+    id: "chamaedorea-elegans",
+    scientificName: "Chamaedorea elegans",
+    commonNames: ["parlor palm", "parlour palm", "neanthe bella palm"],
+    watering: {
+      minDays: 7,
+      maxDays: 10,
+      notes: "Water when the top 2-3 cm of soil is dry"
+    },
+    light: "low to medium indirect",
+    humidity: "medium",
+    temperatureC: { min: 18, max: 27 },
+    toxicity: { cats: false, dogs: false, notes: null },
+    soil: "Peat-based potting mix",
+    tips: ["Brown tips point to dry air or salt build-up from fertilizer"]
+  },
+  {
+    id: "curio-rowleyanus",
+    scientificName: "Curio rowleyanus",
+    commonNames: ["string of pearls", "senecio rowleyanus"],
+    watering: {
+      minDays: 14,
+      maxDays: 21,
+      notes: "Water when the pearls start to look slightly shriveled"
+    },
+    light: "bright indirect",
+    humidity: "low",
+    temperatureC: { min: 15, max: 27 },
+    toxicity: {
+      cats: true,
+      dogs: true,
+      notes: "Causes vomiting, diarrhea and skin irritation"
+    },
+    soil: "Cactus or succulent mix",
+    tips: ["Keep the crown dry - it rots easily"]
+  },
+  {
+    id: "phalaenopsis",
+    scientificName: "Phalaenopsis",
+    commonNames: ["moth orchid", "orchid", "phalaenopsis orchid"],
+    watering: {
+      minDays: 7,
+      maxDays: 10,
+      notes:
+        "Water when the roots turn silvery; never leave it standing in water"
+    },
+    light: "bright indirect",
+    humidity: "medium",
+    temperatureC: { min: 18, max: 29 },
+    toxicity: { cats: false, dogs: false, notes: null },
+    soil: "Orchid bark",
+    tips: ["A slight drop in night temperature helps trigger new flower spikes"]
+  },
+  {
+    id: "dracaena-marginata",
+    scientificName: "Dracaena marginata",
+    commonNames: ["dragon tree", "madagascar dragon tree", "dracaena"],
+    watering: {
+      minDays: 10,
+      maxDays: 14,
+      notes: "Let the top half of the soil dry out"
+    },
+    light: "medium to bright indirect",
+    humidity: "medium",
+    temperatureC: { min: 18, max: 27 },
+    toxicity: {
+      cats: true,
+      dogs: true,
+      notes: "Saponins cause vomiting and drooling"
+    },
+    soil: "Well-draining potting mix",
+    tips: ["Sensitive to fluoride - brown tips may come from tap water"]
+  },
+  {
+    id: "aspidistra-elatior",
+    scientificName: "Aspidistra elatior",
+    commonNames: ["cast iron plant", "aspidistra", "bar room plant"],
+    watering: {
+      minDays: 10,
+      maxDays: 14,
+      notes: "Let the top half of the soil dry out"
+    },
+    light: "low",
+    humidity: "low",
+    temperatureC: { min: 7, max: 29 },
+    toxicity: { cats: false, dogs: false, notes: null },
+    soil: "General-purpose potting mix",
+    tips: ["Copes with dim corners and irregular care"]
+  },
+  {
+    id: "strelitzia-reginae",
+    scientificName: "Strelitzia reginae",
+    commonNames: ["bird of paradise", "crane flower", "strelitzia"],
+    watering: {
+      minDays: 7,
+      maxDays: 10,
+      notes: "Water when the top 5 cm of soil is dry"
+    },
+    light: "bright direct",
+    humidity: "medium",
+    temperatureC: { min: 18, max: 30 },
+    toxicity: {
+      cats: true,
+      dogs: true,
+      notes: "Seeds and flowers cause mild vomiting"
+    },
+    soil: "Rich, well-draining potting mix",
+    tips: ["Split leaves are natural and help it cope with wind"]
+  },
+  {
+    id: "pachira-aquatica",
+    scientificName: "Pachira aquatica",
+    commonNames: ["money tree", "guiana chestnut", "pachira"],
+    watering: {
+      minDays: 7,
+      maxDays: 14,
+      notes: "Water when the top half of the soil is dry"
+    },
+    light: "bright indirect",
+    humidity: "medium",
+    temperatureC: { min: 16, max: 27 },
+    toxicity: { cats: false, dogs: false, notes: null },
+    soil: "Well-draining peat-based mix",
+    tips: ["Yellow leaves usually mean overwatering"]
+  },
+  {
+    id: "streptocarpus-ionanthus",
+    scientificName: "Streptocarpus ionanthus",
+    commonNames: ["african violet", "saintpaulia"],
+    watering: {
+      minDays: 5,
+      maxDays: 7,
+      notes: "Water from below with room-temperature water; keep the leaves dry"
+    },
+    light: "bright indirect",
+    humidity: "medium",
+    temperatureC: { min: 18, max: 27 },
+    toxicity: { cats: false, dogs: false, notes: null },
+    soil: "Light, airy African violet mix",
+    tips: ["Cold water on the leaves leaves pale spots"]
+  },
+  {
+    id: "echeveria",
+    scientificName: "Echeveria",
+    commonNames: ["echeveria", "succulent"],
+    watering: {
+      minDays: 10,
+      maxDays: 14,
+      notes: "Soak, then let the soil dry out completely"
+    },
+    light: "bright direct",
+    humidity: "low",
+    temperatureC: { min: 10, max: 27 },
+    toxicity: { cats: false, dogs: false, notes: null },
+    soil: "Cactus or succulent mix",
+    tips: ["Stretching toward the window means it needs more light"]
+  }
+];
@@ -0,0 +1,117 @@
+/**
+ * Fuzzy lookup in the bundled species care guide
+ * Names are matched on common names and the botanical name, tolerating
+ * punctuation, word order within a longer name and small typos, and are
+ * resolved to a canonical species ID unless several species fit equally well.
+ */
+import { normalizeName, scoreName } from "../fuzzy";
+import type { PlantDetails } from "../schemas";
+import type { SpeciesCare } from "../shared";
+import { SPECIES_CARE } from "./care-data";
+
+// Below this a match is more likely a different plant than a typo
+const MIN_MATCH_SCORE = 0.75;
+// Matches this close to the best one are treated as just as likely
+const AMBIGUITY_MARGIN = 0.05;
+
+export interface SpeciesMatch {
+  species: SpeciesCare;
+  // The common or botanical name that matched
+  matchedName: string;
+  // 1 for an exact match, lower the fuzzier it was
+  score: number;
+}
+
+/**
+ * Rank the species in the care guide by how well they match a name, best first
+ */
+export function searchSpecies(name: string, limit = 3): SpeciesMatch[] {
+  const query = normalizeName(name);
+  if (!query) {
+    return [];
+  }
+
+  return SPECIES_CARE.map((species) => {
+    let best: SpeciesMatch = { species, matchedName: "", score: 0 };
+    for (const candidate of [species.scientificName, ...species.commonNames]) {
+      const score = scoreName(query, normalizeName(candidate));
+      if (score > best.score) {
+        best = { species, matchedName: candidate, score };
+      }
+    }
+    return best;
+  })
+    .filter((match) => match.score >= MIN_MATCH_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * Care guide entry that best matches a plant type, if any matches closely enough
+ */
+export function findSpeciesCare(name: string): SpeciesMatch | null {
+  return searchSpecies(name, 1)[0] ?? null;
+}
+
+export type SpeciesResolution =
+  | { status: "matched"; species: SpeciesCare; matchedName: string }
+  | { status: "ambiguous"; candidates: SpeciesMatch[] }
+  | { status: "unknown" };
+
+/**
+ * Resolve a typed species name to one canonical species. A name that several
+ * species share (e.g. "money plant") is reported as ambiguous with the candidates.
+ */
+export function resolveSpecies(name: string): SpeciesResolution {
+  const matches = searchSpecies(name, 5);
+  if (matches.length === 0) {
+    return { status: "unknown" };
+  }
+
+  const [best] = matches;
+  const candidates = matches.filter(
+    (match) => best.score - match.score <= AMBIGUITY_MARGIN
+  );
+  if (candidates.length > 1) {
+    return { status: "ambiguous", candidates };
+  }
+  return {
+    status: "matched",
+    species: best.species,
+    matchedName: best.matchedName
+  };
+}
+
+/**
+ * Care guide entry for a canonical species ID
+ */
+export function getSpeciesById(id: string): SpeciesCare | null {
+  return SPECIES_CARE.find((species) => species.id === id) ?? null;
+}
+
+/**
+ * Watering interval to start a new plant on: the middle of the species' range
+ */
+export function getDefaultWaterFrequency(species: SpeciesCare) {
+  return Math.round((species.watering.minDays + species.watering.maxDays) / 2);
+}
+
+/**
+ * Fill in the watering frequency and light of a new plant from its species
+ * when the user did not give them
+ */
+export function applySpeciesDefaults(
+  details: PlantDetails,
+  species: SpeciesCare | null
+): PlantDetails {
+  if (!species) {
+    return details;
+  }
+
+  return {
+    ...details,
+    waterFrequencyDays:
+      details.waterFrequencyDays || getDefaultWaterFrequency(species),
+    lightRequirement: details.lightRequirement || species.light
+  };
+}
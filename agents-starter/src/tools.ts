@@ -6,39 +6,222 @@ import { tool, type ToolSet, generateId } from "ai";
 import { z } from "zod/v3";
 
 import type { PlantCare } from "./server";
+import {
+  ARCHIVE_RETENTION_DAYS,
+  INVITATION_TTL_DAYS,
+  type BulkCareSummary,
+  type HouseholdMember,
+  type Plant,
+  type PlantLocation
+} from "./shared";
+import {
+  careEventKindSchema,
+  careEventSchema,
+  careFrequencySchema,
+  careProfileSchema,
+  carePlanSchema,
+  healthIssueSchema,
+  hasPlantSelection,
+  issueIdSchema,
+  locationDetailsSchema,
+  locationReferenceSchema,
+  locationUpdateFieldsSchema,
+  memberReferenceSchema,
+  plantDetailsSchema,
+  plantFiltersSchema,
+  plantReferenceSchema,
+  plantUpdateFieldsSchema,
+  speciesChoiceSchema,
+  type SpeciesChoice,
+  treatmentSchema,
+  wateringSchema
+} from "./schemas";
+import { SPECIES_CARE_VERSION } from "./species/care-data";
+import {
+  findSpeciesCare,
+  getDefaultWaterFrequency,
+  getSpeciesById,
+  resolveSpecies
+} from "./species/lookup";
+import { describeWateringInterval } from "./watering";
+import { normalizeName } from "./fuzzy";
 import { getCurrentAgent } from "agents";
 import { scheduleSchema } from "agents/schedule";
 
+/**
+ * Find the plant a tool call refers to. When the reference matches no plant or
+ * several of them, returns a message telling the assistant what to do instead.
+ */
+function findPlant(reference: string, archived = false): Plant | string {
+  const { agent } = getCurrentAgent<PlantCare>();
+  const resolution = agent!.resolvePlant(reference, archived);
+
+  if (resolution.status === "matched") {
+    return resolution.plant;
+  }
+  if (resolution.status === "ambiguous") {
+    const candidates = resolution.candidates.map(
+      (plant) =>
+        `${plant.name} (${plant.type}${plant.location ? ` in the ${plant.location}` : ""}, ID: ${plant.id})`
+    );
+    return `"${reference}" could be several plants: ${candidates.join("; ")}. Ask the user which one they mean, then call the tool again with that plant's ID.`;
+  }
+  return archived
+    ? `No removed plant matches "${reference}"; it may have been permanently deleted after ${ARCHIVE_RETENTION_DAYS} days. Use listPlants with archived: true to see the plants that can be restored.`
+    : `No plant matches "${reference}". Use listPlants to see all your plants.`;
+}
+
+/**
+ * Find the location a tool call refers to, or a message listing the known ones
+ */
+function findLocation(reference: string): PlantLocation | string {
+  const { agent } = getCurrentAgent<PlantCare>();
+  const location = agent!.resolveLocation(reference);
+  if (location) {
+    return location;
+  }
+
+  const names = agent!.getLocations().map((known) => known.name);
+  return names.length > 0
+    ? `No location matches "${reference}". Known locations: ${names.join(", ")}.`
+    : `No location matches "${reference}" - no locations have been set up yet.`;
+}
+
+/**
+ * Find the household member a tool call refers to, or a message listing the
+ * members
+ */
+function findMember(reference: string): HouseholdMember | string {
+  const { agent } = getCurrentAgent<PlantCare>();
+  const members = agent!.getMembers();
+  const member = members.find(
+    (candidate) =>
+      candidate.id === reference ||
+      normalizeName(candidate.name) === normalizeName(reference)
+  );
+  if (member) {
+    return member;
+  }
+
+  return members.length > 0
+    ? `Nobody called "${reference}" is in the household. Members: ${members.map((known) => known.name).join(", ")}.`
+    : `Nobody has joined the household yet, so there is no "${reference}".`;
+}
+
+/**
+ * Who did something in the history: the member's name, or null when it was not
+ * recorded
+ */
+function describeMember(memberId: string | null) {
+  if (!memberId) {
+    return null;
+  }
+  const { agent } = getCurrentAgent<PlantCare>();
+  return agent!.getMember(memberId)?.name ?? "a former member";
+}
+
+// Bulk tools take plants in the user's words, like the single-plant tools, plus
+// filters
+const bulkSelectionSchema = plantFiltersSchema.extend({
+  plants: z
+    .array(plantReferenceSchema)
+    .optional()
+    .describe("The plants the user named, in their words or by ID")
+});
+
+/**
+ * Turn the plants named in a bulk tool call into IDs, keeping a message for
+ * each one that matches no plant or several. Returns a message instead when the
+ * call selects nothing.
+ */
+function selectPlants({
+  plants: references,
+  ...filters
+}: z.infer<typeof bulkSelectionSchema>) {
+  const plantIds: string[] = [];
+  const unmatched: string[] = [];
+  for (const reference of references ?? []) {
+    const plant = findPlant(reference);
+    if (typeof plant === "string") {
+      unmatched.push(plant);
+    } else {
+      plantIds.push(plant.id);
+    }
+  }
+
+  // None of the named plants were found; the filters alone would select others
+  if (references?.length && plantIds.length === 0) {
+    return unmatched.join("\n");
+  }
+  const selector = {
+    ...filters,
+    plantIds: references?.length ? plantIds : undefined
+  };
+  if (!hasPlantSelection(selector)) {
+    return "Say which plants: name them, or pick them by location, species, due or all.";
+  }
+  return { selector, unmatched };
+}
+
+/**
+ * Describe a bulk care summary plant by plant
+ */
+function formatBulkCareSummary(
+  summary: BulkCareSummary,
+  verb: string,
+  unmatched: string[]
+) {
+  const done = summary.results
+    .filter((result) => result.status === "done")
+    .map((result) => result.plantName);
+  const skipped = summary.results
+    .filter((result) => result.status === "skipped")
+    .map(
+      (result) => `${result.plantName ?? result.plantId} (${result.reason})`
+    );
+
+  const lines = [
+    done.length > 0
+      ? `${verb} ${done.length} plant${done.length === 1 ? "" : "s"}: ${done.join(", ")}.`
+      : `No plants matched, so nothing was recorded.`
+  ];
+  if (skipped.length > 0) {
+    lines.push(`Skipped: ${skipped.join(", ")}.`);
+  }
+  return [...lines, ...unmatched].join("\n");
+}
+
 /**
  * Tool to add a new plant to the collection
  */
 const addPlant = tool({
-  description: "Add a new plant to track. Records plant type, name, location, light needs, and watering schedule.",
-  inputSchema: z.object({
-    name: z.string().describe("The name or nickname for the plant (e.g., 'Fernie the Fern')"),
-    type: z.string().describe("The type/species of plant (e.g., 'Boston Fern', 'Monstera Deliciosa', 'Snake Plant')"),
-    location: z.string().optional().describe("Where the plant is located (e.g., 'living room window', 'bedroom')"),
-    lightRequirement: z.string().optional().describe("Light requirements (e.g., 'bright indirect', 'low light', 'full sun')"),
-    waterFrequencyDays: z.coerce.number().optional().describe("How often to water in days (default: 7)"),
-    notes: z.string().optional().describe("Any additional notes about the plant")
-  }),
-  execute: async ({ name, type, location, lightRequirement, waterFrequencyDays, notes }) => {
+  description:
+    "Add a new plant to track. Records plant type, name, location, light needs, and watering schedule. Leave out the watering frequency and light unless the user gave them - they default to the species care guide.",
+  inputSchema: plantDetailsSchema,
+  execute: async (details) => {
     const { agent } = getCurrentAgent<PlantCare>();
 
     try {
-      const plantId = generateId();
-      agent!.addPlant({
-        id: plantId,
-        name,
-        type,
-        location,
-        lightRequirement,
-        waterFrequencyDays: waterFrequencyDays || 7,
-        notes
-      });
+      const resolution = resolveSpecies(details.type);
+      if (resolution.status === "ambiguous") {
+        const candidates = resolution.candidates.map(
+          ({ species }) =>
+            `${species.id} (${species.scientificName}, also called ${species.commonNames.join(", ")})`
+        );
+        return `"${details.type}" could be several species, so the plant was not added yet: ${candidates.join("; ")}. Call confirmSpecies with the same details and these candidate IDs so the user can pick one.`;
+      }
+
+      const plant = await agent!.addPlant({ id: generateId(), ...details });
+      const species =
+        details.waterFrequencyDays || !plant.speciesId
+          ? null
+          : getSpeciesById(plant.speciesId);
+      const basis = species
+        ? ` (the usual interval for ${species.scientificName} - tell me if yours needs something different)`
+        : "";
 
-      return `Successfully added ${name} (${type}) to your plant collection! Plant ID: ${plantId}.
-I'll remind you to water it every ${waterFrequencyDays || 7} days.`;
+      return `Successfully added ${plant.name} (${plant.type}) to your plant collection! Plant ID: ${plant.id}.
+I'll remind you to water it every ${plant.waterFrequencyDays} days${basis}, counting from each watering.`;
     } catch (error) {
       console.error("Error adding plant:", error);
       return `Error adding plant: ${error}`;
@@ -46,16 +229,44 @@ I'll remind you to water it every ${waterFrequencyDays || 7} days.`;
   }
 });
 
+/**
+ * Tool to ask which species an ambiguous plant type means
+ * This tool requires human confirmation - the user picks a species in the UI
+ * and the plant is added
+ */
+const confirmSpecies = tool({
+  description:
+    "Ask the user which species they mean when addPlant reports that the plant type is ambiguous. The user picks one of the candidates (or none of them) and the plant is then added. Pass the same plant details you gave addPlant.",
+  inputSchema: speciesChoiceSchema
+  // Omitting execute function makes this tool require human confirmation
+});
+
 /**
  * Tool to list all plants in the collection
  */
 const listPlants = tool({
-  description: "List all plants in the collection with their details and status",
-  inputSchema: z.object({}),
-  execute: async () => {
+  description:
+    "List all plants in the collection with their details and status",
+  inputSchema: z.object({
+    archived: z
+      .boolean()
+      .optional()
+      .describe(
+        "List removed plants that can still be restored instead of the active collection (default: false)"
+      )
+  }),
+  execute: async ({ archived }) => {
     const { agent } = getCurrentAgent<PlantCare>();
 
     try {
+      if (archived) {
+        const archivedPlants = agent!.getArchivedPlants();
+        if (!archivedPlants || archivedPlants.length === 0) {
+          return "There are no removed plants waiting to be restored.";
+        }
+        return archivedPlants;
+      }
+
       const plants = agent!.getPlants();
 
       if (!plants || plants.length === 0) {
@@ -71,27 +282,249 @@ const listPlants = tool({
 });
 
 /**
- * Tool to remove a plant from the collection
+ * Tool to list the rooms plants stand in
  */
-const removePlant = tool({
-  description: "Remove a plant from the collection. This will delete the plant and all its associated watering history and health issues.",
+const listLocations = tool({
+  description:
+    "List the rooms and spots plants stand in, with their light, window direction, humidity, temperature and plants",
+  inputSchema: z.object({}),
+  execute: async () => {
+    const { agent } = getCurrentAgent<PlantCare>();
+
+    try {
+      const locations = agent!.getLocations();
+      if (locations.length === 0) {
+        return "No locations have been set up yet. Use addLocation, or give a plant a location and it is added automatically.";
+      }
+
+      const plants = agent!.getPlants();
+      return locations.map((location) => ({
+        ...location,
+        plants: plants
+          .filter((plant) => plant.locationId === location.id)
+          .map((plant) => plant.name)
+      }));
+    } catch (error) {
+      console.error("Error listing locations:", error);
+      return `Error listing locations: ${error}`;
+    }
+  }
+});
+
+/**
+ * Tool to add a room with its light and climate
+ */
+const addLocation = tool({
+  description:
+    "Add a room or spot with its light, window direction, humidity and temperature. Plants in it are watered for its climate instead of the home's.",
+  inputSchema: locationDetailsSchema,
+  execute: async (details) => {
+    const { agent } = getCurrentAgent<PlantCare>();
+
+    try {
+      const location = agent!.addLocation(details);
+      if (!location) {
+        return `There is already a location called "${details.name}". Use updateLocation to change it.`;
+      }
+      return `Added ${location.name}. Use movePlants to put plants there.`;
+    } catch (error) {
+      console.error("Error adding location:", error);
+      return `Error adding location: ${error}`;
+    }
+  }
+});
+
+/**
+ * Tool to rename a room or change its light and climate
+ */
+const updateLocation = tool({
+  description:
+    "Rename a room or change its light, window direction, humidity or temperature. Only pass the fields that change; watering reminders for its plants are adjusted automatically.",
+  inputSchema: locationUpdateFieldsSchema.extend({
+    location: locationReferenceSchema
+  }),
+  execute: async ({ location: reference, ...update }) => {
+    const { agent } = getCurrentAgent<PlantCare>();
+
+    try {
+      const location = findLocation(reference);
+      if (typeof location === "string") {
+        return location;
+      }
+      if (Object.values(update).every((value) => value === undefined)) {
+        return `Nothing to change for ${location.name}.`;
+      }
+      if (
+        update.name !== undefined &&
+        agent!.isLocationNameTaken(update.name, location.id)
+      ) {
+        return `There is already a location called "${update.name}". Move its plants with movePlants instead.`;
+      }
+
+      const updated = await agent!.updateLocation(location.id, update);
+      return updated
+        ? `Updated ${updated.name}.`
+        : `Location ${location.name} not found.`;
+    } catch (error) {
+      console.error("Error updating location:", error);
+      return `Error updating location: ${error}`;
+    }
+  }
+});
+
+/**
+ * Tool to move plants to another room
+ */
+const movePlants = tool({
+  description:
+    "Move one or more plants to another room or spot. A location that does not exist yet is added. Each move is kept in the plant's history and its watering adapts to the new room.",
   inputSchema: z.object({
-    plantId: z.string().describe("The ID of the plant to remove")
+    plants: z
+      .array(plantReferenceSchema)
+      .min(1)
+      .describe("The plants to move, in the user's words or by ID"),
+    to: locationReferenceSchema.describe(
+      "Where the plants are going (e.g., 'bedroom')"
+    )
   }),
-  execute: async ({ plantId }) => {
+  execute: async ({ plants: references, to }) => {
     const { agent } = getCurrentAgent<PlantCare>();
 
     try {
-      const removedPlant = agent!.removePlant(plantId);
+      const lines: string[] = [];
+      const moved: string[] = [];
+      for (const reference of references) {
+        const plant = findPlant(reference);
+        if (typeof plant === "string") {
+          lines.push(plant);
+          continue;
+        }
 
-      if (!removedPlant) {
-        return `Plant with ID ${plantId} not found. Use listPlants to see all your plants.`;
+        const result = await agent!.updatePlant(plant.id, { location: to });
+        if (result?.changes.length) {
+          moved.push(plant.name);
+        } else {
+          lines.push(
+            `${plant.name} is already in the ${result?.plant.location ?? to}.`
+          );
+        }
       }
 
-      return `Successfully removed ${removedPlant.name} from your collection. All watering history and health records for this plant have been deleted.`;
+      const location = agent!.resolveLocation(to);
+      if (moved.length > 0) {
+        lines.unshift(
+          `Moved ${moved.join(", ")} to the ${location?.name ?? to}.`
+        );
+      }
+      return lines.join("\n");
     } catch (error) {
-      console.error("Error removing plant:", error);
-      return `Error removing plant: ${error}`;
+      console.error("Error moving plants:", error);
+      return `Error moving plants: ${error}`;
+    }
+  }
+});
+
+/**
+ * Tool to edit a plant's profile without losing its history
+ */
+const updatePlant = tool({
+  description:
+    "Update a plant's name, type, location, light requirements, light level, pot size, watering frequency or notes. Only pass the fields that change; the plant keeps its history and its watering reminder is adjusted automatically.",
+  inputSchema: plantUpdateFieldsSchema.omit({ caretakerId: true }).extend({
+    plant: plantReferenceSchema
+  }),
+  execute: async ({ plant: reference, ...update }) => {
+    const { agent } = getCurrentAgent<PlantCare>();
+
+    try {
+      const plant = findPlant(reference);
+      if (typeof plant === "string") {
+        return plant;
+      }
+
+      const result = (await agent!.updatePlant(plant.id, update))!;
+      if (result.changes.length === 0) {
+        return `${result.plant.name} already has those details, nothing changed.`;
+      }
+
+      const changed = result.changes
+        .map(
+          (change) =>
+            `${change.field}: ${change.oldValue ?? "(none)"} -> ${change.newValue ?? "(none)"}`
+        )
+        .join("\n");
+      return `Updated ${result.plant.name}:\n${changed}`;
+    } catch (error) {
+      console.error("Error updating plant:", error);
+      return `Error updating plant: ${error}`;
+    }
+  }
+});
+
+/**
+ * Tool to find the plant to remove from the collection, so the user confirms
+ * removing that exact plant with confirmPlantRemoval
+ */
+const removePlant = tool({
+  description: `Remove a plant from the collection. This only finds the plant; the user then confirms with confirmPlantRemoval. The plant is archived and can be restored with restorePlant for ${ARCHIVE_RETENTION_DAYS} days, after which it is deleted with all its history.`,
+  inputSchema: z.object({
+    plant: plantReferenceSchema
+  }),
+  execute: async ({ plant: reference }) => {
+    try {
+      const plant = findPlant(reference);
+      if (typeof plant === "string") {
+        return plant;
+      }
+
+      return `Found ${plant.name} (${plant.type}${plant.location ? ` in the ${plant.location}` : ""}). Call confirmPlantRemoval with plantId "${plant.id}" and name "${plant.name}" so the user can confirm removing it.`;
+    } catch (error) {
+      console.error("Error finding plant to remove:", error);
+      return `Error finding plant to remove: ${error}`;
+    }
+  }
+});
+
+/**
+ * Tool to remove a plant that removePlant found
+ * This tool requires human confirmation - the plant is archived once approved
+ */
+const confirmPlantRemoval = tool({
+  description:
+    "Ask the user to confirm removing the plant that removePlant found. Pass the plant ID and name removePlant gave you.",
+  inputSchema: z.object({
+    plantId: z.string().describe("ID of the plant, as given by removePlant"),
+    name: z.string().describe("Name of the plant, shown to the user")
+  })
+  // Omitting execute function makes this tool require human confirmation
+});
+
+/**
+ * Tool to restore a removed plant
+ */
+const restorePlant = tool({
+  description:
+    "Restore a previously removed plant, along with its watering history and health records",
+  inputSchema: z.object({
+    plant: plantReferenceSchema.describe(
+      "The removed plant: its name, species, where it stood, or its ID (use listPlants with archived: true to find it)"
+    )
+  }),
+  execute: async ({ plant: reference }) => {
+    const { agent } = getCurrentAgent<PlantCare>();
+
+    try {
+      const plant = findPlant(reference, true);
+      if (typeof plant === "string") {
+        return plant;
+      }
+
+      const restoredPlant = (await agent!.restorePlant(plant.id))!;
+
+      return `Welcome back, ${restoredPlant.name}! The plant has been restored with all of its watering history and health records.`;
+    } catch (error) {
+      console.error("Error restoring plant:", error);
+      return `Error restoring plant: ${error}`;
     }
   }
 });
@@ -100,22 +533,31 @@ const removePlant = tool({
  * Tool to record watering a plant
  */
 const waterPlant = tool({
-  description: "Record that a plant was watered. Updates the plant's watering history and last watered date.",
-  inputSchema: z.object({
-    plantId: z.string().describe("The ID of the plant that was watered"),
-    notes: z.string().optional().describe("Optional notes about the watering (e.g., 'gave extra water', 'added fertilizer')")
+  description:
+    "Record that a plant was watered. Updates the plant's watering history and last watered date.",
+  inputSchema: wateringSchema.omit({ plantId: true }).extend({
+    plant: plantReferenceSchema
   }),
-  execute: async ({ plantId, notes }) => {
+  execute: async ({ plant: reference, notes }) => {
     const { agent } = getCurrentAgent<PlantCare>();
 
     try {
-      const plant = agent!.getPlant(plantId);
-      if (!plant) {
-        return `Plant with ID ${plantId} not found. Use listPlants to see all your plants.`;
+      const plant = findPlant(reference);
+      if (typeof plant === "string") {
+        return plant;
       }
 
-      const result = agent!.waterPlant(plantId, notes);
-      return `Recorded watering for ${plant.name}! Last watered: ${new Date(result.wateredAt).toLocaleString()}`;
+      const result = await agent!.waterPlant(plant.id, notes);
+      const recorded = `Recorded watering for ${plant.name}! Last watered: ${new Date(result.wateredAt).toLocaleString()}`;
+      if (!result.suggestion) {
+        return recorded;
+      }
+
+      const { currentFrequencyDays, suggestedFrequencyDays, reason } =
+        result.suggestion;
+      return result.frequencyChanged
+        ? `${recorded}\nWatering frequency changed from every ${currentFrequencyDays} to every ${suggestedFrequencyDays} days to match the history (${reason}).`
+        : `${recorded}\nThe watering history suggests every ${suggestedFrequencyDays} days instead of ${currentFrequencyDays} (${reason}). Ask the user whether to switch with applyWateringSuggestion.`;
     } catch (error) {
       console.error("Error recording watering:", error);
       return `Error recording watering: ${error}`;
@@ -123,23 +565,70 @@ const waterPlant = tool({
   }
 });
 
+/**
+ * Tool to water several plants in one go
+ */
+const waterPlants = tool({
+  description:
+    "Record that several plants were watered at once, e.g. everything in the living room, all the ferns or every plant that is due. Use this instead of calling waterPlant for each plant.",
+  inputSchema: bulkSelectionSchema.extend({
+    notes: wateringSchema.shape.notes
+  }),
+  execute: async ({ notes, ...selection }) => {
+    const { agent } = getCurrentAgent<PlantCare>();
+
+    try {
+      const selected = selectPlants(selection);
+      if (typeof selected === "string") {
+        return selected;
+      }
+
+      const summary = await agent!.waterPlants({ ...selected.selector, notes });
+      return formatBulkCareSummary(
+        summary,
+        "Recorded watering for",
+        selected.unmatched
+      );
+    } catch (error) {
+      console.error("Error recording waterings:", error);
+      return `Error recording waterings: ${error}`;
+    }
+  }
+});
+
 /**
  * Tool to check which plants need watering
  */
 const checkWateringNeeds = tool({
-  description: "Check which plants need watering based on their watering schedules",
-  inputSchema: z.object({}),
-  execute: async () => {
+  description:
+    "Check which plants need watering based on their watering schedules, in the whole collection or in one room",
+  inputSchema: z.object({
+    location: locationReferenceSchema
+      .optional()
+      .describe("Only check plants in this room (e.g., 'bedroom')")
+  }),
+  execute: async ({ location: reference }) => {
     const { agent } = getCurrentAgent<PlantCare>();
 
     try {
-      const plantsNeedingWater = agent!.getPlantsNeedingWater();
+      const location = reference ? findLocation(reference) : null;
+      if (typeof location === "string") {
+        return location;
+      }
+      const plantsNeedingWater = agent!.getPlantsNeedingWater(location?.id);
 
       if (!plantsNeedingWater || plantsNeedingWater.length === 0) {
-        return "Great news! All your plants are well-watered. No plants need watering right now.";
+        return location
+          ? `No plants in the ${location.name} need watering right now.`
+          : "Great news! All your plants are well-watered. No plants need watering right now.";
       }
 
-      return plantsNeedingWater;
+      // Spell out adjusted intervals so the user can be told why a plant is due
+      // early or late
+      return plantsNeedingWater.map((plant) => ({
+        ...plant,
+        intervalAdjustment: describeWateringInterval(plant) || null
+      }));
     } catch (error) {
       console.error("Error checking watering needs:", error);
       return `Error checking watering needs: ${error}`;
@@ -147,31 +636,155 @@ const checkWateringNeeds = tool({
   }
 });
 
+/**
+ * Tool to learn watering habits from the history
+ */
+const analyzeWateringPatterns = tool({
+  description:
+    "Analyze the watering history: actual intervals between waterings, how regular they are, overdue streaks, and a suggested watering frequency when the schedule does not match how the plant is really watered",
+  inputSchema: z.object({
+    plant: plantReferenceSchema
+      .optional()
+      .describe(
+        "Analyze one plant, by name, species, location or ID (default: every plant)"
+      )
+  }),
+  execute: async ({ plant: reference }) => {
+    const { agent } = getCurrentAgent<PlantCare>();
+
+    try {
+      if (!reference) {
+        return agent!.analyzeWateringPatterns();
+      }
+
+      const plant = findPlant(reference);
+      if (typeof plant === "string") {
+        return plant;
+      }
+      return agent!.analyzeWateringPattern(plant.id);
+    } catch (error) {
+      console.error("Error analyzing watering patterns:", error);
+      return `Error analyzing watering patterns: ${error}`;
+    }
+  }
+});
+
+/**
+ * Tool to switch a plant to the frequency learned from its history
+ */
+const applyWateringSuggestion = tool({
+  description:
+    "Change a plant's watering frequency to the one suggested by analyzeWateringPatterns. Only use it after the user agrees to the change.",
+  inputSchema: z.object({
+    plant: plantReferenceSchema
+  }),
+  execute: async ({ plant: reference }) => {
+    const { agent } = getCurrentAgent<PlantCare>();
+
+    try {
+      const plant = findPlant(reference);
+      if (typeof plant === "string") {
+        return plant;
+      }
+
+      const result = await agent!.applyWateringSuggestion(plant.id);
+      if (!result) {
+        return `There is no suggested watering frequency for ${plant.name}. Use analyzeWateringPatterns to see why.`;
+      }
+
+      const { suggestion } = result;
+      return `${plant.name} is now watered every ${suggestion.suggestedFrequencyDays} days instead of ${suggestion.currentFrequencyDays}, and its reminder has moved.`;
+    } catch (error) {
+      console.error("Error applying watering suggestion:", error);
+      return `Error applying watering suggestion: ${error}`;
+    }
+  }
+});
+
+/**
+ * Tool to record where the user lives and what their home is like
+ */
+const updateCareProfile = tool({
+  description:
+    "Save the user's hemisphere, location and indoor climate, and whether watering frequencies learned from the history are applied automatically. Watering intervals are adjusted for the season and the home, and every watering reminder moves to match. Only pass the fields that change.",
+  inputSchema: careProfileSchema,
+  execute: async (update) => {
+    const { agent } = getCurrentAgent<PlantCare>();
+
+    try {
+      const profile = await agent!.updateCareProfile(update);
+      const adjusted = agent!
+        .getScheduledPlants()
+        .map((plant) => {
+          const adjustment = describeWateringInterval(plant);
+          return adjustment ? `${plant.name}: ${adjustment}` : null;
+        })
+        .filter(Boolean);
+
+      return {
+        profile,
+        adjustedPlants:
+          adjusted.length > 0
+            ? adjusted
+            : "Every plant is watered on its base frequency."
+      };
+    } catch (error) {
+      console.error("Error updating care profile:", error);
+      return `Error updating care profile: ${error}`;
+    }
+  }
+});
+
+/**
+ * Tool to read the user's care profile
+ */
+const getCareProfile = tool({
+  description:
+    "Get the user's hemisphere, location and indoor climate used to adjust watering intervals",
+  inputSchema: z.object({}),
+  execute: async () => {
+    const { agent } = getCurrentAgent<PlantCare>();
+
+    try {
+      return agent!.getCareProfile();
+    } catch (error) {
+      console.error("Error getting care profile:", error);
+      return `Error getting care profile: ${error}`;
+    }
+  }
+});
+
 /**
  * Tool to get watering history for a plant
  */
 const getWateringHistory = tool({
   description: "Get the watering history for a specific plant",
   inputSchema: z.object({
-    plantId: z.string().describe("The ID of the plant"),
-    limit: z.number().optional().describe("Number of recent watering events to retrieve (default: 10)")
+    plant: plantReferenceSchema,
+    limit: z
+      .number()
+      .optional()
+      .describe("Number of recent watering events to retrieve (default: 10)")
   }),
-  execute: async ({ plantId, limit }) => {
+  execute: async ({ plant: reference, limit }) => {
     const { agent } = getCurrentAgent<PlantCare>();
 
     try {
-      const plant = agent!.getPlant(plantId);
-      if (!plant) {
-        return `Plant with ID ${plantId} not found.`;
+      const plant = findPlant(reference);
+      if (typeof plant === "string") {
+        return plant;
       }
 
-      const history = agent!.getWateringHistory(plantId, limit || 10);
+      const history = agent!.getWateringHistory(plant.id, limit || 10);
 
       if (!history || history.length === 0) {
         return `${plant.name} hasn't been watered yet according to our records.`;
       }
 
-      return history;
+      return history.map(({ memberId, ...event }) => ({
+        ...event,
+        wateredBy: describeMember(memberId)
+      }));
     } catch (error) {
       console.error("Error getting watering history:", error);
       return `Error getting watering history: ${error}`;
@@ -179,29 +792,240 @@ const getWateringHistory = tool({
   }
 });
 
+/**
+ * Tool to record care other than watering
+ */
+const logCareEvent = tool({
+  description:
+    "Record that a plant was fertilized, repotted, pruned or misted. Use this instead of watering notes for anything other than water.",
+  inputSchema: careEventSchema.omit({ plantId: true }).extend({
+    plant: plantReferenceSchema
+  }),
+  execute: async ({ plant: reference, ...input }) => {
+    const { agent } = getCurrentAgent<PlantCare>();
+
+    try {
+      const plant = findPlant(reference);
+      if (typeof plant === "string") {
+        return plant;
+      }
+
+      const event = agent!.logCareEvent({ ...input, plantId: plant.id });
+      const frequency = agent!
+        .getCareFrequencies(plant.id)
+        .find((entry) => entry.kind === event.kind);
+      const next = frequency
+        ? ` Next ${event.kind} is due in ${frequency.frequencyDays} days.`
+        : "";
+      return `Logged ${event.kind} for ${plant.name} at ${new Date(event.performedAt).toLocaleString()}.${next}`;
+    } catch (error) {
+      console.error("Error logging care event:", error);
+      return `Error logging care event: ${error}`;
+    }
+  }
+});
+
+/**
+ * Tool to log the same care for several plants in one go
+ */
+const logCareForPlants = tool({
+  description:
+    "Record that several plants were fertilized, repotted, pruned or misted at once, e.g. every plant in the bedroom or all plants due for fertilizing",
+  inputSchema: bulkSelectionSchema.extend({
+    kind: careEventKindSchema,
+    notes: careEventSchema.shape.notes
+  }),
+  execute: async ({ kind, notes, ...selection }) => {
+    const { agent } = getCurrentAgent<PlantCare>();
+
+    try {
+      const selected = selectPlants(selection);
+      if (typeof selected === "string") {
+        return selected;
+      }
+
+      const summary = agent!.logCareEvents({
+        ...selected.selector,
+        kind,
+        notes
+      });
+      return formatBulkCareSummary(
+        summary,
+        `Logged ${kind} for`,
+        selected.unmatched
+      );
+    } catch (error) {
+      console.error("Error logging care events:", error);
+      return `Error logging care events: ${error}`;
+    }
+  }
+});
+
+/**
+ * Tool to set how often a plant needs fertilizing, repotting, pruning or
+ * misting
+ */
+const setCareFrequency = tool({
+  description:
+    "Set how often a plant needs fertilizing, repotting, pruning or misting, or stop tracking one of them",
+  inputSchema: careFrequencySchema.omit({ plantId: true }).extend({
+    plant: plantReferenceSchema
+  }),
+  execute: async ({ plant: reference, ...input }) => {
+    const { agent } = getCurrentAgent<PlantCare>();
+
+    try {
+      const plant = findPlant(reference);
+      if (typeof plant === "string") {
+        return plant;
+      }
+
+      agent!.setCareFrequency({ ...input, plantId: plant.id });
+      return input.frequencyDays === null
+        ? `Stopped tracking ${input.kind} for ${plant.name}.`
+        : `${plant.name} will need ${input.kind} every ${input.frequencyDays} days.`;
+    } catch (error) {
+      console.error("Error setting care frequency:", error);
+      return `Error setting care frequency: ${error}`;
+    }
+  }
+});
+
+/**
+ * Tool to check which plants are due for care other than watering
+ */
+const checkCareNeeds = tool({
+  description:
+    "Check which plants are due for fertilizing, repotting, pruning or misting based on the frequencies set for them",
+  inputSchema: z.object({
+    kind: careEventKindSchema
+      .optional()
+      .describe("Only check this kind of care (default: all kinds)"),
+    location: locationReferenceSchema
+      .optional()
+      .describe("Only check plants in this room (e.g., 'bedroom')")
+  }),
+  execute: async ({ kind, location: reference }) => {
+    const { agent } = getCurrentAgent<PlantCare>();
+
+    try {
+      const location = reference ? findLocation(reference) : null;
+      if (typeof location === "string") {
+        return location;
+      }
+      const needs = agent!.getPlantsNeedingCare(kind, location?.id);
+      if (needs.length === 0) {
+        const where = location ? ` in the ${location.name}` : "";
+        return kind
+          ? `No plants${where} need ${kind} right now.`
+          : `No plants${where} are due for fertilizing, repotting, pruning or misting right now.`;
+      }
+
+      return needs.map((need) => ({
+        plantId: need.plant.id,
+        plantName: need.plant.name,
+        kind: need.kind,
+        frequencyDays: need.frequencyDays,
+        lastPerformedAt: need.lastPerformedAt,
+        dueAt: need.dueAt
+      }));
+    } catch (error) {
+      console.error("Error checking care needs:", error);
+      return `Error checking care needs: ${error}`;
+    }
+  }
+});
+
+/**
+ * Tool to view fertilizing, repotting, pruning and misting history
+ */
+const getCareHistory = tool({
+  description:
+    "Get the fertilizing, repotting, pruning and misting history for a specific plant",
+  inputSchema: z.object({
+    plant: plantReferenceSchema,
+    kind: careEventKindSchema
+      .optional()
+      .describe("Only show this kind of care (default: all kinds)"),
+    limit: z
+      .number()
+      .optional()
+      .describe("Number of recent care events to retrieve (default: 10)")
+  }),
+  execute: async ({ plant: reference, kind, limit }) => {
+    const { agent } = getCurrentAgent<PlantCare>();
+
+    try {
+      const plant = findPlant(reference);
+      if (typeof plant === "string") {
+        return plant;
+      }
+
+      const history = agent!.getCareHistory(plant.id, kind, limit || 10);
+      if (history.length === 0) {
+        return `No ${kind ?? "care"} has been logged for ${plant.name} yet.`;
+      }
+
+      return history.map(({ memberId, ...event }) => ({
+        ...event,
+        performedBy: describeMember(memberId)
+      }));
+    } catch (error) {
+      console.error("Error getting care history:", error);
+      return `Error getting care history: ${error}`;
+    }
+  }
+});
+
 /**
  * Tool to diagnose plant health issues
  * This tool uses AI to analyze symptoms and provide diagnosis
  */
 const diagnosePlantIssue = tool({
-  description: "Diagnose a plant health issue based on symptoms. Use this when user describes problems like browning leaves, wilting, spots, etc.",
+  description:
+    "Record and diagnose a plant health issue based on symptoms and any attached photos. Use this when user describes problems like browning leaves, wilting, spots, etc. Returns likely causes with confidence, recommended actions and urgency, taking the plant's light, location, recent watering and what is visible in the photos into account.",
   inputSchema: z.object({
-    plantId: z.string().describe("The ID of the plant with the issue"),
-    symptoms: z.string().describe("Detailed description of the symptoms (e.g., 'leaves turning brown at the edges', 'yellow spots on leaves', 'wilting despite watering')")
+    plant: plantReferenceSchema,
+    symptoms: healthIssueSchema.shape.issueDescription,
+    photoIds: z
+      .array(z.string())
+      .optional()
+      .describe("IDs of photos the user attached that show the problem")
   }),
-  execute: async ({ plantId, symptoms }) => {
+  execute: async ({ plant: reference, symptoms, photoIds = [] }) => {
     const { agent } = getCurrentAgent<PlantCare>();
 
     try {
-      const plant = agent!.getPlant(plantId);
-      if (!plant) {
-        return `Plant with ID ${plantId} not found.`;
+      const plant = findPlant(reference);
+      if (typeof plant === "string") {
+        return plant;
+      }
+
+      const { issueId } = agent!.recordHealthIssue(plant.id, symptoms);
+      for (const photoId of photoIds) {
+        if (!agent!.attachPhoto(photoId, plant.id, issueId)) {
+          console.warn(
+            `Photo ${photoId} not found for health issue ${issueId}`
+          );
+        }
       }
 
-      // Record the health issue - AI will provide diagnosis in its response
-      agent!.recordHealthIssue(plantId, symptoms);
+      try {
+        const issue = await agent!.diagnoseHealthIssue(issueId);
+        if (issue?.diagnosisDetails) {
+          return {
+            issueId,
+            plant: plant.name,
+            symptoms,
+            ...issue.diagnosisDetails
+          };
+        }
+      } catch (error) {
+        // Keep the recorded issue and let the assistant diagnose it in chat
+        console.error("Error generating structured diagnosis:", error);
+      }
 
-      return `I've recorded this health issue for ${plant.name}. Based on the symptoms "${symptoms}", I'll analyze the problem and provide recommendations. This could be related to watering, light, humidity, pests, or nutrients.`;
+      return `I've recorded this health issue for ${plant.name} (issue ID: ${issueId}), but couldn't run a full diagnosis. Based on the symptoms "${symptoms}", analyze the problem (watering, light, humidity, pests, or nutrients) and save your diagnosis with updateDiagnosis.`;
     } catch (error) {
       console.error("Error diagnosing plant issue:", error);
       return `Error diagnosing plant issue: ${error}`;
@@ -211,23 +1035,30 @@ const diagnosePlantIssue = tool({
 
 /**
  * Tool to view health issues for a plant
-*/
+ */
 const viewHealthIssues = tool({
-  description: "View recorded health issues for a plant",
+  description:
+    "View recorded health issues for a plant with their lifecycle: status (reported, diagnosed, treating, resolved), diagnosis, treatment steps and the next follow-up check-in",
   inputSchema: z.object({
-    plantId: z.string().describe("The ID of the plant"),
-    includeResolved: z.boolean().optional().describe("Whether to include resolved issues (default: false)")
+    plant: plantReferenceSchema,
+    includeResolved: z
+      .boolean()
+      .optional()
+      .describe("Whether to include resolved issues (default: false)")
   }),
-  execute: async ({ plantId, includeResolved }) => {
+  execute: async ({ plant: reference, includeResolved }) => {
     const { agent } = getCurrentAgent<PlantCare>();
 
     try {
-      const plant = agent!.getPlant(plantId);
-      if (!plant) {
-        return `Plant with ID ${plantId} not found.`;
+      const plant = findPlant(reference);
+      if (typeof plant === "string") {
+        return plant;
       }
 
-      const issues = agent!.getHealthIssues(plantId, includeResolved || false);
+      const issues = agent!.getHealthIssueLifecycle(
+        plant.id,
+        includeResolved || false
+      );
 
       if (!issues || issues.length === 0) {
         return `No health issues recorded for ${plant.name}. That's great!`;
@@ -241,35 +1072,253 @@ const viewHealthIssues = tool({
   }
 });
 
+/**
+ * Tool to record the diagnosis for a health issue
+ */
+const updateDiagnosis = tool({
+  description:
+    "Record or replace the diagnosis for a health issue once the likely cause is known",
+  inputSchema: z.object({
+    issueId: issueIdSchema,
+    diagnosis: z
+      .string()
+      .min(1)
+      .describe("The likely cause (e.g., 'overwatering leading to root rot')")
+  }),
+  execute: async ({ issueId, diagnosis }) => {
+    const { agent } = getCurrentAgent<PlantCare>();
+
+    try {
+      const issue = agent!.updateDiagnosis(issueId, diagnosis);
+      if (!issue) {
+        return `Health issue ${issueId} not found. Use viewHealthIssues to find it.`;
+      }
+      return `Saved the diagnosis for "${issue.issueDescription}": ${diagnosis}`;
+    } catch (error) {
+      console.error("Error updating diagnosis:", error);
+      return `Error updating diagnosis: ${error}`;
+    }
+  }
+});
+
+/**
+ * Tool to record treatment steps for a health issue and schedule a follow-up
+ */
+const recommendTreatment = tool({
+  description:
+    "Record the treatment steps recommended for a health issue. A follow-up check-in is scheduled automatically to see how the plant is doing.",
+  inputSchema: treatmentSchema,
+  execute: async (input) => {
+    const { agent } = getCurrentAgent<PlantCare>();
+
+    try {
+      const result = await agent!.recommendTreatment(input);
+      if (!result) {
+        return `No open health issue with ID ${input.issueId}. Use viewHealthIssues to find it.`;
+      }
+
+      const steps = result.treatmentSteps
+        .map(
+          (step) =>
+            `${step.position}. ${step.description} (step ID: ${step.id})`
+        )
+        .join("\n");
+      return `Treatment plan for "${result.issue.issueDescription}":\n${steps}\nI'll check in on ${new Date(result.followUpAt).toLocaleDateString()}.`;
+    } catch (error) {
+      console.error("Error recommending treatment:", error);
+      return `Error recommending treatment: ${error}`;
+    }
+  }
+});
+
+/**
+ * Tool to tick off a treatment step
+ */
+const completeTreatmentStep = tool({
+  description: "Mark a treatment step as done",
+  inputSchema: z.object({
+    stepId: z.string().min(1).describe("The ID of the treatment step")
+  }),
+  execute: async ({ stepId }) => {
+    const { agent } = getCurrentAgent<PlantCare>();
+
+    try {
+      const step = agent!.completeTreatmentStep(stepId);
+      if (!step) {
+        return `Treatment step ${stepId} not found. Use viewHealthIssues to see the treatment steps.`;
+      }
+      return `Marked "${step.description}" as done.`;
+    } catch (error) {
+      console.error("Error completing treatment step:", error);
+      return `Error completing treatment step: ${error}`;
+    }
+  }
+});
+
+/**
+ * Tool to close a health issue once the plant has recovered
+ */
+const resolveHealthIssue = tool({
+  description:
+    "Mark a health issue as resolved once the plant has recovered. Cancels any pending check-ins for it.",
+  inputSchema: z.object({
+    issueId: issueIdSchema,
+    resolution: z
+      .string()
+      .optional()
+      .describe(
+        "What fixed it (e.g., 'repotted in fresh soil, new growth looks healthy')"
+      )
+  }),
+  execute: async ({ issueId, resolution }) => {
+    const { agent } = getCurrentAgent<PlantCare>();
+
+    try {
+      const issue = await agent!.resolveHealthIssue(issueId, resolution);
+      if (!issue) {
+        return `Health issue ${issueId} not found. Use viewHealthIssues to find it.`;
+      }
+      return `Resolved "${issue.issueDescription}". Glad your plant is doing better!`;
+    } catch (error) {
+      console.error("Error resolving health issue:", error);
+      return `Error resolving health issue: ${error}`;
+    }
+  }
+});
+
+/**
+ * Tool to file a photo from the chat under a plant
+ */
+const attachPhoto = tool({
+  description:
+    "File a photo the user attached under a plant, and optionally one of its health issues, to track how it changes over time",
+  inputSchema: z.object({
+    photoId: z.string().min(1).describe("The photo ID from the attached photo"),
+    plant: plantReferenceSchema,
+    issueId: issueIdSchema
+      .optional()
+      .describe("The health issue the photo shows, if any")
+  }),
+  execute: async ({ photoId, plant: reference, issueId }) => {
+    const { agent } = getCurrentAgent<PlantCare>();
+
+    try {
+      const plant = findPlant(reference);
+      if (typeof plant === "string") {
+        return plant;
+      }
+
+      const photo = agent!.attachPhoto(photoId, plant.id, issueId);
+      if (!photo) {
+        return `Could not attach photo ${photoId}: the photo or health issue was not found.`;
+      }
+      return `Saved the photo to ${plant.name}'s ${issueId ? "health issue" : "photos"}.`;
+    } catch (error) {
+      console.error("Error attaching photo:", error);
+      return `Error attaching photo: ${error}`;
+    }
+  }
+});
+
+/**
+ * Tool to list a plant's photos
+ */
+const getPlantPhotos = tool({
+  description:
+    "List the photos saved for a plant, oldest first, with what was seen in them",
+  inputSchema: z.object({
+    plant: plantReferenceSchema
+  }),
+  execute: async ({ plant: reference }) => {
+    const { agent } = getCurrentAgent<PlantCare>();
+
+    try {
+      const plant = findPlant(reference);
+      if (typeof plant === "string") {
+        return plant;
+      }
+
+      const photos = agent!.getPlantPhotos(plant.id);
+      if (photos.length === 0) {
+        return `No photos saved for ${plant.name} yet.`;
+      }
+      return photos.map(
+        ({ id, issueId, caption, observations, uploadedAt }) => ({
+          id,
+          issueId,
+          caption,
+          observations,
+          uploadedAt
+        })
+      );
+    } catch (error) {
+      console.error("Error listing plant photos:", error);
+      return `Error listing plant photos: ${error}`;
+    }
+  }
+});
+
 /**
  * Tool to get care tips for a specific plant type
  */
 const getCareTips = tool({
-  description: "OPTIONAL: Use only if specifically asked to look up care tips. The AI can answer plant care questions directly without this tool.",
+  description:
+    "Look up a species in the bundled care guide: watering interval range, light, humidity, temperature, soil mix and whether it is toxic to cats or dogs. Accepts common or botanical names (e.g., 'pothos', 'Epipremnum aureum', \"devil's ivy\"). Use it for pet-safety questions and to back up care advice with specific numbers.",
   inputSchema: z.object({
-    plantType: z.string().describe("The type of plant to get care tips for (e.g., 'fern', 'succulent', 'monstera')")
+    plantType: z
+      .string()
+      .describe(
+        "The type of plant to get care tips for (e.g., 'fern', 'succulent', 'monstera')"
+      )
   }),
   execute: async ({ plantType }) => {
-    return `Providing care tips for ${plantType}`;
+    const match = findSpeciesCare(plantType);
+    if (!match) {
+      return `${plantType} is not in the care guide. Answer from general plant care knowledge instead.`;
+    }
+
+    const { species, matchedName } = match;
+    return {
+      matchedName,
+      ...species,
+      suggestedWaterFrequencyDays: getDefaultWaterFrequency(species),
+      careGuideVersion: SPECIES_CARE_VERSION
+    };
   }
 });
 
 /**
  * Schedule watering reminder
-*/
+ */
 const scheduleWateringReminder = tool({
-  description: "Schedule a watering reminder for a plant",
+  description:
+    "Schedule an extra, custom reminder for a plant. Regular watering reminders are already scheduled automatically from each plant's watering frequency.",
   inputSchema: z.object({
-    plantId: z.string().describe("The ID of the plant"),
-    scheduleDetails: scheduleSchema
+    plant: plantReferenceSchema,
+    scheduleDetails: scheduleSchema,
+    recipient: memberReferenceSchema
+      .optional()
+      .describe(
+        "Who the reminder is for (default: whoever looks after the plant, or everyone)"
+      )
   }),
-  execute: async ({ plantId, scheduleDetails }) => {
+  execute: async ({
+    plant: reference,
+    scheduleDetails,
+    recipient: recipientReference
+  }) => {
     const { agent } = getCurrentAgent<PlantCare>();
 
     try {
-      const plant = agent!.getPlant(plantId);
-      if (!plant) {
-        return `Plant with ID ${plantId} not found.`;
+      const plant = findPlant(reference);
+      if (typeof plant === "string") {
+        return plant;
+      }
+      const recipient = recipientReference
+        ? findMember(recipientReference)
+        : undefined;
+      if (typeof recipient === "string") {
+        return recipient;
       }
 
       const when = scheduleDetails.when;
@@ -291,9 +1340,14 @@ const scheduleWateringReminder = tool({
               ? when.cron
               : throwError("not a valid schedule input");
 
-      agent!.schedule(input!, "executeTask", scheduleDetails.description || `Time to water ${plant.name}!`);
+      const reminder = await agent!.scheduleCustomReminder(
+        plant.id,
+        input!,
+        scheduleDetails.description || `Time to water ${plant.name}!`,
+        recipient?.id
+      );
 
-      return `Watering reminder scheduled for ${plant.name} (type: ${when.type})`;
+      return `Reminder ${reminder.id} scheduled for ${plant.name}${recipient ? `, to ${recipient.name}` : ""} (type: ${when.type})`;
     } catch (error) {
       console.error("Error scheduling watering reminder:", error);
       return `Error scheduling reminder: ${error}`;
@@ -305,17 +1359,31 @@ const scheduleWateringReminder = tool({
  * Tool to list all scheduled tasks
  */
 const getScheduledReminders = tool({
-  description: "List all scheduled watering reminders",
-  inputSchema: z.object({}),
-  execute: async () => {
+  description:
+    "List scheduled reminders (automatic watering reminders and custom ones), optionally for a single plant",
+  inputSchema: z.object({
+    plant: plantReferenceSchema
+      .optional()
+      .describe(
+        "Only list reminders for this plant, by name, species, location or ID"
+      )
+  }),
+  execute: async ({ plant: reference }) => {
     const { agent } = getCurrentAgent<PlantCare>();
 
     try {
-      const tasks = agent!.getSchedules();
-      if (!tasks || tasks.length === 0) {
-        return "No watering reminders scheduled.";
+      const plant = reference ? findPlant(reference) : undefined;
+      if (typeof plant === "string") {
+        return plant;
+      }
+
+      const reminders = agent!.getReminders(plant?.id);
+      if (!reminders || reminders.length === 0) {
+        return plant
+          ? `No reminders scheduled for ${plant.name}.`
+          : "No watering reminders scheduled.";
       }
-      return tasks;
+      return reminders;
     } catch (error) {
       console.error("Error listing scheduled reminders", error);
       return `Error listing scheduled reminders: ${error}`;
@@ -343,24 +1411,288 @@ const cancelReminder = tool({
   }
 });
 
+/**
+ * Tool to start a multi-step care routine that runs over days or weeks
+ */
+const startCarePlan = tool({
+  description:
+    "Start a care plan: a sequence of care steps for one plant, each run after waiting a number of days (e.g., water now, check for drooping in 2 days, fertilize in 2 weeks). Watering steps are recorded automatically; other steps send the user a reminder.",
+  inputSchema: carePlanSchema.omit({ plantId: true }).extend({
+    plant: plantReferenceSchema
+  }),
+  execute: async ({ plant: reference, ...input }) => {
+    const { agent } = getCurrentAgent<PlantCare>();
+
+    try {
+      const plant = findPlant(reference);
+      if (typeof plant === "string") {
+        return plant;
+      }
+
+      const plan = (await agent!.startCarePlan({
+        ...input,
+        plantId: plant.id
+      }))!;
+
+      const steps = plan.steps
+        .map(
+          (step, index) =>
+            `${index + 1}. ${step.action}${step.afterDays > 0 ? ` after ${step.afterDays} days` : " right away"}${step.instructions ? ` - ${step.instructions}` : ""}`
+        )
+        .join("\n");
+      return `Started care plan "${plan.name}" (ID: ${plan.id}):\n${steps}`;
+    } catch (error) {
+      console.error("Error starting care plan:", error);
+      return `Error starting care plan: ${error}`;
+    }
+  }
+});
+
+/**
+ * Tool to report the progress of care plans
+ */
+const getCarePlans = tool({
+  description:
+    "Show care plans and how far along they are, optionally for a single plant",
+  inputSchema: z.object({
+    plant: plantReferenceSchema
+      .optional()
+      .describe(
+        "Only list care plans for this plant, by name, species, location or ID"
+      )
+  }),
+  execute: async ({ plant: reference }) => {
+    const { agent } = getCurrentAgent<PlantCare>();
+
+    try {
+      const plant = reference ? findPlant(reference) : undefined;
+      if (typeof plant === "string") {
+        return plant;
+      }
+
+      const plans = agent!.getCarePlans(plant?.id);
+      if (plans.length === 0) {
+        return plant
+          ? `No care plans for ${plant.name}.`
+          : "No care plans yet.";
+      }
+      return plans;
+    } catch (error) {
+      console.error("Error listing care plans:", error);
+      return `Error listing care plans: ${error}`;
+    }
+  }
+});
+
+/**
+ * Tool to list who shares the collection
+ */
+const listMembers = tool({
+  description:
+    "List the members of the household sharing this plant collection, with the plants each of them looks after",
+  inputSchema: z.object({}),
+  execute: async () => {
+    const { agent } = getCurrentAgent<PlantCare>();
+
+    try {
+      const members = agent!.getMembers();
+      if (members.length === 0) {
+        return "Nobody has joined the household yet.";
+      }
+
+      const plants = agent!.getPlants();
+      return {
+        members: members.map((member) => ({
+          ...member,
+          caresFor: plants
+            .filter((plant) => plant.caretakerId === member.id)
+            .map((plant) => plant.name)
+        })),
+        pendingInvitations: agent!.getInvitations().length
+      };
+    } catch (error) {
+      console.error("Error listing members:", error);
+      return `Error listing members: ${error}`;
+    }
+  }
+});
+
+/**
+ * Tool to invite someone to share the collection
+ */
+const inviteMember = tool({
+  description: `Invite someone to join the household and share the plant collection. Returns a link that works once, for ${INVITATION_TTL_DAYS} days.`,
+  inputSchema: z.object({
+    name: z
+      .string()
+      .min(1)
+      .optional()
+      .describe("Who the invitation is for, if the user said")
+  }),
+  execute: async ({ name }) => {
+    const { agent } = getCurrentAgent<PlantCare>();
+    if (!agent!.isOwner()) {
+      return "Only the household owner can invite people; ask them to do it.";
+    }
+
+    try {
+      const invitation = agent!.inviteMember({ name });
+      const link = `/?household=${encodeURIComponent(agent!.name)}&invite=${encodeURIComponent(invitation.code)}`;
+      return `Invitation created${name ? ` for ${name}` : ""}. Share this link: ${link} (invite code ${invitation.code}, valid until ${new Date(invitation.expiresAt).toLocaleDateString()}).`;
+    } catch (error) {
+      console.error("Error inviting member:", error);
+      return `Error inviting member: ${error}`;
+    }
+  }
+});
+
+/**
+ * Tool to choose who gets a plant's reminders
+ */
+const assignCaretaker = tool({
+  description:
+    "Choose which household member gets the watering, care and health reminders for one or more plants, or pass null for member so they go to everyone again",
+  inputSchema: z.object({
+    plants: z
+      .array(plantReferenceSchema)
+      .min(1)
+      .describe("The plants, in the user's words or by ID"),
+    member: memberReferenceSchema
+      .nullable()
+      .describe("Who looks after the plants, or null for everyone")
+  }),
+  execute: async ({ plants: references, member: memberReference }) => {
+    const { agent } = getCurrentAgent<PlantCare>();
+
+    try {
+      const member =
+        memberReference === null ? null : findMember(memberReference);
+      if (typeof member === "string") {
+        return member;
+      }
+
+      const lines: string[] = [];
+      const assigned: string[] = [];
+      for (const reference of references) {
+        const plant = findPlant(reference);
+        if (typeof plant === "string") {
+          lines.push(plant);
+          continue;
+        }
+        await agent!.updatePlant(plant.id, { caretakerId: member?.id ?? null });
+        assigned.push(plant.name);
+      }
+      if (assigned.length > 0) {
+        lines.unshift(
+          member
+            ? `${member.name} now gets the reminders for ${assigned.join(", ")}.`
+            : `Reminders for ${assigned.join(", ")} now go to everyone.`
+        );
+      }
+      return lines.join("\n");
+    } catch (error) {
+      console.error("Error assigning caretaker:", error);
+      return `Error assigning caretaker: ${error}`;
+    }
+  }
+});
+
 /**
  * Export all available tools
  */
 export const tools = {
   addPlant,
+  confirmSpecies,
   listPlants,
+  updatePlant,
+  listLocations,
+  addLocation,
+  updateLocation,
+  movePlants,
   removePlant,
+  confirmPlantRemoval,
+  restorePlant,
   waterPlant,
+  waterPlants,
   checkWateringNeeds,
+  analyzeWateringPatterns,
+  applyWateringSuggestion,
+  updateCareProfile,
+  getCareProfile,
   getWateringHistory,
+  logCareEvent,
+  logCareForPlants,
+  setCareFrequency,
+  checkCareNeeds,
+  getCareHistory,
   diagnosePlantIssue,
   viewHealthIssues,
+  updateDiagnosis,
+  recommendTreatment,
+  completeTreatmentStep,
+  resolveHealthIssue,
+  attachPhoto,
+  getPlantPhotos,
   getCareTips,
   scheduleWateringReminder,
   getScheduledReminders,
-  cancelReminder
+  cancelReminder,
+  startCarePlan,
+  getCarePlans,
+  listMembers,
+  inviteMember,
+  assignCaretaker
 } satisfies ToolSet;
 
+/**
+ * Implementation of confirmation-required tools
+ * This object contains the actual logic for tools that need human approval
+ * Each function here corresponds to a tool above that doesn't have an execute
+ * function
+ */
 export const executions = {
-  // Human confirmation tools added here if possible
+  confirmSpecies: async ({
+    candidates,
+    choice,
+    ...details
+  }: SpeciesChoice & { choice: string }) => {
+    const { agent } = getCurrentAgent<PlantCare>();
+
+    try {
+      if (choice && !candidates.includes(choice)) {
+        return `Error: ${choice} is not one of the offered species.`;
+      }
+
+      const plant = await agent!.addPlant({
+        id: generateId(),
+        ...details,
+        speciesId: choice || null
+      });
+      const species = plant.speciesId ? getSpeciesById(plant.speciesId) : null;
+      const as = species
+        ? ` as ${species.scientificName}`
+        : " without a species from the care guide";
+
+      return `Added ${plant.name} (${plant.type})${as}. Plant ID: ${plant.id}. I'll remind you to water it every ${plant.waterFrequencyDays} days, counting from each watering.`;
+    } catch (error) {
+      console.error("Error adding plant:", error);
+      return `Error adding plant: ${error}`;
+    }
+  },
+
+  confirmPlantRemoval: async ({ plantId }: { plantId: string }) => {
+    const { agent } = getCurrentAgent<PlantCare>();
+
+    try {
+      const removedPlant = await agent!.removePlant(plantId);
+      if (!removedPlant) {
+        return `Plant ${plantId} is no longer in the collection; it may already have been removed.`;
+      }
+
+      return `Removed ${removedPlant.name} from your collection. Its watering history and health records are kept for ${ARCHIVE_RETENTION_DAYS} days in case you want to restore it.`;
+    } catch (error) {
+      console.error("Error removing plant:", error);
+      return `Error removing plant: ${error}`;
+    }
+  }
 };
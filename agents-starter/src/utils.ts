@@ -7,7 +7,7 @@ import type {
   ToolCallOptions
 } from "ai";
 import { convertToModelMessages, isToolUIPart } from "ai";
-import { APPROVAL } from "./shared";
+import { APPROVAL, isConfirmationChoice } from "./shared";
 
 function isValidToolName<K extends PropertyKey, T extends object>(
   key: K,
@@ -55,15 +55,21 @@ export async function processToolCalls<Tools extends ToolSet>({
 
           let result: unknown;
 
-          if (part.output === APPROVAL.YES) {
-            // User approved the tool execution
+          if (
+            part.output === APPROVAL.YES ||
+            isConfirmationChoice(part.output)
+          ) {
+            // User approved the tool execution, or picked one of its options
             if (!isValidToolName(toolName, executions)) {
               return part;
             }
 
             const toolInstance = executions[toolName];
+            const args = isConfirmationChoice(part.output)
+              ? { ...(part.input as object), choice: part.output.choice }
+              : part.input;
             if (toolInstance) {
-              result = await toolInstance(part.input, {
+              result = await toolInstance(args, {
                 messages: convertToModelMessages(messages),
                 toolCallId: part.toolCallId
               });
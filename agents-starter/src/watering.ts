@@ -0,0 +1,125 @@
+/**
+ * Watering interval calculator
+ * Adjusts a plant's base watering frequency for the season in the user's
+ * hemisphere, their indoor climate (or that of the plant's room), and the
+ * plant's pot size and light.
+ * Every adjustment carries a reason so the user can see why a date moved.
+ */
+import type {
+  CareProfile,
+  Hemisphere,
+  Plant,
+  PlantLocation,
+  ScheduledPlant,
+  Season,
+  WateringAdjustment,
+  WateringInterval
+} from "./shared";
+
+// Pots narrower than this dry out noticeably faster, wider ones slower
+const SMALL_POT_CM = 12;
+const LARGE_POT_CM = 25;
+
+const SEASON_FACTORS: Record<Season, number> = {
+  spring: 1,
+  summer: 0.85,
+  autumn: 1,
+  winter: 1.3
+};
+
+/**
+ * Meteorological season for a date: winter is December to February in the
+ * northern hemisphere and June to August in the southern one
+ */
+export function getSeason(date: Date, hemisphere: Hemisphere): Season {
+  const month = date.getUTCMonth();
+  const shifted = hemisphere === "southern" ? (month + 6) % 12 : month;
+  if (shifted === 11 || shifted <= 1) return "winter";
+  if (shifted <= 4) return "spring";
+  if (shifted <= 7) return "summer";
+  return "autumn";
+}
+
+function getAdjustments(
+  plant: Plant,
+  profile: CareProfile,
+  season: Season | null,
+  location: PlantLocation | null
+): WateringAdjustment[] {
+  const adjustments: WateringAdjustment[] = [];
+  const add = (factor: number, reason: string) => {
+    if (factor !== 1) adjustments.push({ factor, reason });
+  };
+
+  if (season) {
+    add(
+      SEASON_FACTORS[season],
+      season === "winter"
+        ? "slower growth in winter"
+        : `faster drying in ${season}`
+    );
+  }
+
+  // A room's own climate takes the place of the home's
+  const room = location?.name.toLowerCase();
+  const temperature = location?.temperature ?? profile.indoorTemperature;
+  const home = location?.temperature ? room : "home";
+  if (temperature === "warm") add(0.9, `warm ${home}`);
+  if (temperature === "cool") add(1.15, `cool ${home}`);
+  const humidity = location?.humidity ?? profile.indoorHumidity;
+  const air = location?.humidity ? `air in the ${room}` : "indoor air";
+  if (humidity === "dry") add(0.9, `dry ${air}`);
+  if (humidity === "humid") add(1.1, `humid ${air}`);
+
+  if (plant.potSizeCm !== null && plant.potSizeCm < SMALL_POT_CM) {
+    add(0.8, "small pot dries out faster");
+  }
+  if (plant.potSizeCm !== null && plant.potSizeCm >= LARGE_POT_CM) {
+    add(1.2, "large pot holds water longer");
+  }
+
+  // The plant's own light wins over the room's usual light
+  const lightLevel = plant.lightLevel ?? location?.lightLevel;
+  const where = plant.lightLevel || !location ? "" : ` in the ${room}`;
+  if (lightLevel === "low") add(1.25, `low light${where}`);
+  if (lightLevel === "bright") add(0.9, `bright light${where}`);
+  if (lightLevel === "direct") add(0.8, `direct sun${where}`);
+
+  return adjustments;
+}
+
+/**
+ * Watering interval that applies to a plant now, in the location it stands in
+ */
+export function calculateWateringInterval(
+  plant: Plant,
+  profile: CareProfile,
+  now = new Date(),
+  location: PlantLocation | null = null
+): WateringInterval {
+  const season = profile.hemisphere ? getSeason(now, profile.hemisphere) : null;
+  const adjustments = getAdjustments(plant, profile, season, location);
+  const factor = adjustments.reduce((total, { factor }) => total * factor, 1);
+  return {
+    baseDays: plant.waterFrequencyDays,
+    days: Math.max(1, Math.round(plant.waterFrequencyDays * factor)),
+    season,
+    adjustments
+  };
+}
+
+/**
+ * Why a plant's interval differs from its base frequency, e.g.
+ * "every 9 days instead of 7: slower growth in winter, low light".
+ * Empty when it waters on its base frequency.
+ */
+export function describeWateringInterval({
+  wateringInterval: interval
+}: ScheduledPlant) {
+  if (interval.days === interval.baseDays) {
+    return "";
+  }
+  return `every ${interval.days} days instead of ${interval.baseDays}: ${interval.adjustments
+    .map(({ reason }) => reason)
+    .join(", ")}`;
+}
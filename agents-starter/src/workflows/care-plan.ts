@@ -0,0 +1,61 @@
+/**
+ * Durable multi-step care routines, e.g. "water, check for drooping in 2 days,
+ * fertilize in 2 weeks". Sleeps survive restarts and each step is retried on failure.
+ * The plan's state lives in PlantCare; the workflow only drives the timing.
+ */
+import {
+  WorkflowEntrypoint,
+  type WorkflowEvent,
+  type WorkflowStep,
+  type WorkflowStepConfig
+} from "cloudflare:workers";
+import { getAgentByName } from "agents";
+import type { CarePlanStep } from "../shared";
+
+export interface CarePlanParams {
+  /** Name of the PlantCare instance that owns the plan */
+  agentName: string;
+  planId: string;
+  steps: CarePlanStep[];
+}
+
+const STEP_CONFIG: WorkflowStepConfig = {
+  retries: { limit: 3, delay: "1 minute", backoff: "exponential" },
+  timeout: "5 minutes"
+};
+
+export class CarePlanWorkflow extends WorkflowEntrypoint<Env, CarePlanParams> {
+  async run(event: WorkflowEvent<CarePlanParams>, step: WorkflowStep) {
+    const { agentName, planId, steps } = event.payload;
+    const agent = await getAgentByName(this.env.PlantCare, agentName);
+
+    try {
+      for (const [index, careStep] of steps.entries()) {
+        if (careStep.afterDays > 0) {
+          await step.sleep(
+            `wait before step ${index + 1}`,
+            `${careStep.afterDays} days`
+          );
+        }
+
+        const outcome = await step.do(
+          `step ${index + 1}: ${careStep.action}`,
+          STEP_CONFIG,
+          () => agent.runCarePlanStep(planId, index)
+        );
+        // The plan was cancelled or its plant removed while we were asleep
+        if (outcome === "stopped") {
+          return { planId, status: "cancelled" };
+        }
+      }
+
+      await step.do("finish", STEP_CONFIG, () => agent.finishCarePlan(planId));
+      return { planId, status: "complete" };
+    } catch (error) {
+      await step.do("report failure", STEP_CONFIG, () =>
+        agent.failCarePlan(planId, String(error))
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,274 @@
+import {
+  env,
+  createExecutionContext,
+  waitOnExecutionContext
+} from "cloudflare:test";
+import { describe, it, expect } from "vitest";
+import { createSessionToken } from "../src/auth";
+import worker from "../src/server";
+import type { Plant } from "../src/shared";
+
+/**
+ * Send a request as the user whose own PlantCare instance it addresses
+ */
+async function signedIn(request: Request, userId: string) {
+  const token = await createSessionToken({ id: userId }, env.AUTH_SECRET);
+  request.headers.set("Authorization", `Bearer ${token}`);
+  return request;
+}
+
+async function request(path: string, init?: RequestInit) {
+  const ctx = createExecutionContext();
+  const response = await worker.fetch(
+    await signedIn(
+      new Request(`http://example.com${path}`, init),
+      path.split("/")[3]
+    ),
+    env,
+    ctx
+  );
+  await waitOnExecutionContext(ctx);
+  return response;
+}
+
+function post(path: string, body: unknown) {
+  return request(path, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body)
+  });
+}
+
+describe("Plant REST API", () => {
+  it("creates and lists plants", async () => {
+    const created = await post("/api/agents/rest-list/plants", {
+      name: "Fernie",
+      type: "Boston Fern",
+      waterFrequencyDays: 4
+    });
+    expect(created.status).toBe(201);
+    const plant = await created.json<Plant>();
+    expect(plant).toMatchObject({ name: "Fernie", waterFrequencyDays: 4 });
+
+    const listed = await request("/api/agents/rest-list/plants");
+    expect(listed.status).toBe(200);
+    expect(await listed.json()).toEqual([plant]);
+
+    const fetched = await request(`/api/agents/rest-list/plants/${plant.id}`);
+    expect(await fetched.json()).toEqual(plant);
+  });
+
+  it("keeps each agent's collection separate", async () => {
+    await post("/api/agents/rest-a/plants", { name: "A", type: "Pothos" });
+
+    const response = await request("/api/agents/rest-b/plants");
+    expect(await response.json()).toEqual([]);
+  });
+
+  it("rejects invalid plants with validation details", async () => {
+    const response = await post("/api/agents/rest-invalid/plants", {
+      name: "No type",
+      waterFrequencyDays: -1
+    });
+
+    expect(response.status).toBe(400);
+    const body = await response.json<{
+      error: string;
+      details: { path: string[] }[];
+    }>();
+    expect(body.error).toBe("Validation failed");
+    expect(body.details.map((issue) => issue.path[0]).sort()).toEqual([
+      "type",
+      "waterFrequencyDays"
+    ]);
+  });
+
+  it("asks for a species when the type is ambiguous", async () => {
+    const ambiguous = await post("/api/agents/rest-species/plants", {
+      name: "Penny",
+      type: "money plant"
+    });
+    expect(ambiguous.status).toBe(409);
+    const body = await ambiguous.json<{ details: { speciesId: string }[] }>();
+    expect(body.details.map((candidate) => candidate.speciesId)).toEqual([
+      "epipremnum-aureum",
+      "crassula-ovata"
+    ]);
+
+    const created = await post("/api/agents/rest-species/plants", {
+      name: "Penny",
+      type: "money plant",
+      speciesId: "crassula-ovata"
+    });
+    expect(created.status).toBe(201);
+    expect(await created.json<Plant>()).toMatchObject({
+      type: "money plant",
+      speciesId: "crassula-ovata"
+    });
+  });
+
+  it("rejects malformed JSON", async () => {
+    const response = await request("/api/agents/rest-json/plants", {
+      method: "POST",
+      body: "{not json"
+    });
+    expect(response.status).toBe(400);
+  });
+
+  it("rejects malformed URL paths", async () => {
+    const response = await request("/api/agents/rest-path/plants/%E0%A4%A");
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({
+      error: "Malformed URL path"
+    });
+  });
+
+  it("logs waterings and returns the history", async () => {
+    const plant = await (
+      await post("/api/agents/rest-water/plants", {
+        name: "Spike",
+        type: "Snake Plant"
+      })
+    ).json<Plant>();
+
+    const watered = await post(
+      `/api/agents/rest-water/plants/${plant.id}/water`,
+      { notes: "from a shortcut" }
+    );
+    expect(watered.status).toBe(201);
+
+    const history = await request(
+      `/api/agents/rest-water/plants/${plant.id}/water`
+    );
+    expect(await history.json()).toMatchObject([
+      { plantId: plant.id, notes: "from a shortcut" }
+    ]);
+  });
+
+  it("records and lists health issues", async () => {
+    const plant = await (
+      await post("/api/agents/rest-health/plants", {
+        name: "Monty",
+        type: "Monstera"
+      })
+    ).json<Plant>();
+
+    const recorded = await post(
+      `/api/agents/rest-health/plants/${plant.id}/health-issues`,
+      { issueDescription: "yellow leaves" }
+    );
+    expect(recorded.status).toBe(201);
+
+    const issues = await request(
+      `/api/agents/rest-health/plants/${plant.id}/health-issues`
+    );
+    expect(await issues.json()).toMatchObject([
+      { issueDescription: "yellow leaves", resolved: false }
+    ]);
+  });
+
+  it("archives and restores plants", async () => {
+    const plant = await (
+      await post("/api/agents/rest-archive/plants", {
+        name: "Fernie",
+        type: "Boston Fern"
+      })
+    ).json<Plant>();
+
+    const removed = await request(
+      `/api/agents/rest-archive/plants/${plant.id}`,
+      { method: "DELETE" }
+    );
+    expect(removed.status).toBe(200);
+    expect(
+      await (await request("/api/agents/rest-archive/plants")).json()
+    ).toEqual([]);
+
+    const restored = await request(
+      `/api/agents/rest-archive/plants/${plant.id}/restore`,
+      { method: "POST" }
+    );
+    expect(restored.status).toBe(200);
+  });
+
+  it("updates plants and lists their changes", async () => {
+    const plant = await (
+      await post("/api/agents/rest-update/plants", {
+        name: "Monty",
+        type: "Monstera"
+      })
+    ).json<Plant>();
+    const base = `/api/agents/rest-update/plants/${plant.id}`;
+
+    const updated = await request(base, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ location: "bedroom" })
+    });
+    expect(updated.status).toBe(200);
+    expect(await updated.json()).toMatchObject({
+      plant: { location: "bedroom" },
+      changes: [{ field: "location", oldValue: null, newValue: "bedroom" }]
+    });
+
+    const empty = await request(base, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({})
+    });
+    expect(empty.status).toBe(400);
+
+    const changes = await request(`${base}/changes`);
+    expect(await changes.json()).toHaveLength(1);
+  });
+
+  it("logs care events and reports care needs", async () => {
+    const plant = await (
+      await post("/api/agents/rest-care/plants", {
+        name: "Fernie",
+        type: "Boston Fern"
+      })
+    ).json<Plant>();
+    const base = `/api/agents/rest-care/plants/${plant.id}`;
+
+    const logged = await post(`${base}/care-events`, {
+      kind: "fertilizing",
+      notes: "half strength"
+    });
+    expect(logged.status).toBe(201);
+    expect(
+      (await post(`${base}/care-events`, { kind: "dusting" })).status
+    ).toBe(400);
+
+    const frequencies = await request(`${base}/care-frequencies`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ kind: "fertilizing", frequencyDays: 30 })
+    });
+    expect(await frequencies.json()).toMatchObject([
+      { kind: "fertilizing", frequencyDays: 30 }
+    ]);
+
+    const history = await request(`${base}/care-events?kind=fertilizing`);
+    expect(await history.json()).toMatchObject([
+      { kind: "fertilizing", notes: "half strength" }
+    ]);
+    const needs = await request(
+      "/api/agents/rest-care/care-needs?kind=fertilizing"
+    );
+    expect(await needs.json()).toEqual([]);
+  });
+
+  it("returns 404 for unknown plants and 405 for unsupported methods", async () => {
+    expect(
+      (await post("/api/agents/rest-missing/plants/nope/water", {})).status
+    ).toBe(404);
+    expect((await request("/api/agents/rest-missing/plants/nope")).status).toBe(
+      404
+    );
+    expect(
+      (await request("/api/agents/rest-missing/plants", { method: "PUT" }))
+        .status
+    ).toBe(405);
+  });
+});
@@ -0,0 +1,109 @@
+import { env, runInDurableObject } from "cloudflare:test";
+import { describe, it, expect } from "vitest";
+import type { PlantCare } from "../src/server";
+
+function getStub(name: string) {
+  return env.PlantCare.get(env.PlantCare.idFromName(name));
+}
+
+describe("Archiving plants", () => {
+  it("hides removed plants from the collection and watering checks", async () => {
+    await runInDurableObject(getStub("hide"), async (instance: PlantCare) => {
+      await instance.addPlant({
+        id: "p1",
+        name: "Fernie",
+        type: "Boston Fern"
+      });
+      await instance.addPlant({ id: "p2", name: "Spike", type: "Snake Plant" });
+
+      await instance.removePlant("p1");
+
+      expect(instance.getPlants().map((plant) => plant.id)).toEqual(["p2"]);
+      expect(instance.getPlantsNeedingWater().map((plant) => plant.id)).toEqual(
+        ["p2"]
+      );
+      expect(instance.getPlant("p1")).toBeNull();
+      expect(instance.getArchivedPlants().map((plant) => plant.id)).toEqual([
+        "p1"
+      ]);
+    });
+  });
+
+  it("schedules the purge when a plant is removed", async () => {
+    await runInDurableObject(
+      getStub("schedule"),
+      async (instance: PlantCare) => {
+        await instance.addPlant({
+          id: "p1",
+          name: "Fernie",
+          type: "Boston Fern"
+        });
+
+        await instance.removePlant("p1");
+
+        const purges = instance
+          .getSchedules()
+          .filter((task) => task.callback === "purgeArchivedPlant");
+        expect(purges).toHaveLength(1);
+        expect(purges[0].payload).toBe("p1");
+      }
+    );
+  });
+
+  it("restores a removed plant with its history", async () => {
+    await runInDurableObject(
+      getStub("restore"),
+      async (instance: PlantCare) => {
+        await instance.addPlant({
+          id: "p1",
+          name: "Fernie",
+          type: "Boston Fern"
+        });
+        await instance.waterPlant("p1");
+        await instance.removePlant("p1");
+
+        const restored = await instance.restorePlant("p1");
+
+        expect(restored?.name).toBe("Fernie");
+        expect(instance.getPlants()).toHaveLength(1);
+        expect(instance.getWateringHistory("p1")).toHaveLength(1);
+        // Restoring an active plant is a no-op
+        expect(await instance.restorePlant("p1")).toBeNull();
+      }
+    );
+  });
+
+  it("only purges plants that are still archived past the retention window", async () => {
+    await runInDurableObject(
+      getStub("purge"),
+      async (instance: PlantCare, state) => {
+        await instance.addPlant({
+          id: "p1",
+          name: "Fernie",
+          type: "Boston Fern"
+        });
+        await instance.addPlant({
+          id: "p2",
+          name: "Spike",
+          type: "Snake Plant"
+        });
+        await instance.removePlant("p1");
+        await instance.removePlant("p2");
+        await instance.restorePlant("p2");
+
+        // Recently archived plants survive an early purge
+        await instance.purgeArchivedPlant("p1");
+        expect(instance.getPlant("p1", true)).not.toBeNull();
+
+        state.storage.sql.exec(
+          `UPDATE plants SET archived_at = '2000-01-01T00:00:00.000Z' WHERE id = 'p1'`
+        );
+        await instance.purgeArchivedPlant("p1");
+        await instance.purgeArchivedPlant("p2");
+
+        expect(instance.getPlant("p1", true)).toBeNull();
+        expect(instance.getPlant("p2")).not.toBeNull();
+      }
+    );
+  });
+});
@@ -0,0 +1,199 @@
+import {
+  env,
+  createExecutionContext,
+  runInDurableObject,
+  waitOnExecutionContext
+} from "cloudflare:test";
+import { describe, it, expect } from "vitest";
+import {
+  createSessionToken,
+  SESSION_COOKIE,
+  verifySessionToken
+} from "../src/auth";
+import worker, { type PlantCare } from "../src/server";
+
+async function request(
+  path: string,
+  headers: Record<string, string> = {},
+  testEnv: Env = env,
+  init: RequestInit = {}
+) {
+  const ctx = createExecutionContext();
+  const response = await worker.fetch(
+    new Request(`http://example.com${path}`, { ...init, headers }),
+    testEnv,
+    ctx
+  );
+  await waitOnExecutionContext(ctx);
+  return response;
+}
+
+async function bearer(userId: string) {
+  const token = await createSessionToken({ id: userId }, env.AUTH_SECRET);
+  return { Authorization: `Bearer ${token}` };
+}
+
+const upgrade = { Upgrade: "websocket" };
+
+describe("Session tokens", () => {
+  it("only verify when signed with the secret and still valid", async () => {
+    const token = await createSessionToken(
+      { id: "alice", name: "Alice" },
+      "secret"
+    );
+    expect(await verifySessionToken(token, "secret")).toEqual({
+      id: "alice",
+      name: "Alice"
+    });
+    expect(await verifySessionToken(token, "other-secret")).toBeNull();
+
+    const [payload, signature] = token.split(".");
+    const forged = btoa(JSON.stringify({ sub: "bob", exp: 9e9 }));
+    expect(
+      await verifySessionToken(`${forged}.${signature}`, "secret")
+    ).toBeNull();
+    expect(await verifySessionToken(payload, "secret")).toBeNull();
+
+    const expired = await createSessionToken({ id: "alice" }, "secret", -1);
+    expect(await verifySessionToken(expired, "secret")).toBeNull();
+    await expect(
+      createSessionToken({ id: "alice@example.com" }, "secret")
+    ).rejects.toThrow(/cannot name a household/);
+    await expect(
+      createSessionToken({ id: "default" }, "secret")
+    ).rejects.toThrow(/cannot name a household/);
+  });
+});
+
+describe("Worker authentication", () => {
+  it("rejects requests from anyone who is not signed in", async () => {
+    expect((await request("/api/me")).status).toBe(401);
+    expect((await request("/api/agents/alice/plants")).status).toBe(401);
+    expect((await request("/agents/plant-care/alice", upgrade)).status).toBe(
+      401
+    );
+
+    const forged = await createSessionToken({ id: "alice" }, "not-the-secret");
+    expect(
+      (
+        await request("/api/agents/alice/plants", {
+          Authorization: `Bearer ${forged}`
+        })
+      ).status
+    ).toBe(401);
+  });
+
+  it("routes signed-in users to their own instance", async () => {
+    const me = await request("/api/me", await bearer("alice"));
+    expect(await me.json()).toEqual({
+      id: "alice",
+      name: null,
+      household: "alice"
+    });
+
+    const token = await createSessionToken({ id: "alice" }, env.AUTH_SECRET);
+    const withCookie = await request("/api/agents/alice/plants", {
+      Cookie: `theme=dark; ${SESSION_COOKIE}=${token}`
+    });
+    expect(withCookie.status).toBe(200);
+
+    const connected = await request("/agents/plant-care/alice", {
+      ...upgrade,
+      ...(await bearer("alice"))
+    });
+    expect(connected.status).toBe(101);
+    connected.webSocket?.accept();
+    connected.webSocket?.close();
+  });
+
+  it("keeps users out of households they have not joined", async () => {
+    const bob = await bearer("bob");
+    expect((await request("/api/agents/alice/plants", bob)).status).toBe(403);
+    expect(
+      (await request("/agents/plant-care/alice", { ...upgrade, ...bob })).status
+    ).toBe(403);
+    expect(
+      (await request("/agents/plant-care/alice/get-messages", bob)).status
+    ).toBe(403);
+  });
+
+  it("signs everyone in with the local development stub", async () => {
+    const devEnv = { ...env, AUTH_MODE: "dev" };
+    const me = await request("/api/me", {}, devEnv);
+    expect(await me.json()).toMatchObject({ id: "dev", household: "dev" });
+
+    const sam = await request(
+      "/api/me",
+      { Authorization: "Bearer sam" },
+      devEnv
+    );
+    expect(await sam.json()).toMatchObject({ id: "sam", household: "sam" });
+  });
+
+  it("issues sign-in links to whoever holds the secret", async () => {
+    const issue = (headers: Record<string, string>) =>
+      request("/auth/tokens", headers, env, {
+        method: "POST",
+        body: JSON.stringify({ userId: "carol", name: "Carol" })
+      });
+    expect((await issue({})).status).toBe(403);
+    expect((await issue({ Authorization: "Bearer guess" })).status).toBe(403);
+
+    const issued = await issue({ Authorization: `Bearer ${env.AUTH_SECRET}` });
+    expect(issued.status).toBe(201);
+    const { signInUrl } = await issued.json<{ signInUrl: string }>();
+
+    const { pathname, search } = new URL(signInUrl);
+    const signedIn = await request(`${pathname}${search}`);
+    expect(signedIn.status).toBe(302);
+    const cookie = signedIn.headers.get("Set-Cookie")!;
+    expect(cookie).toMatch(
+      new RegExp(`^${SESSION_COOKIE}=.+; Path=/; HttpOnly`)
+    );
+
+    const me = await request("/api/me", { Cookie: cookie.split(";")[0] });
+    expect(await me.json()).toMatchObject({ id: "carol", name: "Carol" });
+    expect((await request("/auth/sign-in?token=nope")).status).toBe(401);
+  });
+
+  it("lets the first user to join claim a collection from before sign-in", async () => {
+    const stub = env.PlantCare.get(env.PlantCare.idFromName("default"));
+    await runInDurableObject(stub, async (instance: PlantCare) => {
+      await instance.addPlant({ id: "p1", name: "Fernie", type: "Fern" });
+    });
+    const join = async (userId: string) =>
+      request("/api/agents/default/members", await bearer(userId), env, {
+        method: "POST",
+        body: JSON.stringify({ name: "Dana" })
+      });
+
+    expect(
+      (await request("/api/agents/default/plants", await bearer("dana"))).status
+    ).toBe(403);
+    const claimed = await join("dana");
+    expect(claimed.status).toBe(201);
+    expect(await claimed.json()).toMatchObject({ role: "owner" });
+    expect(
+      (await request("/api/agents/default/plants", await bearer("dana"))).status
+    ).toBe(200);
+    // Everyone after them needs an invitation again
+    expect((await join("eve")).status).toBe(403);
+  });
+
+  it("never lets anyone claim another user's household", async () => {
+    const frank = await bearer("frank");
+    const added = await request("/api/agents/frank/plants", frank, env, {
+      method: "POST",
+      body: JSON.stringify({ name: "Fernie", type: "Fern" })
+    });
+    expect(added.status).toBe(201);
+
+    const joined = await request(
+      "/api/agents/frank/members",
+      await bearer("grace"),
+      env,
+      { method: "POST", body: JSON.stringify({ name: "Frank" }) }
+    );
+    expect(joined.status).toBe(403);
+  });
+});
@@ -0,0 +1,205 @@
+import {
+  env,
+  createExecutionContext,
+  runInDurableObject,
+  waitOnExecutionContext
+} from "cloudflare:test";
+import { describe, it, expect } from "vitest";
+import { createSessionToken } from "../src/auth";
+import worker, { type PlantCare } from "../src/server";
+import { DAY_MS, type ReminderPayload } from "../src/shared";
+
+function getStub(name: string) {
+  return env.PlantCare.get(env.PlantCare.idFromName(name));
+}
+
+/**
+ * Send a request as the user whose own PlantCare instance it addresses
+ */
+async function signedIn(request: Request, userId: string) {
+  const token = await createSessionToken({ id: userId }, env.AUTH_SECRET);
+  request.headers.set("Authorization", `Bearer ${token}`);
+  return request;
+}
+
+async function addPlants(instance: PlantCare) {
+  await instance.addPlant({
+    id: "fern",
+    name: "Fernie",
+    type: "Boston Fern",
+    location: "Living room window"
+  });
+  await instance.addPlant({
+    id: "pothos",
+    name: "Potty",
+    type: "Pothos",
+    location: "living room"
+  });
+  await instance.addPlant({
+    id: "nest",
+    name: "Nesty",
+    type: "Bird's Nest Fern",
+    location: "bathroom"
+  });
+}
+
+describe("Bulk care", () => {
+  it("waters every plant in a location or of a species", async () => {
+    await runInDurableObject(
+      getStub("bulk-select"),
+      async (instance: PlantCare) => {
+        await addPlants(instance);
+
+        const room = await instance.waterPlants({ location: "living room" });
+        expect(room).toMatchObject({ action: "watering", done: 2, skipped: 0 });
+        expect(room.results.map((result) => result.plantId).sort()).toEqual([
+          "fern",
+          "pothos"
+        ]);
+        expect(instance.getWateringHistory("pothos")).toHaveLength(1);
+        expect(instance.getWateringHistory("nest")).toHaveLength(0);
+        expect(instance.state.dueCount).toBe(1);
+
+        const ferns = await instance.waterPlants({
+          species: "ferns",
+          notes: "rainwater"
+        });
+        expect(ferns.results.map((result) => result.plantId).sort()).toEqual([
+          "fern",
+          "nest"
+        ]);
+        expect(instance.getWateringHistory("nest")[0].notes).toBe("rainwater");
+
+        const reminders = instance
+          .getSchedules<ReminderPayload>()
+          .filter((task) => task.payload.kind === "watering");
+        expect(reminders).toHaveLength(3);
+      }
+    );
+  });
+
+  it("reports listed plants that are unknown or filtered out", async () => {
+    await runInDurableObject(
+      getStub("bulk-skip"),
+      async (instance: PlantCare, state) => {
+        await addPlants(instance);
+        state.storage.sql.exec(
+          "UPDATE plants SET last_watered = ? WHERE id = 'pothos'",
+          new Date(Date.now() - DAY_MS).toISOString()
+        );
+
+        const summary = await instance.waterPlants({
+          plantIds: ["fern", "pothos", "gone"],
+          due: true
+        });
+        expect(summary).toMatchObject({ done: 1, skipped: 2 });
+        expect(summary.results).toEqual([
+          {
+            plantId: "fern",
+            plantName: "Fernie",
+            status: "done",
+            reason: null
+          },
+          {
+            plantId: "pothos",
+            plantName: "Potty",
+            status: "skipped",
+            reason: "not due"
+          },
+          {
+            plantId: "gone",
+            plantName: null,
+            status: "skipped",
+            reason: "plant not found"
+          }
+        ]);
+
+        await expect(instance.waterPlants({})).rejects.toThrow();
+      }
+    );
+  });
+
+  it("logs care for the plants due for it", async () => {
+    await runInDurableObject(
+      getStub("bulk-care-due"),
+      async (instance: PlantCare, state) => {
+        await addPlants(instance);
+        instance.setCareFrequency({
+          plantId: "fern",
+          kind: "fertilizing",
+          frequencyDays: 30
+        });
+        instance.setCareFrequency({
+          plantId: "pothos",
+          kind: "fertilizing",
+          frequencyDays: 30
+        });
+        state.storage.sql.exec(
+          "UPDATE care_schedules SET set_at = ? WHERE plant_id = 'fern'",
+          new Date(Date.now() - 40 * DAY_MS).toISOString()
+        );
+
+        const summary = instance.logCareEvents({
+          kind: "fertilizing",
+          due: true
+        });
+        expect(summary).toMatchObject({ action: "fertilizing", done: 1 });
+        expect(instance.getCareHistory("fern", "fertilizing")).toHaveLength(1);
+        expect(instance.getCareHistory("pothos")).toHaveLength(0);
+        expect(instance.getPlantsNeedingCare("fertilizing")).toEqual([]);
+      }
+    );
+  });
+
+  it("records nothing when one plant fails", async () => {
+    await runInDurableObject(
+      getStub("bulk-rollback"),
+      async (instance: PlantCare, state) => {
+        await addPlants(instance);
+        state.storage.sql.exec(
+          `CREATE TRIGGER fail_nest BEFORE INSERT ON care_events
+           WHEN NEW.plant_id = 'nest'
+           BEGIN SELECT RAISE(ABORT, 'cannot prune'); END`
+        );
+
+        expect(() =>
+          instance.logCareEvents({ kind: "pruning", all: true })
+        ).toThrow(/cannot prune/);
+        expect(instance.getCareHistory("fern")).toHaveLength(0);
+      }
+    );
+  });
+
+  it("is exposed over the REST API", async () => {
+    async function post(path: string, body: unknown) {
+      const ctx = createExecutionContext();
+      const response = await worker.fetch(
+        await signedIn(
+          new Request(`http://example.com/api/agents/rest-bulk${path}`, {
+            method: "POST",
+            body: JSON.stringify(body)
+          }),
+          "rest-bulk"
+        ),
+        env,
+        ctx
+      );
+      await waitOnExecutionContext(ctx);
+      return response;
+    }
+    await post("/plants", { name: "Spike", type: "Snake Plant" });
+
+    expect((await post("/bulk/water", {})).status).toBe(400);
+    expect((await post("/bulk/care-events", { all: true })).status).toBe(400);
+
+    const watered = await post("/bulk/water", { all: true });
+    expect(watered.status).toBe(200);
+    expect(await watered.json()).toMatchObject({ action: "watering", done: 1 });
+
+    const misted = await post("/bulk/care-events", {
+      kind: "misting",
+      species: "snake plant"
+    });
+    expect(await misted.json()).toMatchObject({ action: "misting", done: 1 });
+  });
+});
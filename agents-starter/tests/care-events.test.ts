@@ -0,0 +1,210 @@
+import { env, runInDurableObject } from "cloudflare:test";
+import { describe, it, expect } from "vitest";
+import type { PlantCare } from "../src/server";
+import { migrations, runMigrations } from "../src/db/migrations";
+
+function getStub(name: string) {
+  return env.PlantCare.get(env.PlantCare.idFromName(name));
+}
+
+function daysAgo(days: number) {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+describe("Care events", () => {
+  it("logs each kind of care separately from watering", async () => {
+    await runInDurableObject(getStub("log"), async (instance: PlantCare) => {
+      await instance.addPlant({
+        id: "p1",
+        name: "Fernie",
+        type: "Boston Fern"
+      });
+
+      instance.logCareEvent({
+        plantId: "p1",
+        kind: "fertilizing",
+        notes: "half strength"
+      });
+      instance.logCareEvent({ plantId: "p1", kind: "misting" });
+
+      expect(instance.getWateringHistory("p1")).toEqual([]);
+      expect(instance.getCareHistory("p1")).toHaveLength(2);
+      expect(instance.getCareHistory("p1", "fertilizing")).toEqual([
+        expect.objectContaining({
+          plantId: "p1",
+          kind: "fertilizing",
+          notes: "half strength"
+        })
+      ]);
+    });
+  });
+
+  it("rejects unknown kinds of care", async () => {
+    await runInDurableObject(getStub("kinds"), async (instance: PlantCare) => {
+      await instance.addPlant({
+        id: "p1",
+        name: "Fernie",
+        type: "Boston Fern"
+      });
+
+      expect(() =>
+        instance.logCareEvent({
+          plantId: "p1",
+          kind: "dusting" as "misting"
+        })
+      ).toThrow();
+    });
+  });
+
+  it("refuses care for removed or unknown plants", async () => {
+    await runInDurableObject(
+      getStub("missing"),
+      async (instance: PlantCare) => {
+        await instance.addPlant({
+          id: "p1",
+          name: "Fernie",
+          type: "Boston Fern"
+        });
+        await instance.removePlant("p1");
+
+        expect(() =>
+          instance.logCareEvent({ plantId: "p1", kind: "misting" })
+        ).toThrow("Plant p1 not found");
+        expect(() =>
+          instance.logCareEvent({ plantId: "gone", kind: "misting" })
+        ).toThrow("Plant gone not found");
+        expect(instance.getCareHistory("p1")).toEqual([]);
+      }
+    );
+  });
+
+  it("finds plants past the frequency set for each kind of care", async () => {
+    await runInDurableObject(
+      getStub("needs"),
+      async (instance: PlantCare, state) => {
+        const sql = state.storage.sql;
+        await instance.addPlant({
+          id: "p1",
+          name: "Fernie",
+          type: "Boston Fern"
+        });
+        await instance.addPlant({
+          id: "p2",
+          name: "Spike",
+          type: "Snake Plant"
+        });
+        await instance.addPlant({ id: "p3", name: "Monty", type: "Monstera" });
+
+        instance.setCareFrequency({
+          plantId: "p1",
+          kind: "fertilizing",
+          frequencyDays: 30
+        });
+        instance.setCareFrequency({
+          plantId: "p2",
+          kind: "fertilizing",
+          frequencyDays: 30
+        });
+        instance.setCareFrequency({
+          plantId: "p2",
+          kind: "misting",
+          frequencyDays: 2
+        });
+        instance.logCareEvent({ plantId: "p1", kind: "fertilizing" });
+        sql.exec(
+          `UPDATE care_events SET performed_at = ? WHERE plant_id = 'p1'`,
+          daysAgo(31)
+        );
+        // Never misted: due once the frequency has passed since it was set
+        sql.exec(
+          `UPDATE care_schedules SET set_at = ? WHERE plant_id = 'p2'`,
+          daysAgo(3)
+        );
+
+        expect(
+          instance
+            .getPlantsNeedingCare()
+            .map(({ plant, kind }) => [plant.id, kind])
+        ).toEqual([
+          ["p1", "fertilizing"],
+          ["p2", "misting"]
+        ]);
+        expect(
+          instance.getPlantsNeedingCare("misting").map(({ plant }) => plant.id)
+        ).toEqual(["p2"]);
+
+        // Monty has no frequencies set, and removed plants are not due
+        await instance.removePlant("p1");
+        expect(instance.getPlantsNeedingCare("fertilizing")).toEqual([]);
+      }
+    );
+  });
+
+  it("updates and clears care frequencies", async () => {
+    await runInDurableObject(
+      getStub("frequencies"),
+      async (instance: PlantCare) => {
+        await instance.addPlant({
+          id: "p1",
+          name: "Fernie",
+          type: "Boston Fern"
+        });
+
+        instance.setCareFrequency({
+          plantId: "p1",
+          kind: "repotting",
+          frequencyDays: 365
+        });
+        expect(
+          instance.setCareFrequency({
+            plantId: "p1",
+            kind: "repotting",
+            frequencyDays: 540
+          })
+        ).toEqual([
+          expect.objectContaining({ kind: "repotting", frequencyDays: 540 })
+        ]);
+
+        expect(
+          instance.setCareFrequency({
+            plantId: "p1",
+            kind: "repotting",
+            frequencyDays: null
+          })
+        ).toEqual([]);
+      }
+    );
+  });
+
+  it("carries fertilizing recorded in watering notes over as care events", async () => {
+    await runInDurableObject(
+      getStub("backfill"),
+      async (instance: PlantCare, state) => {
+        const sql = state.storage.sql;
+        await instance.addPlant({
+          id: "p1",
+          name: "Fernie",
+          type: "Boston Fern"
+        });
+        await instance.waterPlant("p1", "added fertilizer");
+        await instance.waterPlant("p1", "just water");
+        // Pretend this Durable Object was last migrated before care events existed
+        sql.exec(`DROP TABLE care_events`);
+        sql.exec(`DROP TABLE care_schedules`);
+        sql.exec(`DELETE FROM schema_version WHERE version >= 6`);
+
+        runMigrations(
+          state.storage,
+          migrations.filter((migration) => migration.version <= 6)
+        );
+
+        expect(instance.getCareHistory("p1")).toEqual([
+          expect.objectContaining({
+            kind: "fertilizing",
+            notes: "added fertilizer"
+          })
+        ]);
+      }
+    );
+  });
+});
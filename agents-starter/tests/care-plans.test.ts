@@ -0,0 +1,111 @@
+import { env, introspectWorkflow, runInDurableObject } from "cloudflare:test";
+import { describe, it, expect, vi } from "vitest";
+import { getAgentByName } from "agents";
+import type { PlantCare } from "../src/server";
+
+function getAgent(name: string) {
+  return getAgentByName(env.PlantCare, name);
+}
+
+describe("Care plans", () => {
+  it("runs every step through the workflow and reports progress", async () => {
+    const introspector = await introspectWorkflow(env.CARE_PLAN_WORKFLOW);
+    try {
+      await introspector.modifyAll(async (m) => {
+        await m.disableSleeps();
+        // Reminder steps would post to the chat and call the model
+        await m.mockStepResult({ name: "step 2: check" }, "done");
+      });
+
+      const agent = await getAgent("plan-run");
+      await agent.addPlant({ id: "p1", name: "Fernie", type: "Boston Fern" });
+      const plan = await agent.startCarePlan({
+        plantId: "p1",
+        name: "Recovery",
+        steps: [
+          { action: "water", afterDays: 0 },
+          { action: "check", afterDays: 2, instructions: "look for drooping" },
+          { action: "water", afterDays: 14, instructions: "deep soak" }
+        ]
+      });
+      expect(plan?.status).toBe("running");
+
+      const [instance] = introspector.get();
+      await instance.waitForStatus("complete");
+
+      const [finished] = await agent.getCarePlans("p1");
+      expect(finished).toMatchObject({
+        id: plan?.id,
+        status: "complete",
+        completedSteps: 3,
+        error: null
+      });
+      const history = await agent.getWateringHistory("p1");
+      expect(history.map((event) => event.notes).sort()).toEqual([
+        "Care plan: Recovery",
+        "deep soak"
+      ]);
+    } finally {
+      await introspector.dispose();
+    }
+  });
+
+  it("stops a plan when its plant is removed", async () => {
+    const introspector = await introspectWorkflow(env.CARE_PLAN_WORKFLOW);
+    try {
+      const agent = await getAgent("plan-remove");
+      await agent.addPlant({ id: "p1", name: "Spike", type: "Snake Plant" });
+      const plan = await agent.startCarePlan({
+        plantId: "p1",
+        name: "Feeding",
+        steps: [{ action: "fertilize", afterDays: 14 }]
+      });
+
+      // Removed while the workflow sleeps before its first step
+      const [instance] = introspector.get();
+      await instance.waitForStatus("running");
+      const stub = env.PlantCare.get(env.PlantCare.idFromName("plan-remove"));
+      const terminated = await runInDurableObject(
+        stub,
+        async (plantCare: PlantCare) => {
+          // The local workflows runtime cannot terminate instances yet
+          const terminate = vi.fn().mockResolvedValue(undefined);
+          const get = vi.fn().mockResolvedValue({ terminate });
+          const agentEnv = plantCare["env"];
+          const workflows = agentEnv.CARE_PLAN_WORKFLOW;
+          agentEnv.CARE_PLAN_WORKFLOW = { get } as unknown as Workflow;
+          try {
+            await plantCare.removePlant("p1");
+          } finally {
+            agentEnv.CARE_PLAN_WORKFLOW = workflows;
+          }
+          return { ids: get.mock.calls.map(([id]) => id), terminate };
+        }
+      );
+      expect(terminated.ids).toEqual([plan?.id]);
+      expect(terminated.terminate).toHaveBeenCalledOnce();
+      // A workflow that gives up afterwards does not undo the cancellation
+      await agent.failCarePlan(plan?.id ?? "", "Error: step failed");
+
+      const [cancelled] = await agent.getCarePlans("p1");
+      expect(cancelled).toMatchObject({
+        id: plan?.id,
+        status: "cancelled",
+        completedSteps: 0
+      });
+    } finally {
+      await introspector.dispose();
+    }
+  });
+
+  it("does not start a plan for an unknown plant", async () => {
+    const agent = await getAgent("plan-missing");
+    expect(
+      await agent.startCarePlan({
+        plantId: "missing",
+        name: "Feeding",
+        steps: [{ action: "fertilize", afterDays: 0 }]
+      })
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,183 @@
+import { env, runInDurableObject } from "cloudflare:test";
+import { describe, it, expect, vi } from "vitest";
+import type { PlantCare } from "../src/server";
+import { buildDiagnosisPrompt, summarizeDiagnosis } from "../src/diagnosis";
+import {
+  DAY_MS,
+  type PlantDiagnosis,
+  type ScheduledPlant
+} from "../src/shared";
+
+function getStub(name: string) {
+  return env.PlantCare.get(env.PlantCare.idFromName(name));
+}
+
+const rootRot: PlantDiagnosis = {
+  summary: "Root rot from soil that stays wet.",
+  likelyCauses: [
+    {
+      cause: "overwatering",
+      confidence: 0.8,
+      explanation: "Watered every 2 days in low light"
+    },
+    { cause: "poor drainage", confidence: 0.4, explanation: "Mushy base" }
+  ],
+  recommendedActions: ["Unpot and trim rotten roots", "Repot in dry soil"],
+  urgency: "high"
+};
+
+describe("Diagnosis prompt", () => {
+  it("includes the plant profile and recent watering", () => {
+    const now = new Date("2025-06-10T12:00:00.000Z");
+    const plant: ScheduledPlant = {
+      id: "p1",
+      name: "Spike",
+      type: "Snake Plant",
+      speciesId: "dracaena-trifasciata",
+      location: "hallway",
+      locationId: null,
+      lightRequirement: "low light",
+      waterFrequencyDays: 14,
+      potSizeCm: null,
+      lightLevel: null,
+      lastWatered: null,
+      notes: null,
+      caretakerId: null,
+      createdAt: "2025-01-01T00:00:00.000Z",
+      archivedAt: null,
+      wateringInterval: {
+        baseDays: 14,
+        days: 14,
+        season: "summer",
+        adjustments: []
+      }
+    };
+
+    const prompt = buildDiagnosisPrompt(
+      {
+        plant,
+        symptoms: "mushy base",
+        wateringHistory: [
+          {
+            id: "w2",
+            plantId: "p1",
+            wateredAt: new Date(now.getTime() - 2 * DAY_MS).toISOString(),
+            notes: "soaked",
+            memberId: null
+          },
+          {
+            id: "w1",
+            plantId: "p1",
+            wateredAt: new Date(now.getTime() - 4 * DAY_MS).toISOString(),
+            notes: null,
+            memberId: null
+          }
+        ]
+      },
+      now
+    );
+
+    expect(prompt).toContain("Species: Snake Plant");
+    expect(prompt).toContain("Location: hallway");
+    expect(prompt).toContain("Light: low light");
+    expect(prompt).toContain("Watering schedule: every 14 days");
+    expect(prompt).toContain("- 2 days ago (soaked)\n- 4 days ago");
+    expect(prompt).toContain("Symptoms: mushy base");
+  });
+
+  it("gives the watering interval as adjusted for the season", () => {
+    const prompt = buildDiagnosisPrompt({
+      plant: {
+        id: "p1",
+        name: "Spike",
+        type: "Snake Plant",
+        speciesId: "dracaena-trifasciata",
+        location: null,
+        locationId: null,
+        lightRequirement: null,
+        waterFrequencyDays: 14,
+        potSizeCm: null,
+        lightLevel: null,
+        lastWatered: null,
+        notes: null,
+        caretakerId: null,
+        createdAt: "2025-01-01T00:00:00.000Z",
+        archivedAt: null,
+        wateringInterval: {
+          baseDays: 14,
+          days: 18,
+          season: "winter",
+          adjustments: [{ factor: 1.3, reason: "slower growth in winter" }]
+        }
+      },
+      symptoms: "wrinkled leaves",
+      wateringHistory: []
+    });
+
+    expect(prompt).toContain(
+      "Watering schedule: every 18 days instead of 14: slower growth in winter"
+    );
+  });
+
+  it("summarizes the most likely cause and urgency", () => {
+    expect(summarizeDiagnosis(rootRot)).toBe(
+      "Root rot from soil that stays wet. Most likely cause: overwatering (80% confidence). Urgency: high."
+    );
+  });
+});
+
+describe("diagnoseHealthIssue", () => {
+  it("stores the structured diagnosis on the issue", async () => {
+    await runInDurableObject(
+      getStub("diagnose"),
+      async (instance: PlantCare) => {
+        const requestDiagnosis = vi
+          .spyOn(instance, "requestDiagnosis")
+          .mockResolvedValue(rootRot);
+        await instance.addPlant({
+          id: "p1",
+          name: "Spike",
+          type: "Snake Plant"
+        });
+        await instance.waterPlant("p1", "soaked");
+        const { issueId } = instance.recordHealthIssue("p1", "mushy base");
+
+        const issue = await instance.diagnoseHealthIssue(issueId);
+
+        expect(requestDiagnosis).toHaveBeenCalledWith(
+          expect.objectContaining({
+            plant: expect.objectContaining({
+              id: "p1",
+              wateringInterval: instance.getWateringInterval(
+                instance.getPlant("p1")!
+              )
+            }),
+            symptoms: "mushy base",
+            wateringHistory: [expect.objectContaining({ notes: "soaked" })]
+          })
+        );
+        expect(issue).toMatchObject({
+          diagnosis: summarizeDiagnosis(rootRot),
+          diagnosisDetails: rootRot
+        });
+        expect(instance.getHealthIssues("p1")[0].diagnosisDetails).toEqual(
+          rootRot
+        );
+
+        // A diagnosis entered by hand replaces the structured one
+        expect(
+          instance.updateDiagnosis(issueId, "just thirsty")?.diagnosisDetails
+        ).toBeNull();
+      }
+    );
+  });
+
+  it("returns null for unknown issues", async () => {
+    await runInDurableObject(
+      getStub("unknown"),
+      async (instance: PlantCare) => {
+        expect(await instance.diagnoseHealthIssue("missing")).toBeNull();
+      }
+    );
+  });
+});
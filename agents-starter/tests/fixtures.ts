@@ -0,0 +1,26 @@
+import type { Plant } from "../src/shared";
+
+/**
+ * A plant as PlantCare stores it, for tests that do not need a Durable Object:
+ * a never-watered Boston Fern on a weekly schedule unless overridden
+ */
+export function makePlant(overrides: Partial<Plant> = {}): Plant {
+  return {
+    id: "p1",
+    name: "Fernie",
+    type: "Boston Fern",
+    speciesId: "nephrolepis-exaltata",
+    location: null,
+    locationId: null,
+    lightRequirement: null,
+    waterFrequencyDays: 7,
+    potSizeCm: null,
+    lightLevel: null,
+    lastWatered: null,
+    notes: null,
+    caretakerId: null,
+    createdAt: "2025-01-01T00:00:00.000Z",
+    archivedAt: null,
+    ...overrides
+  };
+}
@@ -0,0 +1,187 @@
+import { env, runInDurableObject } from "cloudflare:test";
+import { describe, it, expect, vi } from "vitest";
+import type { PlantCare } from "../src/server";
+import type { ReminderPayload } from "../src/shared";
+
+function getStub(name: string) {
+  return env.PlantCare.get(env.PlantCare.idFromName(name));
+}
+
+function checkIns(instance: PlantCare) {
+  return instance
+    .getSchedules<ReminderPayload>()
+    .filter((task) => task.payload.kind === "health-check");
+}
+
+describe("Health issue lifecycle", () => {
+  it("moves an issue from reported to diagnosed, treating and resolved", async () => {
+    await runInDurableObject(
+      getStub("lifecycle"),
+      async (instance: PlantCare) => {
+        await instance.addPlant({
+          id: "p1",
+          name: "Fernie",
+          type: "Boston Fern"
+        });
+        const { issueId } = instance.recordHealthIssue("p1", "brown tips");
+        expect(instance.getHealthIssueLifecycle("p1")[0].status).toBe(
+          "reported"
+        );
+
+        const diagnosed = instance.updateDiagnosis(issueId, "low humidity");
+        expect(diagnosed).toMatchObject({ diagnosis: "low humidity" });
+        expect(diagnosed?.diagnosedAt).not.toBeNull();
+        expect(instance.getHealthIssueLifecycle("p1")[0].status).toBe(
+          "diagnosed"
+        );
+
+        const treatment = await instance.recommendTreatment({
+          issueId,
+          steps: ["trim brown tips", "mist daily"],
+          followUpDays: 5
+        });
+        expect(treatment?.treatmentSteps.map((step) => step.position)).toEqual([
+          1, 2
+        ]);
+
+        const [step] = treatment!.treatmentSteps;
+        expect(
+          instance.completeTreatmentStep(step.id)?.completedAt
+        ).not.toBeNull();
+
+        const [treating] = instance.getHealthIssueLifecycle("p1");
+        expect(treating.status).toBe("treating");
+        expect(treating.nextCheckInAt).toBe(treatment?.followUpAt);
+        expect(
+          treating.treatmentSteps.map((s) => s.completedAt !== null)
+        ).toEqual([true, false]);
+
+        const resolved = await instance.resolveHealthIssue(
+          issueId,
+          "humidifier helped"
+        );
+        expect(resolved).toMatchObject({
+          resolved: true,
+          resolution: "humidifier helped"
+        });
+        expect(instance.getHealthIssueLifecycle("p1")).toEqual([]);
+        expect(instance.getHealthIssueLifecycle("p1", true)[0]).toMatchObject({
+          status: "resolved",
+          nextCheckInAt: null
+        });
+      }
+    );
+  });
+
+  it("schedules a follow-up check-in and cancels it on resolution", async () => {
+    await runInDurableObject(
+      getStub("check-in"),
+      async (instance: PlantCare) => {
+        await instance.addPlant({
+          id: "p1",
+          name: "Spike",
+          type: "Snake Plant"
+        });
+        const { issueId } = instance.recordHealthIssue("p1", "mushy base");
+
+        const before = Math.floor(Date.now() / 1000);
+        await instance.recommendTreatment({
+          issueId,
+          steps: ["repot in dry soil"]
+        });
+
+        const [checkIn] = checkIns(instance);
+        expect(checkIn.payload).toEqual({
+          plantId: "p1",
+          kind: "health-check",
+          issueId
+        });
+        // Defaults to three days out
+        expect(checkIn.time).toBeGreaterThanOrEqual(before + 3 * 24 * 60 * 60);
+
+        await instance.resolveHealthIssue(issueId);
+        expect(checkIns(instance)).toEqual([]);
+        expect(
+          await instance.recommendTreatment({ issueId, steps: ["too late"] })
+        ).toBeNull();
+      }
+    );
+  });
+
+  it("picks check-ins back up when a removed plant is restored", async () => {
+    await runInDurableObject(
+      getStub("check-in-restore"),
+      async (instance: PlantCare) => {
+        await instance.addPlant({
+          id: "p1",
+          name: "Spike",
+          type: "Snake Plant"
+        });
+        const { issueId } = instance.recordHealthIssue("p1", "mushy base");
+        await instance.recommendTreatment({
+          issueId,
+          steps: ["repot in dry soil"]
+        });
+        // Reported but not being treated, so nothing to check in on
+        instance.recordHealthIssue("p1", "dusty leaves");
+
+        await instance.removePlant("p1");
+        expect(checkIns(instance)).toEqual([]);
+
+        await instance.restorePlant("p1");
+        expect(checkIns(instance).map((checkIn) => checkIn.payload)).toEqual([
+          { plantId: "p1", kind: "health-check", issueId }
+        ]);
+        expect(
+          instance
+            .getHealthIssueLifecycle("p1")
+            .find((issue) => issue.id === issueId)?.nextCheckInAt
+        ).toEqual(expect.any(String));
+      }
+    );
+  });
+
+  it("only checks in on issues that are still open", async () => {
+    await runInDurableObject(
+      getStub("check-in-run"),
+      async (instance: PlantCare) => {
+        const saveMessages = vi
+          .spyOn(instance, "saveMessages")
+          .mockResolvedValue(undefined);
+        await instance.addPlant({
+          id: "p1",
+          name: "Spike",
+          type: "Snake Plant"
+        });
+        const { issueId } = instance.recordHealthIssue("p1", "mushy base");
+        await instance.recommendTreatment({
+          issueId,
+          steps: ["repot in dry soil"]
+        });
+        const [checkIn] = checkIns(instance);
+
+        await instance.executeTask(checkIn.payload, checkIn);
+        const [messages] = saveMessages.mock.calls[0];
+        const part = messages[messages.length - 1].parts[0];
+        expect(part.type === "text" && part.text).toContain(
+          'Check-in on Spike (Snake Plant): how is "mushy base" looking now? 0 of 1 treatment steps done, still to do: repot in dry soil.'
+        );
+
+        await instance.resolveHealthIssue(issueId);
+        await instance.executeTask(checkIn.payload, checkIn);
+        expect(saveMessages).toHaveBeenCalledTimes(1);
+      }
+    );
+  });
+
+  it("returns null for unknown issues and steps", async () => {
+    await runInDurableObject(
+      getStub("unknown"),
+      async (instance: PlantCare) => {
+        expect(instance.updateDiagnosis("missing", "overwatering")).toBeNull();
+        expect(instance.completeTreatmentStep("missing")).toBeNull();
+        expect(await instance.resolveHealthIssue("missing")).toBeNull();
+      }
+    );
+  });
+});
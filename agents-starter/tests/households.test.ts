@@ -0,0 +1,305 @@
+import {
+  env,
+  createExecutionContext,
+  runInDurableObject,
+  waitOnExecutionContext
+} from "cloudflare:test";
+import { describe, it, expect, vi } from "vitest";
+import { getAgentByName } from "agents";
+import { createSessionToken } from "../src/auth";
+import worker, { type PlantCare } from "../src/server";
+import { DAY_MS, type ReminderPayload } from "../src/shared";
+
+function getStub(name: string) {
+  return env.PlantCare.get(env.PlantCare.idFromName(name));
+}
+
+async function signedIn(request: Request, userId: string) {
+  const token = await createSessionToken({ id: userId }, env.AUTH_SECRET);
+  request.headers.set("Authorization", `Bearer ${token}`);
+  return request;
+}
+
+/**
+ * Capture posted reminders instead of handing them to the model
+ */
+function capturePostedReminders(instance: PlantCare) {
+  const saveMessages = vi
+    .spyOn(instance, "saveMessages")
+    .mockResolvedValue(undefined);
+  return () =>
+    saveMessages.mock.calls.map(([messages]) => {
+      const part = messages[messages.length - 1].parts[0];
+      return part.type === "text" ? part.text : "";
+    });
+}
+
+describe("Households", () => {
+  it("lets the first member in and everyone else only with an invitation", async () => {
+    await runInDurableObject(
+      getStub("household-join"),
+      async (instance: PlantCare, state) => {
+        const owner = instance.joinHousehold({ name: "Alex" })!;
+        expect(owner).toMatchObject({ name: "Alex", role: "owner" });
+        expect(instance.joinHousehold({ name: "Sam" })).toBeNull();
+
+        const invitation = instance.inviteMember({ name: "Sam" }, owner.id);
+        expect(invitation).toMatchObject({ name: "Sam", invitedBy: owner.id });
+        expect(instance.getInvitations()).toHaveLength(1);
+
+        const sam = instance.joinHousehold({
+          name: " Sam ",
+          inviteCode: invitation.code
+        })!;
+        expect(sam).toMatchObject({ name: "Sam", role: "member" });
+        expect(instance.getInvitations()).toEqual([]);
+        expect(
+          instance.joinHousehold({ name: "Eve", inviteCode: invitation.code })
+        ).toBeNull();
+
+        const expired = instance.inviteMember();
+        state.storage.sql.exec(
+          "UPDATE invitations SET expires_at = ? WHERE code = ?",
+          new Date(Date.now() - DAY_MS).toISOString(),
+          expired.code
+        );
+        expect(
+          instance.joinHousehold({ name: "Kim", inviteCode: expired.code })
+        ).toBeNull();
+
+        const revoked = instance.inviteMember();
+        expect(instance.revokeInvitation(revoked.code)).toBe(true);
+        expect(instance.revokeInvitation(invitation.code)).toBe(false);
+        expect(instance.getMembers().map((member) => member.name)).toEqual([
+          "Alex",
+          "Sam"
+        ]);
+      }
+    );
+  });
+
+  it("hands the collection from before sign-in to the first signed-in user", async () => {
+    // Sets the instance name, which is what marks the collection as legacy
+    await getAgentByName(env.PlantCare, "default");
+    await runInDurableObject(
+      getStub("default"),
+      async (instance: PlantCare) => {
+        const alex = instance.joinHousehold({ name: "Alex" })!;
+        const sam = instance.joinHousehold({
+          name: "Sam",
+          inviteCode: instance.inviteMember().code
+        })!;
+        expect(instance.isUnclaimed()).toBe(true);
+
+        // Typing a member's name does not take over their row
+        const claimed = instance.joinHousehold({ name: "Sam" }, "user-sam")!;
+        expect(claimed).toMatchObject({ name: "Sam", role: "owner" });
+        expect(claimed.id).not.toBe(sam.id);
+        expect(instance.getMemberForUser("user-sam")?.id).toBe(claimed.id);
+        expect(instance.getMember(alex.id)?.role).toBe("member");
+        expect(instance.isUnclaimed()).toBe(false);
+        expect(
+          instance.joinHousehold({ name: "Alex" }, "user-alex")
+        ).toBeNull();
+      }
+    );
+
+    const other = await getAgentByName(env.PlantCare, "household-claim");
+    await other.joinHousehold({ name: "Alex" });
+    expect(await other.isUnclaimed()).toBe(false);
+  });
+
+  it("records who watered and cared for each plant", async () => {
+    await runInDurableObject(
+      getStub("household-attribution"),
+      async (instance: PlantCare) => {
+        const alex = instance.joinHousehold({ name: "Alex" })!;
+        const sam = instance.joinHousehold({
+          name: "Sam",
+          inviteCode: instance.inviteMember().code
+        })!;
+        await instance.addPlant({ id: "p1", name: "Fernie", type: "Fern" });
+        await instance.addPlant({ id: "p2", name: "Spike", type: "Snake" });
+
+        await instance.waterPlantAs(alex.id, "p1");
+        await instance.waterPlantsAs(sam.id, { all: true });
+        instance.logCareEvent({ plantId: "p2", kind: "misting" }, sam.id);
+        await instance.waterPlant("p2");
+        // A client's extra arguments cannot credit someone else
+        await Reflect.apply(instance.waterPlant, instance, [
+          "p2",
+          undefined,
+          sam.id
+        ]);
+
+        const wateredBy = (plantId: string) =>
+          instance
+            .getWateringHistory(plantId)
+            .map((event) => event.memberId ?? "unknown")
+            .sort();
+        expect(wateredBy("p1")).toEqual([alex.id, sam.id].sort());
+        expect(wateredBy("p2")).toEqual([sam.id, "unknown", "unknown"].sort());
+        expect(instance.getCareHistory("p2")[0].memberId).toBe(sam.id);
+
+        // Removed members keep their history
+        await instance.updatePlant("p2", { caretakerId: sam.id });
+        expect(await instance.removeMember(sam.id)).toBe(true);
+        expect(instance.getMember(sam.id)).toBeNull();
+        expect(instance.getCareHistory("p2")[0].memberId).toBe(sam.id);
+        expect(instance.getPlant("p2")?.caretakerId).toBeNull();
+        expect(instance.getPlantChanges("p2")[0]).toMatchObject({
+          field: "caretakerId",
+          oldValue: sam.id,
+          newValue: null
+        });
+        await expect(
+          instance.updatePlant("p1", { caretakerId: sam.id })
+        ).rejects.toThrow(/Unknown member/);
+      }
+    );
+  });
+
+  it("sends each member the reminders for the plants they look after", async () => {
+    await runInDurableObject(
+      getStub("household-reminders"),
+      async (instance: PlantCare, state) => {
+        const posted = capturePostedReminders(instance);
+        instance.joinHousehold({ name: "Alex" });
+        const sam = instance.joinHousehold({
+          name: "Sam",
+          inviteCode: instance.inviteMember().code
+        })!;
+        await instance.addPlant({ id: "p1", name: "Fernie", type: "Fern" });
+        await instance.addPlant({ id: "p2", name: "Spike", type: "Snake" });
+        await instance.updatePlant("p1", { caretakerId: sam.id });
+        state.storage.sql.exec(
+          "UPDATE plants SET last_watered = ?",
+          new Date(Date.now() - 8 * DAY_MS).toISOString()
+        );
+
+        const [task] = instance
+          .getSchedules<ReminderPayload>()
+          .filter(
+            (schedule) =>
+              schedule.payload.plantId === "p1" &&
+              schedule.payload.kind === "watering"
+          );
+        await instance.executeTask(task.payload, task);
+
+        expect(posted()).toHaveLength(2);
+        const forSam = posted().find((text) =>
+          text.startsWith("Scheduled reminder for Sam:")
+        );
+        const forEveryone = posted().find((text) =>
+          text.startsWith("Scheduled reminder:")
+        );
+        expect(forSam).toContain("Fernie");
+        expect(forSam).not.toContain("Spike");
+        expect(forEveryone).toContain("Spike");
+
+        const custom = await instance.scheduleCustomReminder(
+          "p2",
+          3600,
+          "Dust the leaves",
+          sam.id
+        );
+        expect(instance.getReminders("p2")).toContainEqual(
+          expect.objectContaining({ id: custom.id, memberId: sam.id })
+        );
+        await instance.executeTask(custom.payload, custom);
+        expect(posted()[2]).toBe("Scheduled reminder for Sam: Dust the leaves");
+      }
+    );
+  });
+
+  it("is exposed over the REST API to the household's members", async () => {
+    // Alex signs in as the user whose own instance this is
+    async function request(
+      path: string,
+      init?: RequestInit,
+      userId = "rest-household"
+    ) {
+      const ctx = createExecutionContext();
+      const response = await worker.fetch(
+        await signedIn(
+          new Request(
+            `http://example.com/api/agents/rest-household${path}`,
+            init
+          ),
+          userId
+        ),
+        env,
+        ctx
+      );
+      await waitOnExecutionContext(ctx);
+      return response;
+    }
+    const post = (path: string, body: unknown = {}, userId?: string) =>
+      request(path, { method: "POST", body: JSON.stringify(body) }, userId);
+
+    const joined = await post("/members", { name: "Alex" });
+    expect(joined.status).toBe(201);
+    const alex = await joined.json<{ id: string }>();
+    expect(
+      await post("/members", { name: "Alex" }).then((response) =>
+        response.json<{ id: string }>()
+      )
+    ).toEqual(alex);
+    expect((await post("/members", { name: "Sam" }, "sam")).status).toBe(403);
+    expect((await request("/plants", undefined, "sam")).status).toBe(403);
+
+    const invited = await post("/invitations", { name: "Sam" });
+    expect(invited.status).toBe(201);
+    const { code, invitedBy } = await invited.json<{
+      code: string;
+      invitedBy: string;
+    }>();
+    expect(invitedBy).toBe(alex.id);
+    const sam = await post(
+      "/members",
+      { name: "Sam", inviteCode: code },
+      "sam"
+    ).then((response) => response.json<{ id: string }>());
+    expect(
+      await request("/members/me", undefined, "sam").then((response) =>
+        response.json()
+      )
+    ).toMatchObject({ id: sam.id, name: "Sam" });
+
+    const { id } = await post("/plants", {
+      name: "Spike",
+      type: "Snake Plant"
+    }).then((response) => response.json<{ id: string }>());
+    expect((await post(`/plants/${id}/water`, {}, "sam")).status).toBe(201);
+    const history = await request(`/plants/${id}/water`).then((response) =>
+      response.json<{ memberId: string | null }[]>()
+    );
+    expect(history[0].memberId).toBe(sam.id);
+
+    // Only the owner manages who is in the household
+    expect((await post("/invitations", {}, "sam")).status).toBe(403);
+    const open = await post("/invitations").then((response) =>
+      response.json<{ code: string }>()
+    );
+    expect(
+      (await request(`/invitations/${open.code}`, { method: "DELETE" }, "sam"))
+        .status
+    ).toBe(403);
+    expect(
+      (await request(`/members/${alex.id}`, { method: "DELETE" }, "sam")).status
+    ).toBe(403);
+
+    const members = await request("/members").then((response) =>
+      response.json<{ name: string }[]>()
+    );
+    expect(members.map((member) => member.name)).toEqual(["Alex", "Sam"]);
+    // ...but members may leave
+    expect(
+      (await request(`/members/${sam.id}`, { method: "DELETE" }, "sam")).status
+    ).toBe(204);
+    expect((await request("/plants", undefined, "sam")).status).toBe(403);
+    expect(
+      (await request(`/invitations/${code}`, { method: "DELETE" })).status
+    ).toBe(404);
+  });
+});
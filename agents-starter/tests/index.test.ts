@@ -5,6 +5,7 @@ import {
 } from "cloudflare:test";
 import { describe, it, expect } from "vitest";
 // Could import any other source file/function here
+import { createSessionToken } from "../src/auth";
 import worker from "../src/server";
 
 declare module "cloudflare:test" {
@@ -14,7 +15,10 @@ declare module "cloudflare:test" {
 
 describe("Chat worker", () => {
   it("responds with Not found", async () => {
-    const request = new Request("http://example.com");
+    const token = await createSessionToken({ id: "index" }, env.AUTH_SECRET);
+    const request = new Request("http://example.com", {
+      headers: { Authorization: `Bearer ${token}` }
+    });
     // Create an empty context to pass to `worker.fetch()`
     const ctx = createExecutionContext();
     const response = await worker.fetch(request, env, ctx);
@@ -0,0 +1,131 @@
+import { env, runInDurableObject } from "cloudflare:test";
+import { describe, it, expect } from "vitest";
+import type { PlantCare } from "../src/server";
+import { findOrphans, removeOrphans } from "../src/db/integrity";
+import { migrations, runMigrations } from "../src/db/migrations";
+
+function getStub(name: string) {
+  return env.PlantCare.get(env.PlantCare.idFromName(name));
+}
+
+function countRows(sql: SqlStorage, table: string, plantId: string) {
+  return sql
+    .exec<{
+      count: number;
+    }>(`SELECT COUNT(*) AS count FROM ${table} WHERE plant_id = ?`, plantId)
+    .one().count;
+}
+
+/**
+ * Insert history rows pointing at a plant that does not exist,
+ * as happened when plants were deleted without foreign key enforcement
+ */
+function insertOrphans(sql: SqlStorage) {
+  sql.exec(`PRAGMA foreign_keys = OFF`);
+  sql.exec(
+    `INSERT INTO watering_history (id, plant_id) VALUES ('w-orphan', 'gone')`
+  );
+  sql.exec(
+    `INSERT INTO health_issues (id, plant_id, issue_description) VALUES ('h-orphan', 'gone', 'yellow leaves')`
+  );
+  sql.exec(`PRAGMA foreign_keys = ON`);
+}
+
+describe("Foreign key enforcement", () => {
+  it("is enabled when PlantCare starts", async () => {
+    await runInDurableObject(getStub("pragma"), async (_instance, state) => {
+      const row = state.storage.sql
+        .exec<{ foreign_keys: number }>(`PRAGMA foreign_keys`)
+        .one();
+      expect(row.foreign_keys).toBe(1);
+    });
+  });
+
+  it("removes watering and health history when a removed plant is purged", async () => {
+    await runInDurableObject(
+      getStub("cascade"),
+      async (instance: PlantCare, state) => {
+        const sql = state.storage.sql;
+        await instance.addPlant({
+          id: "p1",
+          name: "Fernie",
+          type: "Boston Fern"
+        });
+        await instance.addPlant({
+          id: "p2",
+          name: "Spike",
+          type: "Snake Plant"
+        });
+        await instance.waterPlant("p1", "first drink");
+        await instance.waterPlant("p1");
+        await instance.waterPlant("p2");
+        instance.recordHealthIssue("p1", "brown tips");
+
+        expect(countRows(sql, "watering_history", "p1")).toBe(2);
+        expect(countRows(sql, "health_issues", "p1")).toBe(1);
+
+        const removed = await instance.removePlant("p1");
+        expect(removed?.name).toBe("Fernie");
+        // Archived plants keep their history until the retention window ends
+        expect(countRows(sql, "watering_history", "p1")).toBe(2);
+
+        sql.exec(
+          `UPDATE plants SET archived_at = '2000-01-01T00:00:00.000Z' WHERE id = 'p1'`
+        );
+        await instance.purgeArchivedPlant("p1");
+
+        expect(instance.getPlant("p1", true)).toBeNull();
+        expect(countRows(sql, "watering_history", "p1")).toBe(0);
+        expect(countRows(sql, "health_issues", "p1")).toBe(0);
+        // Other plants keep their history
+        expect(countRows(sql, "watering_history", "p2")).toBe(1);
+      }
+    );
+  });
+
+  it("rejects history for a plant that does not exist", async () => {
+    await runInDurableObject(getStub("reject"), async (_instance, state) => {
+      expect(() =>
+        state.storage.sql.exec(
+          `INSERT INTO watering_history (id, plant_id) VALUES ('w1', 'missing')`
+        )
+      ).toThrow(/FOREIGN KEY/);
+    });
+  });
+});
+
+describe("Orphan repair", () => {
+  it("finds and removes orphaned history rows", async () => {
+    await runInDurableObject(getStub("orphans"), async (_instance, state) => {
+      const sql = state.storage.sql;
+      insertOrphans(sql);
+
+      expect(findOrphans(sql)).toEqual({
+        watering_history: 1,
+        health_issues: 1
+      });
+      expect(removeOrphans(sql)).toEqual({
+        watering_history: 1,
+        health_issues: 1
+      });
+      expect(findOrphans(sql)).toEqual({});
+    });
+  });
+
+  it("runs once as a migration on existing Durable Objects", async () => {
+    await runInDurableObject(getStub("repair"), async (_instance, state) => {
+      const sql = state.storage.sql;
+      insertOrphans(sql);
+      // Pretend this Durable Object was last migrated before the repair pass
+      sql.exec(`DELETE FROM schema_version WHERE version >= 2`);
+
+      runMigrations(
+        state.storage,
+        migrations.filter((migration) => migration.version <= 2)
+      );
+
+      expect(findOrphans(sql)).toEqual({});
+      expect(countRows(sql, "watering_history", "gone")).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,239 @@
+import {
+  env,
+  createExecutionContext,
+  runInDurableObject,
+  waitOnExecutionContext
+} from "cloudflare:test";
+import { describe, it, expect } from "vitest";
+import { createSessionToken } from "../src/auth";
+import worker, { type PlantCare } from "../src/server";
+import { resolveLocationReference } from "../src/plant-resolver";
+import { DAY_MS, type PlantLocation } from "../src/shared";
+import { describeWateringInterval } from "../src/watering";
+
+function getStub(name: string) {
+  return env.PlantCare.get(env.PlantCare.idFromName(name));
+}
+
+/**
+ * Send a request as the user whose own PlantCare instance it addresses
+ */
+async function signedIn(request: Request, userId: string) {
+  const token = await createSessionToken({ id: userId }, env.AUTH_SECRET);
+  request.headers.set("Authorization", `Bearer ${token}`);
+  return request;
+}
+
+function location(id: string, name: string): PlantLocation {
+  return {
+    id,
+    name,
+    lightLevel: null,
+    windowDirection: null,
+    humidity: null,
+    temperature: null,
+    createdAt: "2025-01-01T00:00:00.000Z"
+  };
+}
+
+describe("Locations", () => {
+  it("matches how the user names a room", () => {
+    const rooms = [location("l1", "Bedroom"), location("l2", "Living Room")];
+    const resolve = (reference: string) =>
+      resolveLocationReference(reference, rooms)?.id ?? null;
+
+    expect(resolve("the bedroom")).toBe("l1");
+    expect(resolve("bedrom")).toBe("l1");
+    expect(resolve("living room window")).toBe("l2");
+    expect(resolve("l2")).toBe("l2");
+    expect(resolve("kitchen")).toBeNull();
+    expect(resolve("room")).toBeNull();
+  });
+
+  it("keeps other rooms with a similar name apart", () => {
+    const rooms = [location("l1", "Bedroom"), location("l2", "Bedroom 1")];
+    const resolve = (reference: string) =>
+      resolveLocationReference(reference, rooms)?.id ?? null;
+
+    expect(resolve("Guest bedroom")).toBeNull();
+    expect(resolve("master bedroom")).toBeNull();
+    expect(resolve("Bedroom 2")).toBeNull();
+    expect(resolve("bedroom 1 corner")).toBe("l2");
+    expect(resolve("bedroom window")).toBe("l1");
+  });
+
+  it("groups plants under one room however it is written", async () => {
+    await runInDurableObject(
+      getStub("locations-group"),
+      async (instance: PlantCare) => {
+        const fern = await instance.addPlant({
+          id: "p1",
+          name: "Fernie",
+          type: "Boston Fern",
+          location: "Living Room"
+        });
+        const pothos = await instance.addPlant({
+          id: "p2",
+          name: "Potty",
+          type: "Pothos",
+          location: "living room window"
+        });
+
+        const [room] = instance.getLocations();
+        expect(instance.getLocations()).toHaveLength(1);
+        expect(fern).toMatchObject({
+          location: "Living Room",
+          locationId: room.id
+        });
+        expect(pothos.locationId).toBe(room.id);
+
+        const moved = await instance.updatePlant("p2", { location: "Bedroom" });
+        expect(moved?.plant).toMatchObject({ location: "Bedroom" });
+        expect(moved?.changes).toEqual([
+          expect.objectContaining({
+            field: "location",
+            oldValue: "Living Room",
+            newValue: "Bedroom"
+          })
+        ]);
+        expect(instance.getLocations().map((known) => known.name)).toEqual([
+          "Bedroom",
+          "Living Room"
+        ]);
+        expect(instance.addLocation({ name: "bedroom" })).toBeNull();
+
+        await instance.updateLocation(room.id, { name: "Lounge" });
+        expect(instance.getPlant("p1")?.location).toBe("Lounge");
+
+        expect(await instance.removeLocation(room.id)).toBe(true);
+        expect(instance.getPlant("p1")).toMatchObject({
+          location: null,
+          locationId: null
+        });
+      }
+    );
+  });
+
+  it("waters plants for the climate of their room", async () => {
+    await runInDurableObject(
+      getStub("locations-climate"),
+      async (instance: PlantCare, state) => {
+        const bathroom = instance.addLocation({
+          name: "Bathroom",
+          humidity: "humid",
+          lightLevel: "low",
+          windowDirection: "north"
+        })!;
+        await instance.updateCareProfile({ indoorHumidity: "dry" });
+        await instance.addPlant({
+          id: "p1",
+          name: "Nesty",
+          type: "Bird's Nest Fern",
+          location: "bathroom",
+          waterFrequencyDays: 10
+        });
+        await instance.addPlant({
+          id: "p2",
+          name: "Spike",
+          type: "Snake Plant",
+          location: "hallway",
+          waterFrequencyDays: 10
+        });
+
+        const [nesty] = instance
+          .getScheduledPlants()
+          .filter((plant) => plant.id === "p1");
+        // 10 * 1.1 * 1.25 = 13.75
+        expect(nesty.wateringInterval.days).toBe(14);
+        expect(describeWateringInterval(nesty)).toBe(
+          "every 14 days instead of 10: humid air in the bathroom, low light in the bathroom"
+        );
+
+        state.storage.sql.exec(
+          "UPDATE plants SET last_watered = ?",
+          new Date(Date.now() - 12 * DAY_MS).toISOString()
+        );
+        expect(
+          instance.getPlantsNeedingWater(bathroom.id).map((plant) => plant.id)
+        ).toEqual([]);
+        expect(
+          instance.getPlantsNeedingWater().map((plant) => plant.id)
+        ).toEqual(["p2"]);
+
+        // Brighter light moves the reminder for every plant in the room
+        await instance.updateLocation(bathroom.id, { lightLevel: null });
+        expect(
+          instance.getPlantsNeedingWater(bathroom.id).map((plant) => plant.id)
+        ).toEqual(["p1"]);
+      }
+    );
+  });
+
+  it("is exposed over the REST API", async () => {
+    async function request(path: string, init?: RequestInit) {
+      const ctx = createExecutionContext();
+      const response = await worker.fetch(
+        await signedIn(
+          new Request(
+            `http://example.com/api/agents/rest-locations${path}`,
+            init
+          ),
+          "rest-locations"
+        ),
+        env,
+        ctx
+      );
+      await waitOnExecutionContext(ctx);
+      return response;
+    }
+    const send = (path: string, method: string, body: unknown) =>
+      request(path, { method, body: JSON.stringify(body) });
+
+    const created = await send("/locations", "POST", {
+      name: "Bedroom",
+      temperature: "cool"
+    });
+    expect(created.status).toBe(201);
+    const { id } = await created.json<{ id: string }>();
+    expect((await send("/locations", "POST", { name: "bedroom" })).status).toBe(
+      409
+    );
+    expect(
+      (await send(`/locations/${id}`, "PATCH", { windowDirection: "up" }))
+        .status
+    ).toBe(400);
+
+    const spike = await send("/plants", "POST", {
+      name: "Spike",
+      type: "Snake Plant",
+      location: "the bedroom"
+    }).then((response) => response.json<{ id: string }>());
+    const due = await request("/watering-needs?location=bedroom");
+    expect(await due.json()).toEqual([
+      expect.objectContaining({ name: "Spike", locationId: id })
+    ]);
+    expect((await request("/watering-needs?location=attic")).status).toBe(404);
+
+    await send("/locations", "POST", { name: "Kitchen" });
+    expect(
+      (await send(`/locations/${id}`, "PATCH", { name: "kitchen" })).status
+    ).toBe(409);
+    const renamed = await send(`/locations/${id}`, "PATCH", {
+      name: "Guest room"
+    });
+    expect(await renamed.json()).toMatchObject({ name: "Guest room" });
+    const changes = await request(`/plants/${spike.id}/changes`);
+    expect(await changes.json()).toEqual([
+      expect.objectContaining({
+        field: "location",
+        oldValue: "Bedroom",
+        newValue: "Guest room"
+      })
+    ]);
+
+    expect(
+      (await request(`/locations/${id}`, { method: "DELETE" })).status
+    ).toBe(204);
+    expect((await request(`/locations/${id}`)).status).toBe(404);
+  });
+});
@@ -0,0 +1,304 @@
+import { env, runInDurableObject } from "cloudflare:test";
+import { describe, it, expect } from "vitest";
+import {
+  migrations,
+  runMigrations,
+  getSchemaVersion,
+  type Migration
+} from "../src/db/migrations";
+
+// The plant tables exactly as PlantCare created them before versioned migrations
+const V1_TABLES = [
+  `CREATE TABLE plants (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    type TEXT NOT NULL,
+    location TEXT,
+    light_requirement TEXT,
+    water_frequency_days INTEGER,
+    last_watered TEXT,
+    notes TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP
+  )`,
+  `CREATE TABLE watering_history (
+    id TEXT PRIMARY KEY,
+    plant_id TEXT NOT NULL,
+    watered_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    notes TEXT,
+    FOREIGN KEY (plant_id) REFERENCES plants(id) ON DELETE CASCADE
+  )`,
+  `CREATE TABLE health_issues (
+    id TEXT PRIMARY KEY,
+    plant_id TEXT NOT NULL,
+    issue_description TEXT NOT NULL,
+    diagnosis TEXT,
+    resolved INTEGER DEFAULT 0,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    resolved_at TEXT,
+    FOREIGN KEY (plant_id) REFERENCES plants(id) ON DELETE CASCADE
+  )`
+];
+
+/**
+ * Reset a Durable Object's storage to an unversioned v1 database holding one plant
+ */
+function seedV1Database(sql: SqlStorage) {
+  for (const table of [
+    "schema_version",
+    "plant_photos",
+    "health_issues",
+    "watering_history",
+    "plant_changes",
+    "plants",
+    "locations"
+  ]) {
+    sql.exec(`DROP TABLE IF EXISTS ${table}`);
+  }
+  for (const ddl of V1_TABLES) {
+    sql.exec(ddl);
+  }
+  sql.exec(
+    `INSERT INTO plants (id, name, type, water_frequency_days) VALUES ('p1', 'Fernie', 'Boston Fern', 5)`
+  );
+  sql.exec(
+    `INSERT INTO watering_history (id, plant_id, notes) VALUES ('w1', 'p1', 'first drink')`
+  );
+}
+
+function columnNames(sql: SqlStorage, table: string) {
+  return sql
+    .exec<{ name: string }>(`PRAGMA table_info(${table})`)
+    .toArray()
+    .map((column) => column.name);
+}
+
+function getStub(name: string) {
+  return env.PlantCare.get(env.PlantCare.idFromName(name));
+}
+
+describe("Schema migrations", () => {
+  it("brings a fresh Durable Object to the latest version", async () => {
+    await runInDurableObject(getStub("fresh"), async (_instance, state) => {
+      const latest = migrations[migrations.length - 1].version;
+      expect(getSchemaVersion(state.storage.sql)).toBe(latest);
+      // Running again is a no-op
+      expect(runMigrations(state.storage)).toBe(latest);
+    });
+  });
+
+  it("stamps an existing v1 database without touching its data", async () => {
+    await runInDurableObject(getStub("legacy"), async (_instance, state) => {
+      const sql = state.storage.sql;
+      seedV1Database(sql);
+      expect(getSchemaVersion(sql)).toBe(0);
+
+      runMigrations(state.storage, migrations.slice(0, 1));
+
+      expect(getSchemaVersion(sql)).toBe(1);
+      const plants = sql.exec(`SELECT * FROM plants`).toArray();
+      expect(plants).toHaveLength(1);
+      expect(plants[0].name).toBe("Fernie");
+    });
+  });
+
+  it("migrates a v1 database forward", async () => {
+    const addPotSize: Migration = {
+      version: 2,
+      name: "add_pot_size",
+      up: (sql) => {
+        sql.exec(`ALTER TABLE plants ADD COLUMN pot_size_cm INTEGER`);
+        sql.exec(`UPDATE plants SET pot_size_cm = 12`);
+      }
+    };
+
+    await runInDurableObject(getStub("forward"), async (_instance, state) => {
+      const sql = state.storage.sql;
+      seedV1Database(sql);
+
+      const version = runMigrations(state.storage, [
+        ...migrations.slice(0, 1),
+        addPotSize
+      ]);
+
+      expect(version).toBe(2);
+      expect(columnNames(sql, "plants")).toContain("pot_size_cm");
+      const plant = sql.exec(`SELECT * FROM plants WHERE id = 'p1'`).one();
+      expect(plant.pot_size_cm).toBe(12);
+      expect(sql.exec(`SELECT * FROM watering_history`).toArray()).toHaveLength(
+        1
+      );
+    });
+  });
+
+  it("resolves the species of existing plants", async () => {
+    await runInDurableObject(getStub("species"), async (_instance, state) => {
+      const sql = state.storage.sql;
+      seedV1Database(sql);
+      sql.exec(
+        `INSERT INTO plants (id, name, type) VALUES ('p2', 'Penny', 'money plant')`
+      );
+
+      runMigrations(state.storage, [
+        migrations[0],
+        migrations.find((migration) => migration.name === "plant_species")!
+      ]);
+
+      const species = sql
+        .exec(`SELECT id, species_id FROM plants ORDER BY id`)
+        .toArray();
+      expect(species).toEqual([
+        { id: "p1", species_id: "nephrolepis-exaltata" },
+        // Ambiguous names are left for the user to clarify
+        { id: "p2", species_id: null }
+      ]);
+    });
+  });
+
+  it("groups free-text plant locations into rooms", async () => {
+    await runInDurableObject(getStub("locations"), async (_instance, state) => {
+      const sql = state.storage.sql;
+      seedV1Database(sql);
+      sql.exec(
+        `INSERT INTO plants (id, name, type, location) VALUES
+           ('p2', 'Potty', 'Pothos', 'living room window'),
+           ('p3', 'Monty', 'Monstera', 'Living Room'),
+           ('p4', 'Spike', 'Snake Plant', 'bedroom')`
+      );
+
+      runMigrations(state.storage, [
+        migrations[0],
+        ...migrations.filter((migration) =>
+          ["plant_changes", "locations"].includes(migration.name)
+        )
+      ]);
+
+      const locations = sql
+        .exec(`SELECT id, name FROM locations ORDER BY name COLLATE NOCASE`)
+        .toArray();
+      expect(locations.map((location) => location.name)).toEqual([
+        "bedroom",
+        "Living Room"
+      ]);
+      const plants = sql
+        .exec(`SELECT id, location, location_id FROM plants ORDER BY id`)
+        .toArray();
+      expect(plants).toEqual([
+        { id: "p1", location: null, location_id: null },
+        { id: "p2", location: "Living Room", location_id: locations[1].id },
+        { id: "p3", location: "Living Room", location_id: locations[1].id },
+        { id: "p4", location: "bedroom", location_id: locations[0].id }
+      ]);
+      // The old wording stays in the audit trail
+      expect(
+        sql
+          .exec(`SELECT plant_id, old_value, new_value FROM plant_changes`)
+          .toArray()
+      ).toEqual([
+        {
+          plant_id: "p2",
+          old_value: "living room window",
+          new_value: "Living Room"
+        }
+      ]);
+    });
+  });
+
+  it("gives rooms the locations migration merged back their own", async () => {
+    await runInDurableObject(getStub("rooms"), async (_instance, state) => {
+      const sql = state.storage.sql;
+      seedV1Database(sql);
+      sql.exec(
+        `INSERT INTO plants (id, name, type, location) VALUES
+           ('p2', 'Potty', 'Pothos', 'living room window'),
+           ('p3', 'Monty', 'Monstera', 'Living Room'),
+           ('p4', 'Spike', 'Snake Plant', 'bedroom'),
+           ('p5', 'Ivy', 'English Ivy', 'Guest bedroom'),
+           ('p6', 'Zed', 'ZZ Plant', 'Bedroom 2')`
+      );
+      const upTo = (name: string) => [
+        migrations[0],
+        ...migrations.filter((migration) =>
+          ["plant_changes", "locations", name].includes(migration.name)
+        )
+      ];
+
+      runMigrations(state.storage, upTo("locations"));
+      const merged = sql
+        .exec(`SELECT DISTINCT location FROM plants WHERE location IS NOT NULL`)
+        .toArray();
+      expect(merged.map((plant) => plant.location).sort()).toEqual([
+        "Living Room",
+        "bedroom"
+      ]);
+
+      runMigrations(state.storage, upTo("separate_merged_rooms"));
+      const locations = sql
+        .exec(`SELECT id, name FROM locations ORDER BY name COLLATE NOCASE`)
+        .toArray();
+      expect(locations.map((location) => location.name)).toEqual([
+        "bedroom",
+        "Bedroom 2",
+        "Guest bedroom",
+        "Living Room"
+      ]);
+      const plants = sql
+        .exec(`SELECT id, location, location_id FROM plants ORDER BY id`)
+        .toArray();
+      expect(plants.slice(1)).toEqual([
+        { id: "p2", location: "Living Room", location_id: locations[3].id },
+        { id: "p3", location: "Living Room", location_id: locations[3].id },
+        { id: "p4", location: "bedroom", location_id: locations[0].id },
+        { id: "p5", location: "Guest bedroom", location_id: locations[2].id },
+        { id: "p6", location: "Bedroom 2", location_id: locations[1].id }
+      ]);
+      expect(
+        sql
+          .exec(
+            `SELECT old_value, new_value FROM plant_changes
+             WHERE plant_id = 'p5' ORDER BY changed_at, rowid`
+          )
+          .toArray()
+      ).toEqual([
+        { old_value: "Guest bedroom", new_value: "bedroom" },
+        { old_value: "bedroom", new_value: "Guest bedroom" }
+      ]);
+    });
+  });
+
+  it("rolls back a failing migration and keeps the previous version", async () => {
+    const broken: Migration = {
+      version: 2,
+      name: "broken",
+      up: (sql) => {
+        sql.exec(`ALTER TABLE plants ADD COLUMN half_applied TEXT`);
+        sql.exec(`INSERT INTO missing_table VALUES (1)`);
+      }
+    };
+
+    await runInDurableObject(getStub("broken"), async (_instance, state) => {
+      const sql = state.storage.sql;
+      seedV1Database(sql);
+
+      expect(() =>
+        runMigrations(state.storage, [...migrations.slice(0, 1), broken])
+      ).toThrow(/Migration 2 \(broken\) failed/);
+
+      expect(getSchemaVersion(sql)).toBe(1);
+      expect(columnNames(sql, "plants")).not.toContain("half_applied");
+    });
+  });
+
+  it("rejects migrations that are out of order", async () => {
+    await runInDurableObject(getStub("ordering"), async (_instance, state) => {
+      const noop = (version: number): Migration => ({
+        version,
+        name: `noop_${version}`,
+        up: () => {}
+      });
+
+      expect(() =>
+        runMigrations(state.storage, [noop(1), noop(3), noop(2)])
+      ).toThrow(/ascending version order/);
+    });
+  });
+});
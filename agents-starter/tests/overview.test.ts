@@ -0,0 +1,93 @@
+import { env, runInDurableObject } from "cloudflare:test";
+import { describe, it, expect } from "vitest";
+import type { PlantCare } from "../src/server";
+import { getDaysUntilWatering, type Plant } from "../src/shared";
+
+function plantWatered(lastWatered: string | null): Plant {
+  return {
+    id: "p1",
+    name: "Fernie",
+    type: "Boston Fern",
+    speciesId: "nephrolepis-exaltata",
+    location: null,
+    locationId: null,
+    lightRequirement: null,
+    waterFrequencyDays: 7,
+    potSizeCm: null,
+    lightLevel: null,
+    lastWatered,
+    notes: null,
+    caretakerId: null,
+    createdAt: "2025-01-01 00:00:00",
+    archivedAt: null
+  };
+}
+
+describe("getDaysUntilWatering", () => {
+  const now = new Date("2025-01-10T12:00:00.000Z");
+
+  it("counts down from the last watering", () => {
+    expect(
+      getDaysUntilWatering(plantWatered("2025-01-08T12:00:00.000Z"), now)
+    ).toBe(5);
+  });
+
+  it("goes negative once a plant is overdue", () => {
+    expect(
+      getDaysUntilWatering(plantWatered("2024-12-31T12:00:00.000Z"), now)
+    ).toBe(-3);
+  });
+
+  it("treats never-watered plants as due now", () => {
+    expect(getDaysUntilWatering(plantWatered(null), now)).toBe(0);
+  });
+});
+
+describe("getCollectionOverview", () => {
+  it("includes the watering countdown and open health issues", async () => {
+    const stub = env.PlantCare.get(env.PlantCare.idFromName("overview"));
+    await runInDurableObject(stub, async (instance: PlantCare) => {
+      await instance.addPlant({
+        id: "p1",
+        name: "Fernie",
+        type: "Boston Fern",
+        waterFrequencyDays: 3
+      });
+      await instance.addPlant({ id: "p2", name: "Spike", type: "Snake Plant" });
+      await instance.waterPlant("p1");
+      instance.recordHealthIssue("p2", "mushy base");
+
+      const overview = instance.getCollectionOverview();
+      const byId = Object.fromEntries(
+        overview.map((plant) => [plant.id, plant])
+      );
+
+      expect(byId.p1.daysUntilWatering).toBe(3);
+      expect(byId.p1.openHealthIssues).toEqual([]);
+      expect(byId.p2.daysUntilWatering).toBe(0);
+      expect(byId.p2.openHealthIssues).toMatchObject([
+        { issueDescription: "mushy base" }
+      ]);
+    });
+  });
+
+  it("refuses to water removed or unknown plants", async () => {
+    const stub = env.PlantCare.get(env.PlantCare.idFromName("water-missing"));
+    await runInDurableObject(stub, async (instance: PlantCare) => {
+      await instance.addPlant({
+        id: "p1",
+        name: "Fernie",
+        type: "Boston Fern"
+      });
+      await instance.removePlant("p1");
+
+      await expect(instance.waterPlant("p1")).rejects.toThrow(
+        "Plant p1 not found"
+      );
+      await expect(instance.waterPlant("missing")).rejects.toThrow(
+        "Plant missing not found"
+      );
+      expect(instance.getWateringHistory("p1")).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,221 @@
+import {
+  env,
+  createExecutionContext,
+  runInDurableObject,
+  waitOnExecutionContext
+} from "cloudflare:test";
+import { describe, it, expect } from "vitest";
+import { createSessionToken } from "../src/auth";
+import worker, { type PlantCare } from "../src/server";
+import { analyzeWateringPattern } from "../src/patterns";
+import { getSpeciesById } from "../src/species/lookup";
+import { DAY_MS, type ScheduledPlant, type WateringEvent } from "../src/shared";
+import { makePlant } from "./fixtures";
+
+function getStub(name: string) {
+  return env.PlantCare.get(env.PlantCare.idFromName(name));
+}
+
+/**
+ * Send a request as the user whose own PlantCare instance it addresses
+ */
+async function signedIn(request: Request, userId: string) {
+  const token = await createSessionToken({ id: userId }, env.AUTH_SECRET);
+  request.headers.set("Authorization", `Bearer ${token}`);
+  return request;
+}
+
+function scheduledPlant(
+  waterFrequencyDays: number,
+  intervalDays = waterFrequencyDays
+): ScheduledPlant {
+  return {
+    ...makePlant({ speciesId: null, waterFrequencyDays }),
+    wateringInterval: {
+      baseDays: waterFrequencyDays,
+      days: intervalDays,
+      season: null,
+      adjustments: []
+    }
+  };
+}
+
+/**
+ * Waterings separated by the given numbers of days, newest first like the repository returns them
+ */
+function historyWithIntervals(...intervals: number[]): WateringEvent[] {
+  let time = new Date("2025-03-01T09:00:00.000Z").getTime();
+  const events = [time];
+  for (const days of intervals) {
+    time += days * DAY_MS;
+    events.push(time);
+  }
+  return events.reverse().map((at, i) => ({
+    id: `w${i}`,
+    plantId: "p1",
+    wateredAt: new Date(at).toISOString(),
+    notes: null,
+    memberId: null
+  }));
+}
+
+describe("Watering pattern analysis", () => {
+  it("suggests the frequency the plant is actually watered on", () => {
+    const pattern = analyzeWateringPattern(
+      scheduledPlant(7),
+      historyWithIntervals(4, 4, 3.5, 4.5, 4)
+    );
+
+    expect(pattern).toMatchObject({
+      intervalsDays: [4, 4, 3.5, 4.5, 4],
+      averageIntervalDays: 4,
+      medianIntervalDays: 4,
+      standardDeviationDays: 0.3,
+      overdueStreak: 0,
+      suggestion: { currentFrequencyDays: 7, suggestedFrequencyDays: 4 }
+    });
+    expect(pattern.summary).toMatch(
+      /^Suggest watering every 4 days instead of 7/
+    );
+  });
+
+  it("counts overdue streaks and ignores waterings logged twice", () => {
+    const pattern = analyzeWateringPattern(
+      scheduledPlant(7),
+      historyWithIntervals(10, 10, 7, 10, 0.1, 9.9, 10)
+    );
+
+    expect(pattern.intervalsDays).toEqual([10, 10, 7, 10, 10, 10]);
+    expect(pattern.overdueStreak).toBe(3);
+    expect(pattern.longestOverdueStreak).toBe(3);
+    expect(pattern.suggestion?.suggestedFrequencyDays).toBe(10);
+  });
+
+  it("needs a regular habit before suggesting anything", () => {
+    expect(
+      analyzeWateringPattern(scheduledPlant(7), historyWithIntervals(4, 4, 4))
+        .suggestion
+    ).toBeNull();
+
+    const irregular = analyzeWateringPattern(
+      scheduledPlant(7),
+      historyWithIntervals(2, 12, 3, 14, 2)
+    );
+    expect(irregular.suggestion).toBeNull();
+    expect(irregular.summary).toMatch(/too irregular/);
+  });
+
+  it("does not fight the seasonal adjustment", () => {
+    // Watered every 9 days while winter stretches a 7-day base to 9
+    const pattern = analyzeWateringPattern(
+      scheduledPlant(7, 9),
+      historyWithIntervals(9, 9, 9, 9)
+    );
+    expect(pattern.overdueStreak).toBe(0);
+    expect(pattern.suggestion).toBeNull();
+  });
+
+  it("stays within the care guide's range for the species", () => {
+    const pattern = analyzeWateringPattern(
+      scheduledPlant(3),
+      historyWithIntervals(8, 8, 8, 8),
+      getSpeciesById("nephrolepis-exaltata")
+    );
+    expect(pattern.suggestion).toMatchObject({ suggestedFrequencyDays: 4 });
+    expect(pattern.suggestion?.reason).toMatch(/kept within the 2-4 days/);
+  });
+});
+
+describe("Adaptive watering", () => {
+  async function addWateredEveryFourDays(instance: PlantCare, sql: SqlStorage) {
+    await instance.addPlant({
+      id: "p1",
+      name: "Fernie",
+      type: "Fern",
+      waterFrequencyDays: 7
+    });
+    for (const daysAgo of [16, 12, 8, 4]) {
+      sql.exec(
+        `INSERT INTO watering_history (id, plant_id, watered_at) VALUES (?, 'p1', ?)`,
+        `w${daysAgo}`,
+        new Date(Date.now() - daysAgo * DAY_MS).toISOString()
+      );
+    }
+  }
+
+  it("only suggests a new frequency unless auto-adjust is on", async () => {
+    await runInDurableObject(
+      getStub("suggest-frequency"),
+      async (instance: PlantCare, state) => {
+        await addWateredEveryFourDays(instance, state.storage.sql);
+
+        const watered = await instance.waterPlant("p1");
+        expect(watered).toMatchObject({
+          frequencyChanged: false,
+          suggestion: { suggestedFrequencyDays: 4 }
+        });
+        expect(instance.getPlant("p1")?.waterFrequencyDays).toBe(7);
+
+        const applied = await instance.applyWateringSuggestion("p1");
+        expect(applied?.plant.waterFrequencyDays).toBe(4);
+        expect(await instance.applyWateringSuggestion("p1")).toBeNull();
+      }
+    );
+  });
+
+  it("applies the learned frequency on watering when auto-adjust is on", async () => {
+    await runInDurableObject(
+      getStub("auto-frequency"),
+      async (instance: PlantCare, state) => {
+        await addWateredEveryFourDays(instance, state.storage.sql);
+        await instance.updateCareProfile({ autoAdjustWatering: true });
+
+        const watered = await instance.waterPlant("p1");
+
+        expect(watered.frequencyChanged).toBe(true);
+        expect(instance.getPlant("p1")?.waterFrequencyDays).toBe(4);
+        expect(instance.getPlantChanges("p1")).toEqual([
+          expect.objectContaining({
+            field: "waterFrequencyDays",
+            oldValue: "7",
+            newValue: "4"
+          })
+        ]);
+      }
+    );
+  });
+
+  it("reports patterns over the REST API", async () => {
+    async function request(path: string, init?: RequestInit) {
+      const ctx = createExecutionContext();
+      const response = await worker.fetch(
+        await signedIn(
+          new Request(
+            `http://example.com/api/agents/rest-patterns${path}`,
+            init
+          ),
+          "rest-patterns"
+        ),
+        env,
+        ctx
+      );
+      await waitOnExecutionContext(ctx);
+      return response;
+    }
+    const { id } = await request("/plants", {
+      method: "POST",
+      body: JSON.stringify({ name: "Spike", type: "Snake Plant" })
+    }).then((response) => response.json<{ id: string }>());
+
+    const pattern = await request(`/plants/${id}/watering-pattern`);
+    expect(await pattern.json()).toMatchObject({
+      plantId: id,
+      intervalsDays: [],
+      suggestion: null
+    });
+    const applied = await request(`/plants/${id}/watering-pattern`, {
+      method: "POST"
+    });
+    expect(applied.status).toBe(409);
+  });
+});
@@ -0,0 +1,253 @@
+import {
+  env,
+  createExecutionContext,
+  runInDurableObject,
+  waitOnExecutionContext
+} from "cloudflare:test";
+import { describe, it, expect, vi } from "vitest";
+import { getAgentByName } from "agents";
+import type { UIMessage } from "ai";
+import { createSessionToken } from "../src/auth";
+import worker, { type PlantCare } from "../src/server";
+import { describeAttachedPhotos } from "../src/photos";
+import {
+  getPhotoUrl,
+  type PlantDiagnosis,
+  type PlantPhoto
+} from "../src/shared";
+
+function getAgent(name: string) {
+  return getAgentByName(env.PlantCare, name);
+}
+
+/**
+ * Send a request as the user whose own PlantCare instance it addresses
+ */
+async function signedIn(request: Request, userId: string) {
+  const token = await createSessionToken({ id: userId }, env.AUTH_SECRET);
+  request.headers.set("Authorization", `Bearer ${token}`);
+  return request;
+}
+
+// A 1x1 transparent PNG
+const PNG_BASE64 =
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=";
+const PNG_DATA_URL = `data:image/png;base64,${PNG_BASE64}`;
+
+function pngBytes() {
+  return Uint8Array.from(atob(PNG_BASE64), (char) => char.charCodeAt(0));
+}
+
+const overwatered: PlantDiagnosis = {
+  summary: "Overwatering.",
+  likelyCauses: [
+    { cause: "overwatering", confidence: 0.7, explanation: "Yellow leaves" }
+  ],
+  recommendedActions: ["Let the soil dry out"],
+  urgency: "medium"
+};
+
+describe("Chat photo attachments", () => {
+  it("shows stored photos to the text model as photo IDs", () => {
+    const messages: UIMessage[] = [
+      {
+        id: "m1",
+        role: "user",
+        parts: [
+          {
+            type: "file",
+            mediaType: "image/png",
+            url: getPhotoUrl("home", "photo-1")
+          },
+          { type: "file", mediaType: "image/png", url: PNG_DATA_URL },
+          { type: "text", text: "What's wrong with it?" }
+        ]
+      }
+    ];
+
+    expect(describeAttachedPhotos(messages)[0].parts).toEqual([
+      { type: "text", text: "[Photo attached, photo ID: photo-1]" },
+      { type: "text", text: "[Photo attached but could not be stored]" },
+      { type: "text", text: "What's wrong with it?" }
+    ]);
+  });
+});
+
+describe("Plant photos", () => {
+  it("files photos under a plant and its health issue", async () => {
+    const agent = await getAgent("attach-photos");
+    await runInDurableObject(agent, async (instance: PlantCare) => {
+      await instance.addPlant({ id: "p1", name: "Fernie", type: "Fern" });
+      await instance.addPlant({ id: "p2", name: "Spike", type: "Snake" });
+      const { issueId } = instance.recordHealthIssue("p1", "brown tips");
+      const photo = await instance.savePhoto(pngBytes(), "image/png");
+
+      expect(instance.attachPhoto(photo.id, "p2", issueId)).toBeNull();
+      expect(instance.attachPhoto(photo.id, "p1", issueId)).toMatchObject({
+        plantId: "p1",
+        issueId
+      });
+      // Re-filing under the plant alone keeps the issue link
+      expect(instance.attachPhoto(photo.id, "p1")?.issueId).toBe(issueId);
+
+      expect(instance.getPlantPhotos("p1").map((p) => p.id)).toEqual([
+        photo.id
+      ]);
+      expect(instance.getHealthIssueLifecycle("p1")[0].photos).toEqual([
+        expect.objectContaining({ id: photo.id })
+      ]);
+    });
+  });
+
+  it("deletes uploads that are never filed under a plant", async () => {
+    const agent = await getAgent("purge-photos");
+    await runInDurableObject(agent, async (instance: PlantCare) => {
+      await instance.addPlant({ id: "p1", name: "Fernie", type: "Fern" });
+      const forgotten = await instance.savePhoto(pngBytes(), "image/png");
+      const filed = await instance.savePhoto(pngBytes(), "image/png");
+      instance.attachPhoto(filed.id, "p1");
+
+      const purges = instance
+        .getSchedules()
+        .filter((task) => task.callback === "purgeUnattachedPhoto");
+      expect(purges.map((task) => task.payload)).toEqual([
+        forgotten.id,
+        filed.id
+      ]);
+      for (const task of purges) {
+        await instance.purgeUnattachedPhoto(task.payload as string);
+      }
+
+      expect(instance.getPhoto(forgotten.id)).toBeNull();
+      expect(await env.PLANT_PHOTOS.get(forgotten.storageKey)).toBeNull();
+      expect(instance.getPhoto(filed.id)).not.toBeNull();
+      expect(await env.PLANT_PHOTOS.head(filed.storageKey)).not.toBeNull();
+    });
+  });
+
+  it("rejects files that are not images", async () => {
+    const agent = await getAgent("reject-photos");
+    await runInDurableObject(agent, async (instance: PlantCare) => {
+      await expect(
+        instance.savePhoto(new TextEncoder().encode("hello"), "text/plain")
+      ).rejects.toThrow("Photos must be images");
+    });
+  });
+
+  it("feeds what the vision model sees into the diagnosis", async () => {
+    const agent = await getAgent("vision");
+    await runInDurableObject(agent, async (instance: PlantCare) => {
+      const requestPhotoObservations = vi
+        .spyOn(instance, "requestPhotoObservations")
+        .mockResolvedValue("Lower leaves are yellow; soil looks wet.");
+      const requestDiagnosis = vi
+        .spyOn(instance, "requestDiagnosis")
+        .mockResolvedValue(overwatered);
+      await instance.addPlant({ id: "p1", name: "Monty", type: "Monstera" });
+      const { issueId } = instance.recordHealthIssue("p1", "yellow leaves");
+      await instance.savePhoto(pngBytes(), "image/png", {
+        plantId: "p1",
+        issueId
+      });
+
+      await instance.diagnoseHealthIssue(issueId);
+      await instance.diagnoseHealthIssue(issueId);
+
+      // Observations are kept, so each photo is only looked at once
+      expect(requestPhotoObservations).toHaveBeenCalledTimes(1);
+      expect(requestDiagnosis).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          photoObservations: ["Lower leaves are yellow; soil looks wet."]
+        })
+      );
+      expect(
+        instance.getHealthIssueLifecycle("p1")[0].photos[0].observations
+      ).toBe("Lower leaves are yellow; soil looks wet.");
+    });
+  });
+});
+
+describe("Photo REST API", () => {
+  async function request(path: string, init?: RequestInit) {
+    const ctx = createExecutionContext();
+    const response = await worker.fetch(
+      await signedIn(
+        new Request(`http://example.com${path}`, init),
+        "rest-photos"
+      ),
+      env,
+      ctx
+    );
+    await waitOnExecutionContext(ctx);
+    return response;
+  }
+
+  it("uploads a photo for a plant and serves it back", async () => {
+    const agent = await getAgent("rest-photos");
+    await agent.addPlant({ id: "p1", name: "Fernie", type: "Fern" });
+
+    const uploaded = await request(
+      "/api/agents/rest-photos/plants/p1/photos?caption=day%201",
+      {
+        method: "POST",
+        headers: { "Content-Type": "image/png" },
+        body: pngBytes().buffer as ArrayBuffer
+      }
+    );
+    expect(uploaded.status).toBe(201);
+    const photo = await uploaded.json<PlantPhoto>();
+    expect(photo).toMatchObject({ plantId: "p1", caption: "day 1" });
+
+    const listed = await request("/api/agents/rest-photos/plants/p1/photos");
+    expect(await listed.json()).toEqual([photo]);
+
+    const served = await request(getPhotoUrl("rest-photos", photo.id));
+    expect(served.headers.get("Content-Type")).toBe("image/png");
+    expect(new Uint8Array(await served.arrayBuffer())).toEqual(pngBytes());
+    // Photos filed under a plant go with the plant, not on their own
+    expect(
+      (
+        await request(getPhotoUrl("rest-photos", photo.id), {
+          method: "DELETE"
+        })
+      ).status
+    ).toBe(404);
+
+    const text = await request("/api/agents/rest-photos/plants/p1/photos", {
+      method: "POST",
+      headers: { "Content-Type": "text/plain" },
+      body: "hello"
+    });
+    expect(text.status).toBe(415);
+  });
+
+  it("takes photos from the chat composer before they belong to a plant", async () => {
+    const uploaded = await request(
+      "/api/agents/rest-photos/photos?caption=leaf.png",
+      {
+        method: "POST",
+        headers: { "Content-Type": "image/png" },
+        body: pngBytes().buffer as ArrayBuffer
+      }
+    );
+    expect(uploaded.status).toBe(201);
+    const photo = await uploaded.json<PlantPhoto>();
+    expect(photo).toMatchObject({ plantId: null, caption: "leaf.png" });
+
+    const served = await request(getPhotoUrl("rest-photos", photo.id));
+    expect(new Uint8Array(await served.arrayBuffer())).toEqual(pngBytes());
+    expect(
+      (await request("/api/agents/rest-photos/photos", { method: "GET" }))
+        .status
+    ).toBe(405);
+
+    // Removed from the composer before sending
+    const removed = await request(getPhotoUrl("rest-photos", photo.id), {
+      method: "DELETE"
+    });
+    expect(removed.status).toBe(204);
+    expect((await request(getPhotoUrl("rest-photos", photo.id))).status).toBe(
+      404
+    );
+  });
+});
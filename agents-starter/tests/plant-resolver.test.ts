@@ -0,0 +1,109 @@
+import { env, runInDurableObject } from "cloudflare:test";
+import { describe, it, expect } from "vitest";
+import type { PlantCare } from "../src/server";
+import {
+  resolvePlantReference,
+  type PlantResolution
+} from "../src/plant-resolver";
+import { makePlant } from "./fixtures";
+
+function getStub(name: string) {
+  return env.PlantCare.get(env.PlantCare.idFromName(name));
+}
+
+const collection = [
+  makePlant({
+    id: "p1",
+    name: "Fernie",
+    type: "Boston Fern",
+    speciesId: "nephrolepis-exaltata",
+    location: "bedroom"
+  }),
+  makePlant({
+    id: "p2",
+    name: "Frond",
+    type: "boston fern",
+    speciesId: "nephrolepis-exaltata",
+    location: "kitchen"
+  }),
+  makePlant({
+    id: "p3",
+    name: "Spike",
+    type: "Sansevieria",
+    speciesId: "dracaena-trifasciata",
+    location: "hallway"
+  })
+];
+
+function resolvedIds(resolution: PlantResolution) {
+  switch (resolution.status) {
+    case "matched":
+      return [resolution.plant.id];
+    case "ambiguous":
+      return resolution.candidates.map((candidate) => candidate.id);
+    default:
+      return [];
+  }
+}
+
+describe("Plant resolver", () => {
+  it("finds plants by name, species, location or a mix of them", () => {
+    const resolve = (reference: string) =>
+      resolvePlantReference(reference, collection);
+
+    expect(resolve("Fernie")).toEqual({
+      status: "matched",
+      plant: collection[0]
+    });
+    expect(resolvedIds(resolve("fernie's"))).toEqual(["p1"]);
+    expect(resolvedIds(resolve("the snake plant"))).toEqual(["p3"]);
+    expect(resolvedIds(resolve("the one in the hallway"))).toEqual(["p3"]);
+    expect(resolvedIds(resolve("the fern in the bedroom"))).toEqual(["p1"]);
+    expect(resolvedIds(resolve("kitchen fern"))).toEqual(["p2"]);
+    expect(resolvedIds(resolve("p2"))).toEqual(["p2"]);
+  });
+
+  it("lists every plant that fits an ambiguous reference", () => {
+    const resolution = resolvePlantReference("the fern", collection);
+    expect(resolution.status).toBe("ambiguous");
+    expect(resolvedIds(resolution)).toEqual(["p1", "p2"]);
+  });
+
+  it("prefers a plant's own name over its species", () => {
+    const plants = [
+      ...collection,
+      makePlant({
+        id: "p4",
+        name: "Fern",
+        type: "Pothos",
+        speciesId: "epipremnum-aureum",
+        location: null
+      })
+    ];
+    expect(resolvedIds(resolvePlantReference("fern", plants))).toEqual(["p4"]);
+  });
+
+  it("does not guess when nothing fits", () => {
+    expect(resolvePlantReference("the cactus", collection)).toEqual({
+      status: "unknown"
+    });
+    expect(resolvePlantReference("the", collection)).toEqual({
+      status: "unknown"
+    });
+  });
+
+  it("looks up removed plants separately", async () => {
+    await runInDurableObject(
+      getStub("resolve-archived"),
+      async (instance: PlantCare) => {
+        await instance.addPlant({ id: "p1", name: "Spike", type: "Snake" });
+        await instance.removePlant("p1");
+
+        expect(instance.resolvePlant("Spike").status).toBe("unknown");
+        expect(resolvedIds(instance.resolvePlant("Spike", true))).toEqual([
+          "p1"
+        ]);
+      }
+    );
+  });
+});
@@ -0,0 +1,315 @@
+import { env, runInDurableObject } from "cloudflare:test";
+import { describe, it, expect, vi } from "vitest";
+import type { PlantCare } from "../src/server";
+import { buildWateringDigest, getWateringUrgency } from "../src/reminders";
+import {
+  DAY_MS,
+  parseTimestamp,
+  type Plant,
+  type ReminderPayload
+} from "../src/shared";
+
+function getStub(name: string) {
+  return env.PlantCare.get(env.PlantCare.idFromName(name));
+}
+
+function wateringReminders(instance: PlantCare, plantId: string) {
+  return instance
+    .getSchedules<ReminderPayload>()
+    .filter(
+      (task) =>
+        task.callback === "executeTask" &&
+        task.payload.plantId === plantId &&
+        task.payload.kind === "watering"
+    );
+}
+
+describe("Managed watering reminders", () => {
+  it("schedules one reminder per plant when it is added", async () => {
+    await runInDurableObject(getStub("add"), async (instance: PlantCare) => {
+      const plant = await instance.addPlant({
+        id: "p1",
+        name: "Fernie",
+        type: "Boston Fern",
+        waterFrequencyDays: 3
+      });
+
+      const reminders = wateringReminders(instance, "p1");
+      const dueAt = parseTimestamp(plant.createdAt).getTime() + 3 * DAY_MS;
+      expect(reminders).toHaveLength(1);
+      expect(reminders[0]).toMatchObject({
+        type: "scheduled",
+        time: Math.floor(dueAt / 1000)
+      });
+    });
+  });
+
+  it("moves the reminder to last watered + frequency after each watering", async () => {
+    await runInDurableObject(getStub("water"), async (instance: PlantCare) => {
+      await instance.addPlant({
+        id: "p1",
+        name: "Fernie",
+        type: "Boston Fern",
+        waterFrequencyDays: 5
+      });
+      const [before] = wateringReminders(instance, "p1");
+
+      const { wateredAt } = await instance.waterPlant("p1");
+
+      const reminders = wateringReminders(instance, "p1");
+      expect(reminders).toHaveLength(1);
+      expect(reminders[0].id).not.toBe(before.id);
+      expect(reminders[0]).toMatchObject({
+        type: "scheduled",
+        time: Math.floor((new Date(wateredAt).getTime() + 5 * DAY_MS) / 1000)
+      });
+    });
+  });
+
+  it("never schedules a reminder in the past for overdue plants", async () => {
+    await runInDurableObject(
+      getStub("overdue"),
+      async (instance: PlantCare, state) => {
+        await instance.addPlant({
+          id: "p1",
+          name: "Spike",
+          type: "Snake Plant",
+          waterFrequencyDays: 2
+        });
+        state.storage.sql.exec(
+          `UPDATE plants SET last_watered = '2020-01-01T00:00:00.000Z' WHERE id = 'p1'`
+        );
+
+        const before = Math.floor(Date.now() / 1000);
+        const schedule = await instance.syncWateringReminder("p1");
+
+        expect(schedule?.type).toBe("scheduled");
+        if (schedule?.type === "scheduled") {
+          expect(schedule.time).toBeGreaterThanOrEqual(before);
+        }
+        expect(wateringReminders(instance, "p1")).toHaveLength(1);
+      }
+    );
+  });
+
+  it("cancels the reminder when a plant is removed and restores it on restore", async () => {
+    await runInDurableObject(getStub("remove"), async (instance: PlantCare) => {
+      await instance.addPlant({
+        id: "p1",
+        name: "Fernie",
+        type: "Boston Fern"
+      });
+
+      await instance.removePlant("p1");
+      expect(wateringReminders(instance, "p1")).toHaveLength(0);
+
+      await instance.restorePlant("p1");
+      expect(wateringReminders(instance, "p1")).toHaveLength(1);
+    });
+  });
+});
+
+describe("Plant reminders", () => {
+  it("ties custom reminders to their plant", async () => {
+    await runInDurableObject(getStub("custom"), async (instance: PlantCare) => {
+      await instance.addPlant({
+        id: "p1",
+        name: "Fernie",
+        type: "Boston Fern"
+      });
+      await instance.addPlant({ id: "p2", name: "Spike", type: "Snake Plant" });
+
+      const reminder = await instance.scheduleCustomReminder(
+        "p1",
+        3600,
+        "Mist the fronds"
+      );
+
+      expect(reminder.payload).toEqual({
+        plantId: "p1",
+        kind: "custom",
+        message: "Mist the fronds"
+      });
+      expect(
+        instance
+          .getReminders("p1")
+          .map(({ kind, message }) => ({ kind, message }))
+      ).toEqual(
+        expect.arrayContaining([
+          { kind: "watering", message: null },
+          { kind: "custom", message: "Mist the fronds" }
+        ])
+      );
+      expect(instance.getReminders("p2")).toHaveLength(1);
+      expect(instance.getReminders()).toHaveLength(3);
+    });
+  });
+
+  it("reports cron reminders with their expression", async () => {
+    await runInDurableObject(getStub("cron"), async (instance: PlantCare) => {
+      await instance.addPlant({
+        id: "p1",
+        name: "Fernie",
+        type: "Boston Fern"
+      });
+
+      await instance.scheduleCustomReminder("p1", "0 9 * * 1", "Weekly check");
+
+      const custom = instance
+        .getReminders("p1")
+        .find((reminder) => reminder.kind === "custom");
+      expect(custom?.cron).toBe("0 9 * * 1");
+    });
+  });
+
+  it("cancels every reminder for a plant when it is removed", async () => {
+    await runInDurableObject(
+      getStub("cleanup"),
+      async (instance: PlantCare) => {
+        await instance.addPlant({
+          id: "p1",
+          name: "Fernie",
+          type: "Boston Fern"
+        });
+        await instance.addPlant({
+          id: "p2",
+          name: "Spike",
+          type: "Snake Plant"
+        });
+        await instance.scheduleCustomReminder("p1", 3600, "Rotate the pot");
+
+        await instance.removePlant("p1");
+
+        expect(instance.getReminders("p1")).toEqual([]);
+        expect(instance.getReminders("p2")).toHaveLength(1);
+      }
+    );
+  });
+});
+
+function plantWateredDaysAgo(days: number, overrides: Partial<Plant> = {}) {
+  const now = Date.now();
+  return {
+    id: "p1",
+    name: "Fernie",
+    type: "Boston Fern",
+    speciesId: "nephrolepis-exaltata",
+    location: null,
+    locationId: null,
+    lightRequirement: null,
+    waterFrequencyDays: 7,
+    potSizeCm: null,
+    lightLevel: null,
+    lastWatered: new Date(now - days * DAY_MS).toISOString(),
+    notes: null,
+    caretakerId: null,
+    createdAt: new Date(now - 60 * DAY_MS).toISOString(),
+    archivedAt: null,
+    ...overrides
+  } satisfies Plant;
+}
+
+/**
+ * Capture posted reminders instead of handing them to the model
+ */
+function capturePostedReminders(instance: PlantCare) {
+  const saveMessages = vi
+    .spyOn(instance, "saveMessages")
+    .mockResolvedValue(undefined);
+  return () =>
+    saveMessages.mock.calls.map(([messages]) => {
+      const part = messages[messages.length - 1].parts[0];
+      return part.type === "text" ? part.text : "";
+    });
+}
+
+describe("Watering digest", () => {
+  it("escalates wording the longer a plant is overdue", () => {
+    expect(getWateringUrgency(plantWateredDaysAgo(7))).toBe("due");
+    expect(getWateringUrgency(plantWateredDaysAgo(10))).toBe("overdue");
+    expect(getWateringUrgency(plantWateredDaysAgo(14))).toBe("critical");
+
+    expect(buildWateringDigest([plantWateredDaysAgo(7)])).toBe(
+      "Time to water! Fernie (Boston Fern) is due today."
+    );
+    expect(buildWateringDigest([plantWateredDaysAgo(15)])).toMatch(
+      /^Time to water! URGENT: Fernie \(Boston Fern\) is 8 days overdue/
+    );
+  });
+
+  it("lists every plant in one message, most overdue first", () => {
+    const digest = buildWateringDigest([
+      plantWateredDaysAgo(7, { location: "living room" }),
+      plantWateredDaysAgo(7, { id: "p2", name: "Spike", waterFrequencyDays: 4 })
+    ]);
+
+    expect(digest).toBe(
+      [
+        "Watering digest: 2 plants need water today.",
+        "- Spike (Boston Fern) is overdue by 3 days",
+        "- Fernie (Boston Fern in the living room) is due today"
+      ].join("\n")
+    );
+  });
+});
+
+describe("Watering reminder delivery", () => {
+  it("batches plants due today into one digest and follows up tomorrow", async () => {
+    await runInDurableObject(
+      getStub("digest"),
+      async (instance: PlantCare, state) => {
+        const posted = capturePostedReminders(instance);
+        await instance.addPlant({ id: "p1", name: "Fernie", type: "Fern" });
+        await instance.addPlant({ id: "p2", name: "Spike", type: "Snake" });
+        await instance.addPlant({ id: "p3", name: "Monty", type: "Monstera" });
+        await instance.waterPlant("p3");
+        state.storage.sql.exec(
+          `UPDATE plants SET last_watered = ? WHERE id IN ('p1', 'p2')`,
+          new Date(Date.now() - 8 * DAY_MS).toISOString()
+        );
+
+        const [p1Task] = wateringReminders(instance, "p1");
+        const [p2Task] = wateringReminders(instance, "p2");
+        await instance.executeTask(p1Task.payload, p1Task);
+        // Spike was already covered by the digest, so its own reminder stays quiet
+        await instance.executeTask(p2Task.payload, p2Task);
+
+        expect(posted()).toHaveLength(1);
+        expect(posted()[0]).toContain("2 plants need water today");
+        expect(posted()[0]).toContain("Fernie");
+        expect(posted()[0]).toContain("Spike");
+        expect(posted()[0]).not.toContain("Monty");
+
+        const tomorrow = Math.floor((Date.now() + DAY_MS) / 1000);
+        for (const plantId of ["p1", "p2"]) {
+          const [next] = wateringReminders(instance, plantId);
+          expect(next.time).toBeGreaterThanOrEqual(tomorrow - 5);
+        }
+      }
+    );
+  });
+
+  it("reschedules without posting when the plant is not due yet", async () => {
+    await runInDurableObject(
+      getStub("not-due"),
+      async (instance: PlantCare) => {
+        const posted = capturePostedReminders(instance);
+        await instance.addPlant({
+          id: "p1",
+          name: "Fernie",
+          type: "Boston Fern",
+          waterFrequencyDays: 4
+        });
+        await instance.waterPlant("p1");
+
+        const [task] = wateringReminders(instance, "p1");
+        await instance.executeTask(task.payload, task);
+
+        expect(posted()).toEqual([]);
+        const [next] = wateringReminders(instance, "p1");
+        expect(next.id).not.toBe(task.id);
+        expect(next.time).toBe(task.time);
+      }
+    );
+  });
+});
@@ -0,0 +1,107 @@
+import { env, runInDurableObject } from "cloudflare:test";
+import { describe, it, expect } from "vitest";
+import { PlantRepository } from "../src/db/repository";
+
+function getStub(name: string) {
+  return env.PlantCare.get(env.PlantCare.idFromName(name));
+}
+
+describe("PlantRepository", () => {
+  it("maps plant rows to camelCase domain objects", async () => {
+    await runInDurableObject(getStub("mapping"), async (_instance, state) => {
+      const repository = new PlantRepository(state.storage.sql);
+
+      const plant = repository.insertPlant("p1", {
+        name: "Fernie",
+        type: "Boston Fern",
+        lightRequirement: "bright indirect",
+        waterFrequencyDays: 3
+      });
+
+      expect(plant).toMatchObject({
+        id: "p1",
+        name: "Fernie",
+        type: "Boston Fern",
+        location: null,
+        lightRequirement: "bright indirect",
+        waterFrequencyDays: 3,
+        lastWatered: null,
+        archivedAt: null
+      });
+      expect(plant.createdAt).toEqual(expect.any(String));
+    });
+  });
+
+  it("maps watering events and health issues", async () => {
+    await runInDurableObject(getStub("history"), async (_instance, state) => {
+      const repository = new PlantRepository(state.storage.sql);
+      repository.insertPlant("p1", { name: "Spike", type: "Snake Plant" });
+
+      repository.insertWatering(
+        "w1",
+        { plantId: "p1", notes: "soaked" },
+        "2025-01-01T00:00:00.000Z"
+      );
+      repository.insertHealthIssue("h1", {
+        plantId: "p1",
+        issueDescription: "mushy base"
+      });
+
+      expect(repository.listWateringHistory("p1", 10)).toEqual([
+        {
+          id: "w1",
+          plantId: "p1",
+          wateredAt: "2025-01-01T00:00:00.000Z",
+          notes: "soaked",
+          memberId: null
+        }
+      ]);
+      expect(repository.findPlant("p1")?.lastWatered).toBe(
+        "2025-01-01T00:00:00.000Z"
+      );
+      expect(repository.listHealthIssues("p1")).toMatchObject([
+        {
+          id: "h1",
+          plantId: "p1",
+          issueDescription: "mushy base",
+          diagnosis: null,
+          resolved: false
+        }
+      ]);
+    });
+  });
+
+  it("applies the default watering frequency", async () => {
+    await runInDurableObject(getStub("defaults"), async (_instance, state) => {
+      const repository = new PlantRepository(state.storage.sql);
+
+      const plant = repository.insertPlant("p1", {
+        name: "Monstera Mike",
+        type: "Monstera Deliciosa"
+      });
+
+      expect(plant.waterFrequencyDays).toBe(7);
+    });
+  });
+
+  it("rejects invalid input with the shared schemas", async () => {
+    await runInDurableObject(
+      getStub("validation"),
+      async (_instance, state) => {
+        const repository = new PlantRepository(state.storage.sql);
+
+        expect(() =>
+          repository.insertPlant("p1", { name: "", type: "Fern" })
+        ).toThrow();
+        expect(() =>
+          repository.insertPlant("p2", {
+            name: "Fernie",
+            type: "Fern",
+            waterFrequencyDays: -2
+          })
+        ).toThrow();
+        expect(repository.listPlants()).toEqual([]);
+      }
+    );
+  });
+});
@@ -0,0 +1,228 @@
+import { env, runInDurableObject } from "cloudflare:test";
+import { describe, it, expect, vi } from "vitest";
+import type { UIMessage, UIMessageStreamWriter } from "ai";
+import type { PlantCare } from "../src/server";
+import { SPECIES_CARE } from "../src/species/care-data";
+import {
+  findSpeciesCare,
+  resolveSpecies,
+  searchSpecies
+} from "../src/species/lookup";
+import { processToolCalls } from "../src/utils";
+
+function getStub(name: string) {
+  return env.PlantCare.get(env.PlantCare.idFromName(name));
+}
+
+describe("Species care guide", () => {
+  it("matches common names, botanical names and synonyms", () => {
+    for (const name of [
+      "pothos",
+      "Epipremnum aureum",
+      "devil's ivy",
+      "Devils Ivy",
+      "Golden Pothos"
+    ]) {
+      expect(findSpeciesCare(name)?.species.scientificName).toBe(
+        "Epipremnum aureum"
+      );
+    }
+    expect(findSpeciesCare("Sansevieria")?.species.scientificName).toBe(
+      "Dracaena trifasciata"
+    );
+  });
+
+  it("tolerates typos and extra words", () => {
+    expect(findSpeciesCare("Monstera Delicosa")?.species.scientificName).toBe(
+      "Monstera deliciosa"
+    );
+    expect(
+      findSpeciesCare("variegated snake plant")?.species.scientificName
+    ).toBe("Dracaena trifasciata");
+  });
+
+  it("does not guess for unrelated or vague names", () => {
+    expect(findSpeciesCare("Venus flytrap")).toBeNull();
+    expect(findSpeciesCare("fern")).toBeNull();
+    expect(searchSpecies("")).toEqual([]);
+  });
+
+  it("has a sensible watering range for every species", () => {
+    for (const species of SPECIES_CARE) {
+      expect(species.watering.minDays).toBeGreaterThan(0);
+      expect(species.watering.maxDays).toBeGreaterThanOrEqual(
+        species.watering.minDays
+      );
+      expect(species.temperatureC.max).toBeGreaterThan(
+        species.temperatureC.min
+      );
+    }
+  });
+});
+
+describe("Species defaults for new plants", () => {
+  it("fills in watering frequency and light from the species", async () => {
+    await runInDurableObject(
+      getStub("defaults"),
+      async (instance: PlantCare) => {
+        const plant = await instance.addPlant({
+          id: "p1",
+          name: "Spike",
+          type: "snake plant"
+        });
+
+        expect(plant).toMatchObject({
+          waterFrequencyDays: 18,
+          lightRequirement: "low to bright indirect"
+        });
+      }
+    );
+  });
+
+  it("keeps what the user gave and falls back for unknown species", async () => {
+    await runInDurableObject(
+      getStub("explicit"),
+      async (instance: PlantCare) => {
+        const fern = await instance.addPlant({
+          id: "p1",
+          name: "Fernie",
+          type: "Boston Fern",
+          waterFrequencyDays: 5,
+          lightRequirement: "north window"
+        });
+        const mystery = await instance.addPlant({
+          id: "p2",
+          name: "Mystery",
+          type: "Unknown cutting"
+        });
+
+        expect(fern).toMatchObject({
+          waterFrequencyDays: 5,
+          lightRequirement: "north window"
+        });
+        expect(mystery).toMatchObject({
+          waterFrequencyDays: 7,
+          lightRequirement: null
+        });
+      }
+    );
+  });
+});
+
+describe("Species resolution", () => {
+  it("resolves spellings and aliases to one canonical species", () => {
+    const ids = ["Snake plant", "snake plant", "Sansevieria"].map((name) => {
+      const resolution = resolveSpecies(name);
+      return resolution.status === "matched" ? resolution.species.id : null;
+    });
+    expect(ids).toEqual([
+      "dracaena-trifasciata",
+      "dracaena-trifasciata",
+      "dracaena-trifasciata"
+    ]);
+    expect(resolveSpecies("Venus flytrap")).toEqual({ status: "unknown" });
+  });
+
+  it("reports names shared by several species as ambiguous", () => {
+    const resolution = resolveSpecies("Money Plant");
+    expect(resolution.status).toBe("ambiguous");
+    if (resolution.status === "ambiguous") {
+      expect(resolution.candidates.map(({ species }) => species.id)).toEqual([
+        "epipremnum-aureum",
+        "crassula-ovata"
+      ]);
+    }
+  });
+
+  it("stores the typed label next to the canonical species", async () => {
+    await runInDurableObject(
+      getStub("canonical"),
+      async (instance: PlantCare) => {
+        const spike = await instance.addPlant({
+          id: "p1",
+          name: "Spike",
+          type: "Sansevieria"
+        });
+        const penny = await instance.addPlant({
+          id: "p2",
+          name: "Penny",
+          type: "money plant",
+          speciesId: "crassula-ovata"
+        });
+        const unsure = await instance.addPlant({
+          id: "p3",
+          name: "Unsure",
+          type: "money plant"
+        });
+
+        expect(spike).toMatchObject({
+          type: "Sansevieria",
+          speciesId: "dracaena-trifasciata"
+        });
+        expect(penny).toMatchObject({
+          speciesId: "crassula-ovata",
+          waterFrequencyDays: 18
+        });
+        expect(unsure.speciesId).toBeNull();
+        await expect(
+          instance.addPlant({
+            id: "p4",
+            name: "Nope",
+            type: "fern",
+            speciesId: "not-a-species"
+          })
+        ).rejects.toThrow("Unknown species");
+      }
+    );
+  });
+
+  it("re-resolves the species when the type is edited", async () => {
+    await runInDurableObject(getStub("retype"), async (instance: PlantCare) => {
+      await instance.addPlant({ id: "p1", name: "Leafy", type: "pothos" });
+
+      const result = await instance.updatePlant("p1", {
+        type: "Monstera deliciosa"
+      });
+
+      expect(result?.plant.speciesId).toBe("monstera-deliciosa");
+    });
+  });
+
+  it("passes the option the user picked to the confirmed tool", async () => {
+    const written: unknown[] = [];
+    const confirmSpecies = vi.fn().mockResolvedValue("added");
+    const messages: UIMessage[] = [
+      {
+        id: "m1",
+        role: "assistant",
+        parts: [
+          {
+            type: "tool-confirmSpecies",
+            toolCallId: "call-1",
+            state: "output-available",
+            input: { name: "Penny", type: "money plant", candidates: [] },
+            output: { choice: "crassula-ovata" }
+          }
+        ]
+      }
+    ];
+
+    const [processed] = await processToolCalls({
+      tools: {},
+      dataStream: {
+        write: (part: unknown) => written.push(part)
+      } as unknown as UIMessageStreamWriter,
+      messages,
+      executions: { confirmSpecies }
+    });
+
+    expect(confirmSpecies).toHaveBeenCalledWith(
+      expect.objectContaining({ name: "Penny", choice: "crassula-ovata" }),
+      expect.anything()
+    );
+    expect(processed.parts[0]).toMatchObject({ output: "added" });
+    expect(written).toEqual([
+      { type: "tool-output-available", toolCallId: "call-1", output: "added" }
+    ]);
+  });
+});
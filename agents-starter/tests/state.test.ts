@@ -0,0 +1,65 @@
+import { env, runInDurableObject } from "cloudflare:test";
+import { describe, it, expect } from "vitest";
+import type { PlantCare } from "../src/server";
+
+function getStub(name: string) {
+  return env.PlantCare.get(env.PlantCare.idFromName(name));
+}
+
+describe("Collection state sync", () => {
+  it("publishes the collection when plants are added and watered", async () => {
+    await runInDurableObject(getStub("sync"), async (instance: PlantCare) => {
+      await instance.addPlant({
+        id: "p1",
+        name: "Fernie",
+        type: "Boston Fern"
+      });
+      await instance.addPlant({ id: "p2", name: "Spike", type: "Snake Plant" });
+
+      expect(instance.state.plants.map((plant) => plant.id).sort()).toEqual([
+        "p1",
+        "p2"
+      ]);
+      expect(instance.state.dueCount).toBe(2);
+
+      await instance.waterPlant("p1");
+
+      expect(instance.state.dueCount).toBe(1);
+      expect(instance.state.updatedAt).not.toBeNull();
+    });
+  });
+
+  it("tracks open health issues", async () => {
+    await runInDurableObject(getStub("issues"), async (instance: PlantCare) => {
+      await instance.addPlant({
+        id: "p1",
+        name: "Fernie",
+        type: "Boston Fern"
+      });
+      instance.recordHealthIssue("p1", "brown tips");
+      instance.recordHealthIssue("p1", "drooping");
+
+      expect(instance.state.openIssueCount).toBe(2);
+      expect(instance.state.plants[0].openHealthIssues).toHaveLength(2);
+    });
+  });
+
+  it("drops removed plants and brings restored ones back", async () => {
+    await runInDurableObject(
+      getStub("archive"),
+      async (instance: PlantCare) => {
+        await instance.addPlant({
+          id: "p1",
+          name: "Fernie",
+          type: "Boston Fern"
+        });
+
+        await instance.removePlant("p1");
+        expect(instance.state.plants).toEqual([]);
+
+        await instance.restorePlant("p1");
+        expect(instance.state.plants).toHaveLength(1);
+      }
+    );
+  });
+});
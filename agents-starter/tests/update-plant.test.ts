@@ -0,0 +1,101 @@
+import { env, runInDurableObject } from "cloudflare:test";
+import { describe, it, expect } from "vitest";
+import type { PlantCare } from "../src/server";
+import { DAY_MS, type ReminderPayload } from "../src/shared";
+
+function getStub(name: string) {
+  return env.PlantCare.get(env.PlantCare.idFromName(name));
+}
+
+describe("updatePlant", () => {
+  it("changes only the given fields and records them in the audit trail", async () => {
+    await runInDurableObject(getStub("edit"), async (instance: PlantCare) => {
+      await instance.addPlant({
+        id: "p1",
+        name: "Monty",
+        type: "Monstera",
+        location: "living room",
+        notes: "likes humidity"
+      });
+      await instance.waterPlant("p1");
+
+      const result = await instance.updatePlant("p1", {
+        location: "bedroom",
+        notes: null,
+        name: "Monty"
+      });
+
+      expect(result?.plant).toMatchObject({
+        name: "Monty",
+        type: "Monstera",
+        location: "bedroom",
+        notes: null
+      });
+      expect(
+        result?.changes.map(({ field, oldValue, newValue }) => ({
+          field,
+          oldValue,
+          newValue
+        }))
+      ).toEqual([
+        { field: "location", oldValue: "living room", newValue: "bedroom" },
+        { field: "notes", oldValue: "likes humidity", newValue: null }
+      ]);
+      // History survives the edit
+      expect(instance.getWateringHistory("p1")).toHaveLength(1);
+      expect(instance.getPlantChanges("p1")).toHaveLength(2);
+    });
+  });
+
+  it("reschedules the watering reminder when the frequency changes", async () => {
+    await runInDurableObject(
+      getStub("frequency"),
+      async (instance: PlantCare) => {
+        await instance.addPlant({
+          id: "p1",
+          name: "Spike",
+          type: "Snake Plant",
+          waterFrequencyDays: 7
+        });
+        const { wateredAt } = await instance.waterPlant("p1");
+
+        await instance.updatePlant("p1", { waterFrequencyDays: 14 });
+
+        const reminders = instance
+          .getSchedules<ReminderPayload>()
+          .filter((task) => task.payload.kind === "watering");
+        expect(reminders).toHaveLength(1);
+        expect(reminders[0].time).toBe(
+          Math.floor((new Date(wateredAt).getTime() + 14 * DAY_MS) / 1000)
+        );
+        expect(instance.getPlantChanges("p1")).toMatchObject([
+          { field: "waterFrequencyDays", oldValue: "7", newValue: "14" }
+        ]);
+      }
+    );
+  });
+
+  it("rejects empty or invalid updates and unknown plants", async () => {
+    await runInDurableObject(
+      getStub("invalid"),
+      async (instance: PlantCare) => {
+        await instance.addPlant({
+          id: "p1",
+          name: "Fernie",
+          type: "Boston Fern"
+        });
+
+        await expect(instance.updatePlant("p1", {})).rejects.toThrow(
+          /At least one field/
+        );
+        await expect(
+          instance.updatePlant("p1", { waterFrequencyDays: 0 })
+        ).rejects.toThrow();
+        expect(
+          await instance.updatePlant("missing", { name: "Ghost" })
+        ).toBeNull();
+        expect(instance.getPlantChanges("p1")).toEqual([]);
+      }
+    );
+  });
+});
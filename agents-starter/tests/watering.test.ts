@@ -0,0 +1,219 @@
+import {
+  env,
+  createExecutionContext,
+  runInDurableObject,
+  waitOnExecutionContext
+} from "cloudflare:test";
+import { describe, it, expect } from "vitest";
+import { createSessionToken } from "../src/auth";
+import worker, { type PlantCare } from "../src/server";
+import { buildWateringDigest } from "../src/reminders";
+import {
+  DAY_MS,
+  parseTimestamp,
+  type CareProfile,
+  type ReminderPayload
+} from "../src/shared";
+import {
+  calculateWateringInterval,
+  describeWateringInterval,
+  getSeason
+} from "../src/watering";
+import { makePlant } from "./fixtures";
+
+function getStub(name: string) {
+  return env.PlantCare.get(env.PlantCare.idFromName(name));
+}
+
+/**
+ * Send a request as the user whose own PlantCare instance it addresses
+ */
+async function signedIn(request: Request, userId: string) {
+  const token = await createSessionToken({ id: userId }, env.AUTH_SECRET);
+  request.headers.set("Authorization", `Bearer ${token}`);
+  return request;
+}
+
+const noProfile: CareProfile = {
+  hemisphere: null,
+  location: null,
+  indoorTemperature: null,
+  indoorHumidity: null,
+  autoAdjustWatering: false,
+  updatedAt: null
+};
+
+describe("getSeason", () => {
+  it("flips the seasons between hemispheres", () => {
+    const january = new Date("2025-01-15T12:00:00.000Z");
+    const april = new Date("2025-04-15T12:00:00.000Z");
+    expect(getSeason(january, "northern")).toBe("winter");
+    expect(getSeason(january, "southern")).toBe("summer");
+    expect(getSeason(april, "northern")).toBe("spring");
+    expect(getSeason(april, "southern")).toBe("autumn");
+  });
+});
+
+describe("Watering interval calculator", () => {
+  const january = new Date("2025-01-15T12:00:00.000Z");
+
+  it("keeps the base frequency without a profile or plant factors", () => {
+    expect(calculateWateringInterval(makePlant(), noProfile, january)).toEqual({
+      baseDays: 7,
+      days: 7,
+      season: null,
+      adjustments: []
+    });
+  });
+
+  it("combines the season, home and plant factors", () => {
+    const interval = calculateWateringInterval(
+      makePlant({ potSizeCm: 30, lightLevel: "low" }),
+      { ...noProfile, hemisphere: "northern", indoorTemperature: "cool" },
+      january
+    );
+
+    // 7 * 1.3 * 1.15 * 1.2 * 1.25 = 15.7
+    expect(interval.days).toBe(16);
+    expect(interval.season).toBe("winter");
+    expect(
+      describeWateringInterval({ ...makePlant(), wateringInterval: interval })
+    ).toBe(
+      "every 16 days instead of 7: slower growth in winter, cool home, large pot holds water longer, low light"
+    );
+  });
+
+  it("never drops below one day", () => {
+    const interval = calculateWateringInterval(
+      makePlant({ waterFrequencyDays: 1, potSizeCm: 8, lightLevel: "direct" }),
+      { ...noProfile, indoorTemperature: "warm", indoorHumidity: "dry" },
+      january
+    );
+    expect(interval.days).toBe(1);
+    expect(
+      describeWateringInterval({ ...makePlant(), wateringInterval: interval })
+    ).toBe("");
+  });
+
+  it("explains the adjustment in the reminder digest", () => {
+    const watered = makePlant({
+      lastWatered: new Date(Date.now() - 9 * DAY_MS).toISOString(),
+      lightLevel: "low"
+    });
+    const wateringInterval = calculateWateringInterval(watered, noProfile);
+
+    expect(buildWateringDigest([{ ...watered, wateringInterval }])).toBe(
+      "Time to water! Fernie (Boston Fern, every 9 days instead of 7: low light) is due today."
+    );
+  });
+});
+
+describe("Care profile", () => {
+  it("moves watering reminders when the profile changes", async () => {
+    await runInDurableObject(
+      getStub("profile-reminders"),
+      async (instance: PlantCare) => {
+        const added = await instance.addPlant({
+          id: "p1",
+          name: "Monty",
+          type: "Monstera",
+          waterFrequencyDays: 10,
+          lightLevel: "low"
+        });
+        const reminderAt = () =>
+          instance
+            .getSchedules<ReminderPayload>()
+            .find((task) => task.payload.kind === "watering");
+        const dueAfter = (days: number) =>
+          Math.floor(
+            (parseTimestamp(added.createdAt).getTime() + days * DAY_MS) / 1000
+          );
+
+        // 10 * 1.25 = 12.5
+        expect(reminderAt()).toMatchObject({ time: dueAfter(13) });
+
+        const profile = await instance.updateCareProfile({
+          indoorTemperature: "warm"
+        });
+        expect(profile).toMatchObject({
+          indoorTemperature: "warm",
+          hemisphere: null
+        });
+        expect(instance.getCareProfile()).toEqual(profile);
+
+        // 10 * 1.25 * 0.9 = 11.25
+        expect(reminderAt()).toMatchObject({ time: dueAfter(11) });
+        const [overview] = instance.getCollectionOverview();
+        expect(overview.wateringInterval.days).toBe(11);
+      }
+    );
+  });
+
+  it("checks watering needs against the adjusted interval", async () => {
+    await runInDurableObject(
+      getStub("profile-needs"),
+      async (instance: PlantCare, state) => {
+        await instance.addPlant({
+          id: "small",
+          name: "Tiny",
+          type: "Pothos",
+          waterFrequencyDays: 10,
+          potSizeCm: 8
+        });
+        await instance.addPlant({
+          id: "shady",
+          name: "Shady",
+          type: "Pothos",
+          waterFrequencyDays: 10,
+          lightLevel: "low"
+        });
+        const nineDaysAgo = new Date(Date.now() - 9 * DAY_MS).toISOString();
+        state.storage.sql.exec(
+          "UPDATE plants SET last_watered = ?",
+          nineDaysAgo
+        );
+
+        expect(instance.getPlantsNeedingWater()).toEqual([
+          expect.objectContaining({
+            id: "small",
+            wateringInterval: expect.objectContaining({ days: 8 })
+          })
+        ]);
+      }
+    );
+  });
+
+  it("is exposed over the REST API", async () => {
+    async function request(init: RequestInit) {
+      const ctx = createExecutionContext();
+      const response = await worker.fetch(
+        await signedIn(
+          new Request(
+            "http://example.com/api/agents/rest-profile/profile",
+            init
+          ),
+          "rest-profile"
+        ),
+        env,
+        ctx
+      );
+      await waitOnExecutionContext(ctx);
+      return response;
+    }
+    const put = (body: unknown) =>
+      request({
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body)
+      });
+
+    expect((await put({})).status).toBe(400);
+    expect((await put({ hemisphere: "eastern" })).status).toBe(400);
+
+    const updated = await put({ hemisphere: "southern", location: "Perth" });
+    expect(updated.status).toBe(200);
+    expect(await request({ method: "GET" }).then((r) => r.json())).toEqual(
+      await updated.json()
+    );
+  });
+});
@@ -17,7 +17,12 @@ export default defineWorkersConfig({
     },
     poolOptions: {
       workers: {
-        wrangler: { configPath: "./wrangler.jsonc" }
+        remoteBindings: false,
+        wrangler: { configPath: "./wrangler.jsonc" },
+        miniflare: {
+          // Signs the session tokens tests sign in with
+          bindings: { AUTH_SECRET: "test-secret" }
+        }
       }
     }
   }